@@ -0,0 +1,9 @@
+-- XIV Dye Tools - Remember Preset Status Across Bans
+-- Migration 0005: Restore hidden presets to their original status on unban
+--
+-- When a user is banned, all of their presets are set to status = 'hidden'.
+-- The status they had before the ban is stored here so that lifting the ban
+-- restores each preset exactly (approved stays approved, pending stays pending).
+
+-- NULL when the preset is not hidden by a ban
+ALTER TABLE presets ADD COLUMN pre_ban_status TEXT;
@@ -0,0 +1,14 @@
+-- XIV Dye Tools - Temporary Bans
+-- Migration 0006: Optional expiry for bans
+--
+-- Bans with an expires_at timestamp stop being enforced once it passes.
+-- A scheduled job then closes them (unbanned_at = expires_at, with a NULL
+-- unban_moderator_discord_id) and restores the user's hidden presets.
+-- Permanent bans keep expires_at NULL.
+
+ALTER TABLE banned_users ADD COLUMN expires_at TEXT;
+
+-- Index for the expiry sweep: active bans that have an expiry
+CREATE INDEX IF NOT EXISTS idx_banned_users_expires
+  ON banned_users(expires_at)
+  WHERE unbanned_at IS NULL AND expires_at IS NOT NULL;
@@ -0,0 +1,14 @@
+-- XIV Dye Tools - XIVAuth Identities
+-- Migration 0007: Track XIVAuth authors on presets
+--
+-- Users can log in with XIVAuth instead of (or linked to) Discord.
+-- Presets record both identities when known; XIVAuth users without a
+-- linked Discord account have author_discord_id = NULL.
+--
+-- votes.user_discord_id holds the voter's user key: their Discord ID,
+-- or 'xivauth:<xivauth_id>' for XIVAuth users without a linked Discord account.
+
+ALTER TABLE presets ADD COLUMN author_xivauth_id TEXT;
+
+-- For: WHERE author_xivauth_id = ? ORDER BY created_at DESC (user's presets, rate limits)
+CREATE INDEX IF NOT EXISTS idx_presets_author_xivauth_created ON presets(author_xivauth_id, created_at DESC);
@@ -0,0 +1,22 @@
+-- XIV Dye Tools - Full-Text Search Index for Presets
+-- Migration 0008: Replace LIKE-based search with an FTS5 index
+--
+-- presets_fts holds one row per preset with its searchable text. Tags are
+-- stored space-separated (not as JSON) so brackets and quotes never match.
+-- The application keeps it in sync (see preset-index-service searchIndexStatements)
+-- in the same batch as every write to name, description, or tags.
+--
+-- unicode61 with remove_diacritics lets "eorzea" match "Eorzéa".
+
+CREATE VIRTUAL TABLE IF NOT EXISTS presets_fts USING fts5(
+  preset_id UNINDEXED,
+  name,
+  description,
+  tags,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill existing presets
+INSERT INTO presets_fts (preset_id, name, description, tags)
+SELECT id, name, description, (SELECT group_concat(value, ' ') FROM json_each(presets.tags))
+FROM presets;
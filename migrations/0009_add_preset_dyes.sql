@@ -0,0 +1,23 @@
+-- XIV Dye Tools - Preset/Dye Index
+-- Migration 0009: Normalized lookup of presets by contained dye
+--
+-- presets.dyes is a JSON array, which can't be indexed or matched reliably
+-- (a LIKE on '5738' also hits 157380). preset_dyes has one row per dye in each
+-- preset and is kept in sync by the application in the same batch as every
+-- write to presets.dyes (see preset-index-service dyeIndexStatements).
+
+CREATE TABLE IF NOT EXISTS preset_dyes (
+  preset_id TEXT NOT NULL,
+  dye_id INTEGER NOT NULL,
+
+  PRIMARY KEY (preset_id, dye_id),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE dye_id IN (...) (?dyes= filter)
+CREATE INDEX IF NOT EXISTS idx_preset_dyes_dye ON preset_dyes(dye_id, preset_id);
+
+-- Backfill existing presets
+INSERT OR IGNORE INTO preset_dyes (preset_id, dye_id)
+SELECT presets.id, json_each.value
+FROM presets, json_each(presets.dyes);
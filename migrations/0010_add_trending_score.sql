@@ -0,0 +1,12 @@
+-- XIV Dye Tools - Trending Score
+-- Migration 0010: Precomputed time-decayed vote score for sort=trending
+--
+-- trending_score is the sum over a preset's votes of 0.5^(age / half-life),
+-- so a vote counts fully when cast and half as much one half-life later.
+-- It is recomputed by the scheduled handler (see trending-service), so
+-- sort=trending reads an indexed column instead of aggregating votes.
+
+ALTER TABLE presets ADD COLUMN trending_score REAL NOT NULL DEFAULT 0;
+
+-- For: WHERE status = 'approved' ORDER BY trending_score DESC (trending presets)
+CREATE INDEX IF NOT EXISTS idx_presets_status_trending ON presets(status, trending_score DESC);
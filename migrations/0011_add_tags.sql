@@ -0,0 +1,57 @@
+-- XIV Dye Tools - Normalized Tags
+-- Migration 0011: Tag registry, aliases, and preset/tag index
+--
+-- Tags are normalized (trimmed, lowercased, inner whitespace collapsed) before
+-- they are stored, and aliases are resolved to one canonical tag, so "Gothic",
+-- "gothic " and "goth" all end up as "gothic". presets.tags keeps the canonical
+-- JSON array for display; preset_tags indexes it for browsing and filtering.
+-- The application keeps preset_tags in sync (see preset-index-service).
+
+-- Canonical tags
+CREATE TABLE IF NOT EXISTS tags (
+  name TEXT PRIMARY KEY,                  -- Normalized tag, e.g. 'gothic'
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Alternative spellings merged into a canonical tag (managed by moderators)
+CREATE TABLE IF NOT EXISTS tag_aliases (
+  alias TEXT PRIMARY KEY,                 -- Normalized alias, e.g. 'goth'
+  tag TEXT NOT NULL,                      -- Canonical tag it resolves to
+  created_at TEXT DEFAULT (datetime('now')),
+
+  FOREIGN KEY (tag) REFERENCES tags(name)
+);
+
+CREATE TABLE IF NOT EXISTS preset_tags (
+  preset_id TEXT NOT NULL,
+  tag TEXT NOT NULL,
+
+  PRIMARY KEY (preset_id, tag),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE tag = ? (?tag= filter) and per-tag counts
+CREATE INDEX IF NOT EXISTS idx_preset_tags_tag ON preset_tags(tag, preset_id);
+
+-- Normalize existing tags (SQLite lower() only folds ASCII; new writes are
+-- normalized in full by the application)
+UPDATE presets
+SET tags = (
+  SELECT json_group_array(DISTINCT lower(trim(value)))
+  FROM json_each(presets.tags)
+  WHERE trim(value) != ''
+);
+
+-- Backfill the index and registry
+INSERT OR IGNORE INTO preset_tags (preset_id, tag)
+SELECT presets.id, json_each.value
+FROM presets, json_each(presets.tags);
+
+INSERT OR IGNORE INTO tags (name)
+SELECT DISTINCT tag FROM preset_tags;
+
+-- Rebuild the search index with the normalized tags
+DELETE FROM presets_fts;
+INSERT INTO presets_fts (preset_id, name, description, tags)
+SELECT id, name, description, (SELECT group_concat(value, ' ') FROM json_each(presets.tags))
+FROM presets;
@@ -0,0 +1,38 @@
+-- XIV Dye Tools - Preset Revision History
+-- Migration 0012: Full revision row for every create, edit, revert, and restore
+--
+-- Each revision is a snapshot of the preset's content after the change, with
+-- who made it, which fields changed, and the resulting preset status (the
+-- moderation outcome). previous_values is kept for the existing flagged-edit
+-- revert flow; revisions let moderators restore any older version.
+
+CREATE TABLE IF NOT EXISTS preset_revisions (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT NOT NULL,
+  revision_number INTEGER NOT NULL,       -- 1, 2, 3... per preset
+  action TEXT NOT NULL,                   -- baseline | create | edit | revert | restore
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  dyes TEXT NOT NULL,                     -- JSON array
+  tags TEXT NOT NULL,                     -- JSON array
+  changed_fields TEXT NOT NULL,           -- JSON array: ["name", "tags"]
+  editor_discord_id TEXT,                 -- Author for create/edit, moderator for revert/restore
+  editor_xivauth_id TEXT,
+  moderation_status TEXT NOT NULL,        -- Preset status after the change
+  created_at TEXT NOT NULL,
+
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE preset_id = ? ORDER BY revision_number DESC
+CREATE UNIQUE INDEX IF NOT EXISTS idx_preset_revisions_preset ON preset_revisions(preset_id, revision_number);
+
+-- Baseline revision for existing presets (their content when history began)
+INSERT INTO preset_revisions (
+  id, preset_id, revision_number, action, name, description, dyes, tags,
+  changed_fields, editor_discord_id, editor_xivauth_id, moderation_status, created_at
+)
+SELECT
+  lower(hex(randomblob(16))), id, 1, 'baseline', name, description, dyes, tags,
+  '["name","description","dyes","tags"]', author_discord_id, author_xivauth_id, status, updated_at
+FROM presets;
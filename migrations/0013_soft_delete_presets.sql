@@ -0,0 +1,47 @@
+-- XIV Dye Tools - Soft Delete for Presets
+-- Migration 0013: Deleted presets stay restorable for a window, then are purged
+--
+-- Deleting a preset sets deleted_at and removes its search, dye, and tag index
+-- entries; every listing also filters on deleted_at IS NULL. dye_signature is
+-- cleared so the dye combination is free for new presets (restoring re-checks it).
+-- Presets deleted longer than PRESET_RESTORE_WINDOW_DAYS ago are purged by the
+-- scheduled handler; moderators can purge any preset immediately.
+
+-- NULL while the preset is live
+ALTER TABLE presets ADD COLUMN deleted_at TEXT;
+
+-- 1 when a moderator deleted someone else's preset (the author cannot restore it)
+ALTER TABLE presets ADD COLUMN deleted_by_moderator INTEGER NOT NULL DEFAULT 0;
+
+-- For: WHERE deleted_at <= ? (purge sweep)
+CREATE INDEX IF NOT EXISTS idx_presets_deleted ON presets(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- ============================================
+-- Keep the moderation audit trail after purges
+-- ============================================
+-- moderation_log.preset_id referenced presets(id) ON DELETE CASCADE, so purging
+-- a preset erased its history. SQLite cannot drop a foreign key, so the table
+-- is rebuilt without it.
+
+PRAGMA defer_foreign_keys = on;
+
+CREATE TABLE moderation_log_new (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT NOT NULL,                -- Not a foreign key: entries outlive purged presets
+  moderator_discord_id TEXT NOT NULL,
+  action TEXT NOT NULL,                   -- approve | reject | flag | unflag | revert | restore | delete | purge
+  reason TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+INSERT INTO moderation_log_new (id, preset_id, moderator_discord_id, action, reason, created_at)
+SELECT id, preset_id, moderator_discord_id, action, reason, created_at FROM moderation_log;
+
+DROP TABLE moderation_log;
+ALTER TABLE moderation_log_new RENAME TO moderation_log;
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_preset ON moderation_log(preset_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_moderator ON moderation_log(moderator_discord_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_created ON moderation_log(created_at DESC);
+
+PRAGMA defer_foreign_keys = off;
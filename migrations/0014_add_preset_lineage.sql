@@ -0,0 +1,11 @@
+-- XIV Dye Tools - Remix Lineage
+-- Migration 0014: Record which preset a submission was remixed from
+--
+-- parent_id is set from the submission's parent_id and never changes. If the
+-- parent is purged the link is cleared; remixes of a soft-deleted or hidden
+-- parent keep it but the API stops showing the parent.
+
+ALTER TABLE presets ADD COLUMN parent_id TEXT REFERENCES presets(id) ON DELETE SET NULL;
+
+-- For: WHERE parent_id = ? (remix listings and counts)
+CREATE INDEX IF NOT EXISTS idx_presets_parent ON presets(parent_id) WHERE parent_id IS NOT NULL;
@@ -0,0 +1,33 @@
+-- XIV Dye Tools - User Collections
+-- Migration 0015: Named, ordered lists of presets owned by a Discord user
+--
+-- Collections are separate from votes. Private collections are only visible
+-- to their owner. Presets that are hidden, unapproved, or soft-deleted stay in
+-- collection_presets but are left out when a collection is read, so they
+-- reappear if the preset is restored.
+
+CREATE TABLE IF NOT EXISTS collections (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  owner_discord_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_public INTEGER NOT NULL DEFAULT 0,   -- SQLite boolean
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- For: WHERE owner_discord_id = ? ORDER BY updated_at DESC
+CREATE INDEX IF NOT EXISTS idx_collections_owner ON collections(owner_discord_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS collection_presets (
+  collection_id TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  position INTEGER NOT NULL,              -- 0-based display order
+  added_at TEXT NOT NULL,
+  PRIMARY KEY (collection_id, preset_id),
+  FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: purging a preset from every collection
+CREATE INDEX IF NOT EXISTS idx_collection_presets_preset ON collection_presets(preset_id);
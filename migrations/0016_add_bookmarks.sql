@@ -0,0 +1,20 @@
+-- XIV Dye Tools - Preset Bookmarks
+-- Migration 0016: Private per-user bookmarks, kept apart from votes
+--
+-- Bookmarks never touch presets.vote_count or trending_score, so saving a preset
+-- doesn't affect ranking. user_key is the same key votes use: the Discord ID, or
+-- "xivauth:<id>" for XIVAuth users without a linked Discord account.
+
+CREATE TABLE IF NOT EXISTS bookmarks (
+  user_key TEXT NOT NULL,
+  preset_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (user_key, preset_id),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE user_key = ? ORDER BY created_at DESC
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created ON bookmarks(user_key, created_at DESC);
+
+-- For: purging a preset from every user's bookmarks
+CREATE INDEX IF NOT EXISTS idx_bookmarks_preset ON bookmarks(preset_id);
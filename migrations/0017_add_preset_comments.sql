@@ -0,0 +1,34 @@
+-- XIV Dye Tools - Preset Comments
+-- Migration 0017: Short user comments on presets, moderated like presets
+--
+-- Comments pass through moderateContent on create and edit. Flagged comments are
+-- 'pending' (shown only to their author) until a moderator approves or hides them.
+-- Moderator actions on comments go to moderation_log with the comment's preset_id
+-- and the new comment_id column.
+
+CREATE TABLE IF NOT EXISTS preset_comments (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT NOT NULL,
+  author_discord_id TEXT,
+  author_xivauth_id TEXT,
+  author_name TEXT,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'visible', -- visible | pending | hidden
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  edited_at TEXT,                         -- Set when the author edits the body
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: WHERE preset_id = ? ORDER BY created_at DESC
+CREATE INDEX IF NOT EXISTS idx_preset_comments_preset ON preset_comments(preset_id, created_at DESC);
+
+-- For: daily comment rate limit per author
+CREATE INDEX IF NOT EXISTS idx_preset_comments_author ON preset_comments(author_discord_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_preset_comments_author_xivauth ON preset_comments(author_xivauth_id, created_at);
+
+-- For: moderation queue of flagged comments
+CREATE INDEX IF NOT EXISTS idx_preset_comments_pending ON preset_comments(created_at) WHERE status = 'pending';
+
+-- Which comment a moderation_log entry is about (NULL for preset actions)
+ALTER TABLE moderation_log ADD COLUMN comment_id TEXT;
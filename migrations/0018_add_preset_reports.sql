@@ -0,0 +1,28 @@
+-- XIV Dye Tools - User Reports
+-- Migration 0018: Users can report a preset once; moderators resolve or dismiss reports
+--
+-- When a preset collects REPORT_FLAG_THRESHOLD open reports (default 3) it is
+-- moved from 'approved' to 'flagged', which takes it out of public listings
+-- until a moderator reviews it. Each user can report a preset once, keyed like
+-- votes: the Discord ID, or "xivauth:<id>" for XIVAuth-only users.
+
+CREATE TABLE IF NOT EXISTS preset_reports (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT NOT NULL,
+  reporter_key TEXT NOT NULL,
+  category TEXT NOT NULL,                 -- offensive | spam | stolen | wrong_category
+  details TEXT,                           -- Optional free text from the reporter
+  status TEXT NOT NULL DEFAULT 'open',    -- open | resolved | dismissed
+  created_at TEXT NOT NULL,
+  reviewed_at TEXT,
+  reviewer_discord_id TEXT,
+  review_note TEXT,
+  UNIQUE (preset_id, reporter_key),
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: moderator queue, WHERE status = ? ORDER BY created_at
+CREATE INDEX IF NOT EXISTS idx_preset_reports_status ON preset_reports(status, created_at);
+
+-- For: counting a preset's open reports
+CREATE INDEX IF NOT EXISTS idx_preset_reports_preset ON preset_reports(preset_id, status);
@@ -0,0 +1,17 @@
+-- XIV Dye Tools - Moderation Queue Claims
+-- Migration 0019: A moderator can claim a pending preset for a few minutes
+--
+-- While a claim is active, other moderators' status changes and reverts are
+-- refused unless they pass force. Claims expire on their own (expires_at) and
+-- are cleared when the claimed preset's status is changed.
+
+CREATE TABLE IF NOT EXISTS moderation_claims (
+  preset_id TEXT PRIMARY KEY,             -- One claim per preset
+  moderator_discord_id TEXT NOT NULL,
+  claimed_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  FOREIGN KEY (preset_id) REFERENCES presets(id) ON DELETE CASCADE
+);
+
+-- For: active claims, WHERE expires_at > ?
+CREATE INDEX IF NOT EXISTS idx_moderation_claims_expires ON moderation_claims(expires_at);
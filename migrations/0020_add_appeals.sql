@@ -0,0 +1,38 @@
+-- XIV Dye Tools - Appeals
+-- Migration 0020: Authors can appeal a rejected preset, and users an active ban
+--
+-- target_id is the preset ID for preset appeals and the banned_users ID for ban
+-- appeals. A target can have one open appeal at a time, and a denied appeal is
+-- final. An accepted appeal reverses the decision (the preset is approved, or
+-- the ban lifted), so a preset rejected again later can be appealed again.
+--
+-- This table is the record of each appeal and its review. Preset appeal
+-- decisions are also written to moderation_log; ban appeal decisions aren't,
+-- as moderation_log entries need a preset_id (the lifted ban records the
+-- moderator in banned_users.unban_moderator_discord_id).
+
+CREATE TABLE IF NOT EXISTS appeals (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  target_type TEXT NOT NULL,              -- preset | ban
+  target_id TEXT NOT NULL,
+  appellant_discord_id TEXT,
+  appellant_xivauth_id TEXT,
+  appellant_name TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',    -- open | accepted | denied
+  created_at TEXT NOT NULL,
+  reviewed_at TEXT,
+  reviewer_discord_id TEXT,
+  review_reason TEXT
+);
+
+-- One open appeal per target
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_open_target
+  ON appeals(target_type, target_id) WHERE status = 'open';
+
+-- For: moderator queue, WHERE status = ? ORDER BY created_at
+CREATE INDEX IF NOT EXISTS idx_appeals_status ON appeals(status, created_at);
+
+-- For: a user's own appeals
+CREATE INDEX IF NOT EXISTS idx_appeals_appellant_discord ON appeals(appellant_discord_id);
+CREATE INDEX IF NOT EXISTS idx_appeals_appellant_xivauth ON appeals(appellant_xivauth_id);
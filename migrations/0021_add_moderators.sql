@@ -0,0 +1,16 @@
+-- XIV Dye Tools - Moderator Roles
+-- Migration 0021: Moderators and their roles, managed by admins through the API
+--
+-- Each role grants a fixed set of permissions (ROLE_PERMISSIONS in
+-- moderator-service): reviewers approve and reject, moderators can also revert
+-- and ban, and admins can do everything including managing moderators.
+-- Discord IDs in the MODERATOR_IDS secret are always admins, so a deployment
+-- with an empty table still has someone who can add moderators.
+
+CREATE TABLE IF NOT EXISTS moderators (
+  discord_id TEXT PRIMARY KEY,
+  role TEXT NOT NULL,                     -- reviewer | moderator | admin
+  added_by TEXT NOT NULL,                 -- Discord ID of the admin who added or last changed them
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,17 @@
+-- XIV Dye Tools - Moderation Policy
+-- Migration 0022: Per-attribute Perspective thresholds, editable through the API
+--
+-- One row per Perspective attribute (TOXICITY, SEVERE_TOXICITY, IDENTITY_ATTACK,
+-- INSULT, PROFANITY). Scores at or above pending_threshold hold the content for
+-- review; scores at or above reject_threshold refuse it outright. NULL disables
+-- that level. Attributes without a row use the defaults in
+-- moderation-policy-service (pending at 0.7, no auto-reject), so no seed rows
+-- are needed.
+
+CREATE TABLE IF NOT EXISTS moderation_policy (
+  attribute TEXT PRIMARY KEY,
+  pending_threshold REAL,                 -- 0-1, NULL = never hold for review
+  reject_threshold REAL,                  -- 0-1, NULL = never auto-reject
+  updated_at TEXT NOT NULL,
+  updated_by TEXT NOT NULL                -- Discord ID of the moderator who last changed it
+);
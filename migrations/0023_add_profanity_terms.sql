@@ -0,0 +1,15 @@
+-- XIV Dye Tools - Profanity Terms
+-- Migration 0023: Blocked terms managed by moderators through the API
+--
+-- The local filter checks these alongside the word lists bundled in
+-- src/data/profanity, so adding a term no longer needs a deploy. Bundled terms
+-- are not copied here and can only be removed with a code change.
+
+CREATE TABLE IF NOT EXISTS profanity_terms (
+  id TEXT PRIMARY KEY,
+  locale TEXT NOT NULL,                   -- en | ja | de | fr | ko | zh
+  term TEXT NOT NULL,                     -- Stored lowercase
+  added_by TEXT NOT NULL,                 -- Discord ID of the moderator who added it
+  created_at TEXT NOT NULL,
+  UNIQUE(locale, term)
+);
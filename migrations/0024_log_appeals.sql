@@ -0,0 +1,46 @@
+-- XIV Dye Tools - Appeal Log Entries
+-- Migration 0024: Every appeal step is written to moderation_log
+--
+-- Submissions (appeal_submit) and decisions (appeal_accept, appeal_deny) on both
+-- preset and ban appeals are logged with the new appeal_id column. Ban appeals
+-- have no preset, so preset_id becomes nullable. For appeal_submit entries,
+-- moderator_discord_id holds the appellant's Discord ID (or XIVAuth ID).
+-- SQLite cannot drop a NOT NULL constraint, so the table is rebuilt (see 0013).
+
+CREATE TABLE moderation_log_new (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  preset_id TEXT,                         -- Not a foreign key: entries outlive purged presets. NULL for ban appeals
+  comment_id TEXT,                        -- Which comment the entry is about (NULL for preset actions)
+  appeal_id TEXT,                         -- Which appeal the entry is about (NULL otherwise)
+  moderator_discord_id TEXT NOT NULL,
+  action TEXT NOT NULL,                   -- approve | reject | flag | ... | appeal_submit | appeal_accept | appeal_deny
+  reason TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+INSERT INTO moderation_log_new (id, preset_id, comment_id, moderator_discord_id, action, reason, created_at)
+SELECT id, preset_id, comment_id, moderator_discord_id, action, reason, created_at FROM moderation_log;
+
+DROP TABLE moderation_log;
+ALTER TABLE moderation_log_new RENAME TO moderation_log;
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_preset ON moderation_log(preset_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_moderator ON moderation_log(moderator_discord_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_created ON moderation_log(created_at DESC);
+
+-- For: an appeal's history
+CREATE INDEX IF NOT EXISTS idx_moderation_log_appeal ON moderation_log(appeal_id) WHERE appeal_id IS NOT NULL;
+
+-- Backfill earlier submissions, and earlier ban appeal decisions (preset appeal
+-- decisions were already logged, without an appeal_id)
+INSERT INTO moderation_log (id, preset_id, appeal_id, moderator_discord_id, action, reason, created_at)
+SELECT lower(hex(randomblob(16))), CASE WHEN target_type = 'preset' THEN target_id END, id,
+       COALESCE(appellant_discord_id, appellant_xivauth_id), 'appeal_submit', NULL, created_at
+FROM appeals
+WHERE COALESCE(appellant_discord_id, appellant_xivauth_id) IS NOT NULL;
+
+INSERT INTO moderation_log (id, preset_id, appeal_id, moderator_discord_id, action, reason, created_at)
+SELECT lower(hex(randomblob(16))), NULL, id, reviewer_discord_id,
+       CASE WHEN status = 'accepted' THEN 'appeal_accept' ELSE 'appeal_deny' END, review_reason, reviewed_at
+FROM appeals
+WHERE target_type = 'ban' AND status != 'open' AND reviewer_discord_id IS NOT NULL;
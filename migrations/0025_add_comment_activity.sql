@@ -0,0 +1,25 @@
+-- XIV Dye Tools - Comment Activity
+-- Migration 0025: Append-only record of comment posts and edits for the daily limit
+--
+-- The daily comment limit used to count rows in preset_comments, so deleting a
+-- comment gave its slot back, and edits (moderated again, like posts) weren't
+-- limited at all. Each post and edit now adds a row here that is never updated
+-- or deleted with the comment, and the limit counts today's rows.
+
+CREATE TABLE IF NOT EXISTS comment_activity (
+  id TEXT PRIMARY KEY,                    -- UUID v4
+  author_discord_id TEXT,
+  author_xivauth_id TEXT,
+  action TEXT NOT NULL,                   -- create | edit
+  created_at TEXT NOT NULL
+);
+
+-- For: daily comment rate limit per author
+CREATE INDEX IF NOT EXISTS idx_comment_activity_discord ON comment_activity(author_discord_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comment_activity_xivauth ON comment_activity(author_xivauth_id, created_at);
+
+-- Carry over comments posted before this migration so today's count stays right
+INSERT INTO comment_activity (id, author_discord_id, author_xivauth_id, action, created_at)
+SELECT lower(hex(randomblob(16))), author_discord_id, author_xivauth_id, 'create', created_at
+FROM preset_comments
+WHERE created_at >= date('now');
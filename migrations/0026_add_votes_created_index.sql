@@ -0,0 +1,9 @@
+-- XIV Dye Tools - Recent Votes Index
+-- Migration 0026: Find the votes inside the trending window
+--
+-- The trending refresh only recomputes presets with a vote from the last ten
+-- half-lives (see trending-service TRENDING_WINDOW_HALF_LIVES); this index finds
+-- those votes without scanning the whole table.
+
+-- For: WHERE created_at >= ? (trending refresh)
+CREATE INDEX IF NOT EXISTS idx_votes_created ON votes(created_at);
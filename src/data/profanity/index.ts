@@ -9,6 +9,12 @@
  * - Obviously problematic words that don't need ML
  * - Gaming/FFXIV-specific slurs
  * - Terms the ML might miss due to context
+ *
+ * Terms in ja, ko, and zh match as substrings; other locales match whole
+ * words (see SUBSTRING_MATCH_LOCALES in the moderation service).
+ *
+ * Moderators can block further terms without a deploy; those are stored in
+ * D1 (profanity_terms) and merged with these lists by the moderation service.
  */
 
 import { enProfanity } from './en.js';
@@ -0,0 +1,117 @@
+/**
+ * Appeals Handler
+ * Routes for contesting a rejected preset or an active ban
+ * (moderators review appeals under /api/v1/moderation/appeals)
+ *
+ * These routes deliberately skip the ban check - banned users need them to appeal.
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext, AppealTargetType } from '../types.js';
+import { requireAuth, requireUserContext, isPresetAuthor } from '../middleware/auth.js';
+import {
+  ErrorCode,
+  errorResponse,
+  invalidJsonResponse,
+  validationErrorResponse,
+  forbiddenResponse,
+  notFoundResponse,
+} from '../utils/api-response.js';
+import { getPresetById } from '../services/preset-service.js';
+import { getActiveBan } from '../services/ban-service.js';
+import { hasPendingOrDeniedAppeal, createAppeal, getUserAppeals } from '../services/appeal-service.js';
+import { validateAppealTargetType, validateAppealMessage } from '../services/validation-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const appealsRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * GET /api/v1/appeals
+ * List the current user's appeals, newest first
+ */
+appealsRouter.get('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const appeals = await getUserAppeals(c.env.DB, c.get('auth'));
+  return c.json({ appeals, total: appeals.length });
+});
+
+/**
+ * POST /api/v1/appeals
+ * Appeal a rejected preset you authored, or your active ban
+ * Body: { type: 'preset', preset_id: string, message: string } | { type: 'ban', message: string }
+ */
+appealsRouter.post('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+
+  let body: { type: AppealTargetType; preset_id?: string; message: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const typeError = validateAppealTargetType(body.type);
+  if (typeError) return validationErrorResponse(c, typeError);
+
+  const message = typeof body.message === 'string' ? body.message.trim() : body.message;
+  const messageError = validateAppealMessage(message);
+  if (messageError) return validationErrorResponse(c, messageError);
+
+  let targetId: string;
+  if (body.type === 'preset') {
+    if (typeof body.preset_id !== 'string' || !body.preset_id) {
+      return validationErrorResponse(c, 'preset_id is required for preset appeals');
+    }
+
+    const preset = await getPresetById(c.env.DB, body.preset_id);
+    if (!preset) {
+      return notFoundResponse(c, 'Preset');
+    }
+
+    if (!isPresetAuthor(auth, preset)) {
+      return forbiddenResponse(c, 'You can only appeal your own presets');
+    }
+
+    if (preset.status !== 'rejected') {
+      return errorResponse(c, ErrorCode.CONFLICT, 'Only rejected presets can be appealed', 409);
+    }
+
+    targetId = preset.id;
+  } else {
+    // A ban on either linked identity applies to the user
+    const ban =
+      (auth.userDiscordId ? await getActiveBan(c.env.DB, auth.userDiscordId) : null) ??
+      (auth.userXivAuthId ? await getActiveBan(c.env.DB, auth.userXivAuthId) : null);
+    if (!ban) {
+      return notFoundResponse(c, 'Active ban');
+    }
+
+    targetId = ban.id;
+  }
+
+  const alreadyAppealed = await hasPendingOrDeniedAppeal(c.env.DB, body.type, targetId);
+  const appeal = alreadyAppealed ? null : await createAppeal(c.env.DB, body.type, targetId, auth, message);
+  if (!appeal) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'This decision has already been appealed', 409);
+  }
+
+  return c.json({ success: true, appeal }, 201);
+});
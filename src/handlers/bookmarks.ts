@@ -0,0 +1,140 @@
+/**
+ * Bookmarks Handler
+ * Routes for private preset bookmarks (separate from votes)
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext } from '../types.js';
+import { requireAuth, requireUserContext, getUserKeys } from '../middleware/auth.js';
+import {
+  ErrorCode,
+  errorResponse,
+  notFoundResponse,
+  validationErrorResponse,
+} from '../utils/api-response.js';
+import { getPresetById } from '../services/preset-service.js';
+import {
+  MAX_BOOKMARK_CHECK_IDS,
+  addBookmark,
+  removeBookmark,
+  getBookmarks,
+  getBookmarkedStatus,
+} from '../services/bookmark-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const bookmarksRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * GET /api/v1/bookmarks
+ * List the current user's bookmarked presets, most recently bookmarked first
+ */
+bookmarksRouter.get('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const { page, limit } = c.req.query();
+
+  const response = await getBookmarks(c.env.DB, getUserKeys(auth), {
+    page: page ? Math.max(1, parseInt(page, 10) || 1) : undefined,
+    limit: limit ? Math.min(Math.max(1, parseInt(limit, 10) || 20), 50) : undefined, // Cap at 50
+  });
+
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/bookmarks/check?preset_ids=a,b,c
+ * Check which of up to 100 presets the current user has bookmarked
+ */
+bookmarksRouter.get('/check', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const presetIds = [
+    ...new Set(
+      (c.req.query('preset_ids') ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    ),
+  ];
+
+  if (presetIds.length === 0) {
+    return validationErrorResponse(c, 'preset_ids is required');
+  }
+  if (presetIds.length > MAX_BOOKMARK_CHECK_IDS) {
+    return validationErrorResponse(c, `At most ${MAX_BOOKMARK_CHECK_IDS} preset_ids can be checked at once`);
+  }
+
+  const bookmarked = await getBookmarkedStatus(c.env.DB, getUserKeys(auth), presetIds);
+
+  return c.json({ bookmarked });
+});
+
+/**
+ * POST /api/v1/bookmarks/:presetId
+ * Bookmark an approved preset (does not count as a vote)
+ */
+bookmarksRouter.post('/:presetId', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  const preset = await getPresetById(c.env.DB, presetId);
+  if (!preset || preset.status !== 'approved') {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const added = await addBookmark(c.env.DB, getUserKeys(auth), presetId);
+  if (!added) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'Preset is already bookmarked', 409);
+  }
+
+  return c.json({ success: true, bookmarked: true }, 201);
+});
+
+/**
+ * DELETE /api/v1/bookmarks/:presetId
+ * Remove a bookmark (works even if the preset has since been hidden or deleted)
+ */
+bookmarksRouter.delete('/:presetId', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  const removed = await removeBookmark(c.env.DB, getUserKeys(auth), presetId);
+  if (!removed) {
+    return notFoundResponse(c, 'Bookmark');
+  }
+
+  return c.json({ success: true, bookmarked: false });
+});
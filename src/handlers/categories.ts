@@ -30,7 +30,7 @@ categoriesRouter.get('/', async (c) => {
       c.icon,
       c.is_curated,
       c.display_order,
-      COUNT(CASE WHEN p.status = 'approved' THEN 1 END) as preset_count
+      COUNT(CASE WHEN p.status = 'approved' AND p.deleted_at IS NULL THEN 1 END) as preset_count
     FROM categories c
     LEFT JOIN presets p ON p.category_id = c.id
     GROUP BY c.id
@@ -80,7 +80,7 @@ categoriesRouter.get('/:id', async (c) => {
       c.icon,
       c.is_curated,
       c.display_order,
-      COUNT(CASE WHEN p.status = 'approved' THEN 1 END) as preset_count
+      COUNT(CASE WHEN p.status = 'approved' AND p.deleted_at IS NULL THEN 1 END) as preset_count
     FROM categories c
     LEFT JOIN presets p ON p.category_id = c.id
     WHERE c.id = ?
@@ -0,0 +1,406 @@
+/**
+ * Collections Handler
+ * Routes for user collections of presets
+ */
+
+import { Hono } from 'hono';
+import type {
+  Env,
+  AuthContext,
+  Collection,
+  CollectionCreateRequest,
+  CollectionUpdateRequest,
+} from '../types.js';
+import { requireAuth, requireUserContext } from '../middleware/auth.js';
+import { requireNotBannedCheck } from '../middleware/ban-check.js';
+import {
+  ErrorCode,
+  errorResponse,
+  invalidJsonResponse,
+  validationErrorResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  internalErrorResponse,
+  contentFlaggedResponse,
+} from '../utils/api-response.js';
+import { getPresetById } from '../services/preset-service.js';
+import { moderateContent } from '../services/moderation-service.js';
+import {
+  getCollectionById,
+  getCollectionPresets,
+  countCollectionsByOwner,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  countCollectionEntries,
+  addPresetToCollection,
+  removePresetFromCollection,
+  reorderCollectionPresets,
+} from '../services/collection-service.js';
+import {
+  COLLECTION_VALIDATION_RULES,
+  validateCollectionName,
+  validateCollectionDescription,
+  validateCollectionOrder,
+} from '../services/validation-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const collectionsRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * Whether the authenticated user owns a collection
+ */
+function isCollectionOwner(auth: AuthContext, collection: Collection): boolean {
+  return !!auth.userDiscordId && auth.userDiscordId === collection.owner_discord_id;
+}
+
+/**
+ * Whether the requester may see a collection (public, or their own)
+ */
+function canViewCollection(auth: AuthContext | undefined, collection: Collection): boolean {
+  return collection.is_public || (!!auth && isCollectionOwner(auth, collection));
+}
+
+// ============================================
+// PUBLIC ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/v1/collections/:id
+ * Get a collection and its visible presets in order
+ * Private collections are only returned to their owner (404 for everyone else)
+ */
+collectionsRouter.get('/:id', async (c) => {
+  const id = c.req.param('id');
+
+  const collection = await getCollectionById(c.env.DB, id);
+  if (!collection || !canViewCollection(c.get('auth'), collection)) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  const presets = await getCollectionPresets(c.env.DB, id);
+
+  return c.json({ ...collection, presets });
+});
+
+// ============================================
+// AUTHENTICATED ENDPOINTS
+// ============================================
+
+/**
+ * POST /api/v1/collections
+ * Create a collection (requires a Discord identity)
+ */
+collectionsRouter.post('/', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  if (!auth.userDiscordId) {
+    return forbiddenResponse(c, 'Collections require a linked Discord account');
+  }
+
+  let body: CollectionCreateRequest;
+  try {
+    body = await c.req.json<CollectionCreateRequest>();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : body.name;
+  const nameError = validateCollectionName(name);
+  if (nameError) return validationErrorResponse(c, nameError);
+
+  const descriptionError = validateCollectionDescription(body.description);
+  if (descriptionError) return validationErrorResponse(c, descriptionError);
+
+  if (body.is_public !== undefined && typeof body.is_public !== 'boolean') {
+    return validationErrorResponse(c, 'is_public must be a boolean');
+  }
+
+  // Collections have no review queue, so anything moderation flags is refused
+  const moderationResult = await moderateContent(name, body.description ?? '', c.env);
+  if (!moderationResult.passed) {
+    return contentFlaggedResponse(c, moderationResult);
+  }
+
+  const owned = await countCollectionsByOwner(c.env.DB, auth.userDiscordId);
+  if (owned >= COLLECTION_VALIDATION_RULES.maxPerUser) {
+    return errorResponse(
+      c,
+      ErrorCode.CONFLICT,
+      `You can have at most ${COLLECTION_VALIDATION_RULES.maxPerUser} collections`,
+      409
+    );
+  }
+
+  const collection = await createCollection(c.env.DB, auth.userDiscordId, {
+    name,
+    description: body.description,
+    is_public: body.is_public,
+  });
+
+  return c.json({ success: true, collection }, 201);
+});
+
+/**
+ * PATCH /api/v1/collections/:id
+ * Rename a collection or change its description or visibility (owner only)
+ */
+collectionsRouter.patch('/:id', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const collection = await getCollectionById(c.env.DB, id);
+  if (!collection || !canViewCollection(auth, collection)) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  if (!isCollectionOwner(auth, collection)) {
+    return forbiddenResponse(c, 'You can only edit your own collections');
+  }
+
+  let body: CollectionUpdateRequest;
+  try {
+    body = await c.req.json<CollectionUpdateRequest>();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (body.name === undefined && body.description === undefined && body.is_public === undefined) {
+    return validationErrorResponse(c, 'No updates provided');
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : body.name;
+  if (name !== undefined) {
+    const nameError = validateCollectionName(name);
+    if (nameError) return validationErrorResponse(c, nameError);
+  }
+
+  const descriptionError = validateCollectionDescription(body.description);
+  if (descriptionError) return validationErrorResponse(c, descriptionError);
+
+  if (body.is_public !== undefined && typeof body.is_public !== 'boolean') {
+    return validationErrorResponse(c, 'is_public must be a boolean');
+  }
+
+  // Check the resulting name and description whenever either changes or the
+  // collection is made public (it may predate moderation of collections)
+  if (name !== undefined || body.description !== undefined || body.is_public === true) {
+    const moderationResult = await moderateContent(
+      name ?? collection.name,
+      (body.description !== undefined ? body.description : collection.description) ?? '',
+      c.env
+    );
+    if (!moderationResult.passed) {
+      return contentFlaggedResponse(c, moderationResult);
+    }
+  }
+
+  const updated = await updateCollection(c.env.DB, id, {
+    name,
+    description: body.description,
+    is_public: body.is_public,
+  });
+  if (!updated) {
+    return internalErrorResponse(c, 'Failed to update collection');
+  }
+
+  return c.json({ success: true, collection: updated });
+});
+
+/**
+ * DELETE /api/v1/collections/:id
+ * Delete a collection (owner only); its presets are not affected
+ */
+collectionsRouter.delete('/:id', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const collection = await getCollectionById(c.env.DB, id);
+  if (!collection || !canViewCollection(auth, collection)) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  if (!isCollectionOwner(auth, collection)) {
+    return forbiddenResponse(c, 'You can only delete your own collections');
+  }
+
+  await deleteCollection(c.env.DB, id);
+
+  return c.json({ success: true, message: 'Collection deleted' });
+});
+
+/**
+ * POST /api/v1/collections/:id/presets
+ * Add a preset to the end of a collection (owner only)
+ */
+collectionsRouter.post('/:id/presets', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const collection = await getCollectionById(c.env.DB, id);
+  if (!collection || !canViewCollection(auth, collection)) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  if (!isCollectionOwner(auth, collection)) {
+    return forbiddenResponse(c, 'You can only edit your own collections');
+  }
+
+  let body: { preset_id: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (typeof body.preset_id !== 'string' || !body.preset_id) {
+    return validationErrorResponse(c, 'preset_id is required');
+  }
+
+  // Only presets others can see may be added
+  const preset = await getPresetById(c.env.DB, body.preset_id);
+  if (!preset || preset.status !== 'approved') {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const entries = await countCollectionEntries(c.env.DB, id);
+  if (entries >= COLLECTION_VALIDATION_RULES.maxPresets) {
+    return errorResponse(
+      c,
+      ErrorCode.CONFLICT,
+      `A collection can hold at most ${COLLECTION_VALIDATION_RULES.maxPresets} presets`,
+      409
+    );
+  }
+
+  const added = await addPresetToCollection(c.env.DB, id, body.preset_id);
+  if (!added) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'Preset is already in this collection', 409);
+  }
+
+  return c.json({ success: true, message: 'Preset added to collection' }, 201);
+});
+
+/**
+ * PUT /api/v1/collections/:id/presets
+ * Reorder a collection (owner only)
+ * Body: { preset_ids: [...] } listing every visible preset in the new order
+ */
+collectionsRouter.put('/:id/presets', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const collection = await getCollectionById(c.env.DB, id);
+  if (!collection || !canViewCollection(auth, collection)) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  if (!isCollectionOwner(auth, collection)) {
+    return forbiddenResponse(c, 'You can only edit your own collections');
+  }
+
+  let body: { preset_ids: string[] };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const current = await getCollectionPresets(c.env.DB, id);
+  const orderError = validateCollectionOrder(
+    body.preset_ids,
+    current.map((preset) => preset.id)
+  );
+  if (orderError) return validationErrorResponse(c, orderError);
+
+  await reorderCollectionPresets(c.env.DB, id, body.preset_ids);
+
+  return c.json({ success: true, presets: await getCollectionPresets(c.env.DB, id) });
+});
+
+/**
+ * DELETE /api/v1/collections/:id/presets/:presetId
+ * Remove a preset from a collection (owner only)
+ */
+collectionsRouter.delete('/:id/presets/:presetId', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const collection = await getCollectionById(c.env.DB, id);
+  if (!collection || !canViewCollection(auth, collection)) {
+    return notFoundResponse(c, 'Collection');
+  }
+
+  if (!isCollectionOwner(auth, collection)) {
+    return forbiddenResponse(c, 'You can only edit your own collections');
+  }
+
+  const removed = await removePresetFromCollection(c.env.DB, id, c.req.param('presetId'));
+  if (!removed) {
+    return notFoundResponse(c, 'Preset in collection');
+  }
+
+  return c.json({ success: true, message: 'Preset removed from collection' });
+});
@@ -0,0 +1,140 @@
+/**
+ * Comments Handler
+ * Routes for editing and deleting your own comments
+ * (listing and posting live under /api/v1/presets/:id/comments)
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext } from '../types.js';
+import { requireAuth, requireUserContext, isPresetAuthor } from '../middleware/auth.js';
+import { requireNotBannedCheck } from '../middleware/ban-check.js';
+import {
+  ErrorCode,
+  invalidJsonResponse,
+  validationErrorResponse,
+  forbiddenResponse,
+  notFoundResponse,
+  internalErrorResponse,
+  contentFlaggedResponse,
+} from '../utils/api-response.js';
+import { getCommentById, updateCommentBody, deleteComment } from '../services/comment-service.js';
+import { moderateContent } from '../services/moderation-service.js';
+import { validateCommentBody } from '../services/validation-service.js';
+import { checkCommentRateLimit, recordCommentActivity } from '../services/rate-limit-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const commentsRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * PATCH /api/v1/comments/:id
+ * Edit a comment (author only); the new body is moderated again
+ * Edits count towards the daily comment limit, like posts
+ */
+commentsRouter.patch('/:id', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const comment = await getCommentById(c.env.DB, id);
+  if (!comment) {
+    return notFoundResponse(c, 'Comment');
+  }
+
+  if (!isPresetAuthor(auth, comment)) {
+    return forbiddenResponse(c, 'You can only edit your own comments');
+  }
+
+  if (comment.status === 'hidden') {
+    return forbiddenResponse(c, 'Comments hidden by a moderator cannot be edited');
+  }
+
+  const rateLimitResult = await checkCommentRateLimit(c.env.DB, auth.userDiscordId, auth.userXivAuthId);
+  if (!rateLimitResult.allowed) {
+    return c.json(
+      {
+        success: false,
+        error: ErrorCode.RATE_LIMITED,
+        message: "You've reached your daily comment limit. Try again tomorrow.",
+        remaining: 0,
+        reset_at: rateLimitResult.resetAt.toISOString(),
+      },
+      429
+    );
+  }
+
+  let body: { body: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const text = typeof body.body === 'string' ? body.body.trim() : body.body;
+  const bodyError = validateCommentBody(text);
+  if (bodyError) return validationErrorResponse(c, bodyError);
+
+  await recordCommentActivity(c.env.DB, auth.userDiscordId, auth.userXivAuthId, 'edit');
+
+  // Comments have no name, so the whole body is checked as the description
+  const moderationResult = await moderateContent('', text, c.env);
+  if (moderationResult.action === 'reject') {
+    return contentFlaggedResponse(c, moderationResult);
+  }
+  const status = moderationResult.passed ? 'visible' : 'pending';
+
+  const updated = await updateCommentBody(c.env.DB, id, text, status);
+  if (!updated) {
+    return internalErrorResponse(c, 'Failed to update comment');
+  }
+
+  return c.json({
+    success: true,
+    comment: updated,
+    moderation_status: status,
+    remaining_comments: rateLimitResult.remaining - 1,
+  });
+});
+
+/**
+ * DELETE /api/v1/comments/:id
+ * Delete a comment (author only - moderators use /api/v1/moderation/comments/:id)
+ */
+commentsRouter.delete('/:id', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const comment = await getCommentById(c.env.DB, id);
+  if (!comment) {
+    return notFoundResponse(c, 'Comment');
+  }
+
+  if (!isPresetAuthor(auth, comment)) {
+    return forbiddenResponse(c, 'You can only delete your own comments');
+  }
+
+  await deleteComment(c.env.DB, id);
+
+  return c.json({ success: true, message: 'Comment deleted' });
+});
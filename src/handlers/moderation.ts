@@ -3,39 +3,784 @@
  * Routes for moderator actions
  */
 
-import { Hono } from 'hono';
-import type { Env, AuthContext, PresetStatus } from '../types.js';
-import { requireModerator } from '../middleware/auth.js';
-import { getPresetById, getPendingPresets, updatePresetStatus, revertPreset } from '../services/preset-service.js';
+import { Hono, type Context } from 'hono';
+import type {
+  Env,
+  AuthContext,
+  PresetStatus,
+  BanDuration,
+  CommentStatus,
+  ReportFilters,
+  ModerationClaim,
+  PendingPreset,
+  BulkStatusResult,
+  AppealFilters,
+  UserBan,
+  ModeratorPermission,
+  ModeratorRole,
+  AttributeThresholds,
+  PerspectiveAttribute,
+} from '../types.js';
+import { requireModerator, resolveModeratorRole } from '../middleware/auth.js';
 import {
+  getPresetById,
+  getPresetsByIds,
+  getPendingPresets,
+  updatePresetStatus,
+  revertPreset,
+  restorePresetRevision,
+  findDuplicatePresetExcluding,
+} from '../services/preset-service.js';
+import { getPresetRevision } from '../services/revision-service.js';
+import { applyBulkStatusChange, type BulkStatusChange } from '../services/bulk-moderation-service.js';
+import { getDeletedPresetById, purgePreset } from '../services/deletion-service.js';
+import {
+  getActiveBan,
+  getBanById,
+  getLatestAuthorName,
+  banUser,
+  unbanUser,
+  getBans,
+  getUserBanHistory,
+  releaseExpiredBans,
+  liftBanStatements,
+  toLiftedBan,
+} from '../services/ban-service.js';
+import {
+  ErrorCode,
+  errorResponse,
   invalidJsonResponse,
   validationErrorResponse,
   notFoundResponse,
+  duplicateResponse,
   internalErrorResponse,
 } from '../utils/api-response.js';
 // PRESETS-REF-001 FIX: Import from centralized validation service
 import {
   validateModerationStatus,
   validateModerationReason,
+  validateBulkPresetIds,
+  validateBanReason,
+  validateBanDuration,
+  BAN_VALIDATION_RULES,
+  validateTagName,
+  validateCommentModerationStatus,
+  validateReportReviewStatus,
+  validateAppealReviewStatus,
+  validateModeratorRole,
+  validateDiscordId,
+  validateModerationPolicyUpdate,
+  validateProfanityLocale,
+  validateProfanityTerm,
 } from '../services/validation-service.js';
+import { normalizeTag, mergeTagAlias } from '../services/tag-service.js';
+import {
+  getCommentById,
+  getPendingComments,
+  setCommentStatus,
+  deleteComment,
+} from '../services/comment-service.js';
+import { getReports, getReportById, reviewReport } from '../services/report-service.js';
+import {
+  getAppeals,
+  getAppealById,
+  reviewAppeal,
+  approveAppealedPresetStatement,
+} from '../services/appeal-service.js';
+import { getModerationPolicy, updateModerationPolicy } from '../services/moderation-policy-service.js';
+import {
+  getProfanityTerms,
+  isTermBlocked,
+  addProfanityTerm,
+  removeProfanityTerm,
+} from '../services/profanity-term-service.js';
+import { profanityLists, type SupportedLocale } from '../data/profanity/index.js';
+import {
+  ROLE_PERMISSIONS,
+  getModerator,
+  getModerators,
+  setModeratorRole,
+  removeModerator,
+} from '../services/moderator-service.js';
+import {
+  CLAIM_DURATION_MINUTES,
+  getActiveClaim,
+  getActiveClaims,
+  claimPreset,
+  releaseClaim,
+} from '../services/claim-service.js';
 
 type Variables = {
   auth: AuthContext;
 };
 
+type ModerationContext = Context<{ Bindings: Env; Variables: Variables }>;
+
 export const moderationRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 /**
  * GET /api/v1/moderation/pending
- * List presets pending moderation
+ * List presets pending moderation, each with the moderator claim on it (or null)
  */
 moderationRouter.get('/pending', async (c) => {
   // Require moderator privileges
-  const modError = requireModerator(c);
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const [pending, claims] = await Promise.all([getPendingPresets(c.env.DB), getActiveClaims(c.env.DB)]);
+  const presets: PendingPreset[] = pending.map((preset) => ({
+    ...preset,
+    claim: claims.get(preset.id) ?? null,
+  }));
+
+  return c.json({ presets, total: presets.length });
+});
+
+// ============================================
+// QUEUE CLAIMS
+// ============================================
+
+/**
+ * POST /api/v1/moderation/:presetId/claim
+ * Claim a pending preset for CLAIM_DURATION_MINUTES (claiming again extends it)
+ */
+moderationRouter.post('/:presetId/claim', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  const preset = await getPresetById(c.env.DB, presetId);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  if (preset.status !== 'pending') {
+    return errorResponse(c, ErrorCode.CONFLICT, 'Only pending presets can be claimed', 409);
+  }
+
+  const result = await claimPreset(c.env.DB, presetId, auth.userDiscordId!);
+  if (!result.claimed) {
+    return claimConflictResponse(c, result.claim);
+  }
+
+  return c.json({
+    success: true,
+    claim: result.claim,
+    duration_minutes: CLAIM_DURATION_MINUTES,
+  });
+});
+
+/**
+ * DELETE /api/v1/moderation/:presetId/claim
+ * Release your claim on a preset (?force=true releases another moderator's claim)
+ */
+moderationRouter.delete('/:presetId/claim', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+  const force = c.req.query('force') === 'true';
+
+  const claim = await getActiveClaim(c.env.DB, presetId);
+  if (!claim) {
+    return notFoundResponse(c, 'Claim');
+  }
+
+  if (claim.moderator_discord_id !== auth.userDiscordId && !force) {
+    return claimConflictResponse(c, claim);
+  }
+
+  await releaseClaim(c.env.DB, presetId, force ? undefined : auth.userDiscordId);
+
+  return c.json({ success: true, message: 'Claim released' });
+});
+
+// ============================================
+// USER BANS
+// ============================================
+
+/**
+ * GET /api/v1/moderation/bans
+ * List bans with pagination (?status=active|all, default active)
+ */
+moderationRouter.get('/bans', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const { status, page, limit } = c.req.query();
+
+  const response = await getBans(c.env.DB, {
+    status: status === 'all' ? 'all' : 'active',
+    page: page ? Math.max(1, parseInt(page, 10) || 1) : undefined,
+    limit: limit ? Math.min(Math.max(1, parseInt(limit, 10) || 20), 50) : undefined, // Cap at 50
+  });
+
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/moderation/bans/:userId
+ * Get a user's ban history and current ban status (Discord or XIVAuth ID)
+ */
+moderationRouter.get('/bans/:userId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const userId = c.req.param('userId');
+  const history = await getUserBanHistory(c.env.DB, userId);
+
+  return c.json({
+    user_id: userId,
+    is_banned: history.some((ban) => ban.is_active),
+    history,
+  });
+});
+
+/**
+ * POST /api/v1/moderation/bans
+ * Ban a user and hide all of their presets
+ * Identify the user by discord_id and/or xivauth_id (both for linked accounts)
+ * Optional duration: '24h' | '7d' | '30d' | 'permanent' (default permanent)
+ */
+moderationRouter.post('/bans', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'ban');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+
+  // Parse request body
+  let body: {
+    discord_id?: string;
+    xivauth_id?: string;
+    username?: string;
+    reason: string;
+    duration?: BanDuration;
+  };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const discordId = typeof body.discord_id === 'string' && body.discord_id ? body.discord_id : null;
+  const xivAuthId = typeof body.xivauth_id === 'string' && body.xivauth_id ? body.xivauth_id : null;
+
+  if (!discordId && !xivAuthId) {
+    return validationErrorResponse(c, 'discord_id or xivauth_id is required');
+  }
+
+  if (
+    (discordId && discordId === auth.userDiscordId) ||
+    (xivAuthId && xivAuthId === auth.userXivAuthId)
+  ) {
+    return validationErrorResponse(c, 'You cannot ban yourself');
+  }
+
+  const reasonError = validateBanReason(body.reason);
+  if (reasonError) {
+    return validationErrorResponse(c, reasonError);
+  }
+
+  const durationError = validateBanDuration(body.duration);
+  if (durationError) {
+    return validationErrorResponse(c, durationError);
+  }
+
+  if (
+    body.username !== undefined &&
+    (typeof body.username !== 'string' || body.username.length > BAN_VALIDATION_RULES.username.maxLength)
+  ) {
+    return validationErrorResponse(
+      c,
+      `Username must be a string of max ${BAN_VALIDATION_RULES.username.maxLength} characters`
+    );
+  }
+
+  // Check each identity the ban will cover
+  for (const userId of [discordId, xivAuthId]) {
+    if (!userId) continue;
+
+    // Close an expired temporary ban the scheduled sweep hasn't reached yet,
+    // otherwise the unique active-ban index would reject the new ban
+    await releaseExpiredBans(c.env.DB, userId);
+
+    // Only one active ban per user (also enforced by unique partial indexes)
+    const existingBan = await getActiveBan(c.env.DB, userId);
+    if (existingBan) {
+      return errorResponse(c, ErrorCode.CONFLICT, 'User is already banned', 409);
+    }
+  }
+
+  // Fall back to the name the user last submitted under
+  const username =
+    body.username?.trim() ||
+    (await getLatestAuthorName(c.env.DB, discordId, xivAuthId)) ||
+    (discordId ?? xivAuthId)!;
+
+  const { ban, presetsHidden } = await banUser(c.env.DB, {
+    discordId,
+    xivAuthId,
+    username,
+    reason: body.reason,
+    moderatorDiscordId: auth.userDiscordId!,
+    duration: body.duration,
+  });
+
+  return c.json(
+    {
+      success: true,
+      ban,
+      presets_hidden: presetsHidden,
+    },
+    201
+  );
+});
+
+/**
+ * DELETE /api/v1/moderation/bans/:userId
+ * Lift a user's active ban and restore their presets (Discord or XIVAuth ID)
+ */
+moderationRouter.delete('/bans/:userId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'ban');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const userId = c.req.param('userId');
+
+  const result = await unbanUser(c.env.DB, userId, auth.userDiscordId!);
+  if (!result) {
+    return notFoundResponse(c, 'Active ban');
+  }
+
+  return c.json({
+    success: true,
+    ban: result.ban,
+    presets_restored: result.presetsRestored,
+  });
+});
+
+// ============================================
+// USER REPORTS
+// ============================================
+
+/**
+ * GET /api/v1/moderation/reports
+ * List user reports, oldest first (?status=open|resolved|dismissed|all, default open)
+ */
+moderationRouter.get('/reports', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const { status, page, limit } = c.req.query();
+
+  const validStatuses = ['open', 'resolved', 'dismissed', 'all'];
+  if (status && !validStatuses.includes(status)) {
+    return validationErrorResponse(c, `Status must be one of: ${validStatuses.join(', ')}`);
+  }
+
+  const response = await getReports(c.env.DB, {
+    status: (status as ReportFilters['status']) || undefined,
+    page: page ? Math.max(1, parseInt(page, 10) || 1) : undefined,
+    limit: limit ? Math.min(Math.max(1, parseInt(limit, 10) || 20), 50) : undefined, // Cap at 50
+  });
+
+  return c.json(response);
+});
+
+/**
+ * PATCH /api/v1/moderation/reports/:reportId
+ * Resolve or dismiss an open report
+ * Body: { status: 'resolved' | 'dismissed', note?: string }
+ * The reported preset is not changed - use the preset status endpoint for that
+ */
+moderationRouter.patch('/reports/:reportId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const reportId = c.req.param('reportId');
+
+  let body: { status: 'resolved' | 'dismissed'; note?: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const statusError = validateReportReviewStatus(body.status);
+  if (statusError) {
+    return validationErrorResponse(c, statusError);
+  }
+
+  if (body.note !== undefined && typeof body.note !== 'string') {
+    return validationErrorResponse(c, 'note must be a string');
+  }
+
+  const report = await getReportById(c.env.DB, reportId);
+  if (!report) {
+    return notFoundResponse(c, 'Report');
+  }
+
+  if (report.status !== 'open') {
+    return errorResponse(c, ErrorCode.CONFLICT, `Report is already ${report.status}`, 409);
+  }
+
+  const note = body.note?.trim() || null;
+  const updated = await reviewReport(c.env.DB, reportId, body.status, auth.userDiscordId!, note);
+
+  // Log moderation action
+  await c.env.DB.prepare(
+    `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      crypto.randomUUID(),
+      report.preset_id,
+      auth.userDiscordId!,
+      body.status === 'resolved' ? 'report_resolve' : 'report_dismiss',
+      note,
+      new Date().toISOString()
+    )
+    .run();
+
+  return c.json({ success: true, report: updated });
+});
+
+// ============================================
+// APPEALS
+// ============================================
+
+/**
+ * GET /api/v1/moderation/appeals
+ * List appeals, oldest first (?status=open|accepted|denied|all, default open)
+ */
+moderationRouter.get('/appeals', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const { status, page, limit } = c.req.query();
+
+  const validStatuses = ['open', 'accepted', 'denied', 'all'];
+  if (status && !validStatuses.includes(status)) {
+    return validationErrorResponse(c, `Status must be one of: ${validStatuses.join(', ')}`);
+  }
+
+  const response = await getAppeals(c.env.DB, {
+    status: (status as AppealFilters['status']) || undefined,
+    page: page ? Math.max(1, parseInt(page, 10) || 1) : undefined,
+    limit: limit ? Math.min(Math.max(1, parseInt(limit, 10) || 20), 50) : undefined, // Cap at 50
+  });
+
+  return c.json(response);
+});
+
+/**
+ * PATCH /api/v1/moderation/appeals/:appealId
+ * Accept or deny an open appeal
+ * Body: { status: 'accepted' | 'denied', reason: string }
+ * Accepting reverses the decision: the preset is approved, or the ban is lifted
+ */
+moderationRouter.patch('/appeals/:appealId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const appealId = c.req.param('appealId');
+
+  let body: { status: 'accepted' | 'denied'; reason: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const statusError = validateAppealReviewStatus(body.status);
+  if (statusError) {
+    return validationErrorResponse(c, statusError);
+  }
+
+  const reasonError = validateModerationReason(body.reason);
+  if (reasonError) {
+    return validationErrorResponse(c, reasonError);
+  }
+
+  const appeal = await getAppealById(c.env.DB, appealId);
+  if (!appeal) {
+    return notFoundResponse(c, 'Appeal');
+  }
+
+  if (appeal.status !== 'open') {
+    return errorResponse(c, ErrorCode.CONFLICT, `Appeal is already ${appeal.status}`, 409);
+  }
+
+  // Deciding an appeal takes the permission needed to reverse the decision
+  const permissionError = await requireModerator(c, appeal.target_type === 'ban' ? 'ban' : 'approve');
+  if (permissionError) return permissionError;
+
+  const accepted = body.status === 'accepted';
+  const now = new Date().toISOString();
+  const reversal: D1PreparedStatement[] = [];
+  let liftedBan: UserBan | null = null;
+
+  if (appeal.target_type === 'preset') {
+    if (accepted) {
+      // The preset may have been edited back to pending, hidden by a ban, or deleted since
+      const preset = await getPresetById(c.env.DB, appeal.target_id);
+      if (!preset) {
+        return errorResponse(c, ErrorCode.CONFLICT, 'The appealed preset no longer exists', 409);
+      }
+      if (preset.status !== 'rejected') {
+        return errorResponse(c, ErrorCode.CONFLICT, `The appealed preset is no longer rejected (${preset.status})`, 409);
+      }
+      reversal.push(approveAppealedPresetStatement(c.env.DB, appeal, now));
+    }
+  } else if (accepted) {
+    // The ban may have expired or been lifted since the appeal was made
+    const ban = await getBanById(c.env.DB, appeal.target_id);
+    if (ban?.is_active) {
+      reversal.push(...liftBanStatements(c.env.DB, ban, auth.userDiscordId!, now, appeal.id));
+      liftedBan = toLiftedBan(ban, auth.userDiscordId!, now);
+    }
+  }
+
+  const review = await reviewAppeal(c.env.DB, appeal, body.status, auth.userDiscordId!, body.reason, reversal);
+  if (!review) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'Appeal was already reviewed', 409);
+  }
+
+  const preset = appeal.target_type === 'preset' ? await getPresetById(c.env.DB, appeal.target_id) : null;
+
+  return c.json({
+    success: true,
+    appeal: review.appeal,
+    ...(preset && { preset }),
+    // reversalResults[1] is liftBanStatements' preset restore
+    ...(liftedBan && { ban: liftedBan, presets_restored: review.reversalResults[1]?.meta?.changes ?? 0 }),
+  });
+});
+
+// ============================================
+// COMMENT MODERATION
+// ============================================
+
+/**
+ * GET /api/v1/moderation/comments/pending
+ * List comments flagged by moderation, oldest first
+ */
+moderationRouter.get('/comments/pending', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const comments = await getPendingComments(c.env.DB);
+  return c.json({ comments, total: comments.length });
+});
+
+/**
+ * PATCH /api/v1/moderation/comments/:commentId/status
+ * Approve ('visible') or hide ('hidden') a comment; hiding requires a reason
+ */
+moderationRouter.patch('/comments/:commentId/status', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const commentId = c.req.param('commentId');
+
+  let body: { status: CommentStatus; reason?: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const statusError = validateCommentModerationStatus(body.status);
+  if (statusError) {
+    return validationErrorResponse(c, statusError);
+  }
+
+  const permissionError = await requireModerator(c, body.status === 'hidden' ? 'reject' : 'approve');
+  if (permissionError) return permissionError;
+
+  if (body.status === 'hidden') {
+    const reasonError = validateModerationReason(body.reason);
+    if (reasonError) {
+      return validationErrorResponse(c, reasonError);
+    }
+  }
+
+  const comment = await getCommentById(c.env.DB, commentId);
+  if (!comment) {
+    return notFoundResponse(c, 'Comment');
+  }
+
+  const updated = await setCommentStatus(c.env.DB, commentId, body.status);
+
+  // Log moderation action
+  await c.env.DB.prepare(
+    `INSERT INTO moderation_log (id, preset_id, comment_id, moderator_discord_id, action, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      crypto.randomUUID(),
+      comment.preset_id,
+      commentId,
+      auth.userDiscordId!,
+      body.status === 'hidden' ? 'comment_hide' : 'comment_approve',
+      body.reason || null,
+      new Date().toISOString()
+    )
+    .run();
+
+  return c.json({ success: true, comment: updated });
+});
+
+/**
+ * DELETE /api/v1/moderation/comments/:commentId
+ * Permanently delete a comment (reason required)
+ */
+moderationRouter.delete('/comments/:commentId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'reject');
   if (modError) return modError;
 
-  const presets = await getPendingPresets(c.env.DB);
-  return c.json({ presets, total: presets.length });
+  const auth = c.get('auth');
+  const commentId = c.req.param('commentId');
+
+  let body: { reason: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const reasonError = validateModerationReason(body.reason);
+  if (reasonError) {
+    return validationErrorResponse(c, reasonError);
+  }
+
+  const comment = await getCommentById(c.env.DB, commentId);
+  if (!comment) {
+    return notFoundResponse(c, 'Comment');
+  }
+
+  await deleteComment(c.env.DB, commentId);
+
+  // Log moderation action
+  await c.env.DB.prepare(
+    `INSERT INTO moderation_log (id, preset_id, comment_id, moderator_discord_id, action, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      crypto.randomUUID(),
+      comment.preset_id,
+      commentId,
+      auth.userDiscordId!,
+      'comment_delete',
+      body.reason,
+      new Date().toISOString()
+    )
+    .run();
+
+  return c.json({ success: true, message: 'Comment deleted' });
+});
+
+// ============================================
+// PRESET MODERATION
+// ============================================
+
+/**
+ * PATCH /api/v1/moderation/bulk/status
+ * Apply one status change to many presets in a single batch
+ *
+ * Presets that don't exist, already have the status, or are claimed by another
+ * moderator (unless force is set) are skipped; results reports each preset's outcome.
+ */
+moderationRouter.patch('/bulk/status', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+
+  // Parse request body
+  let body: { preset_ids: string[]; status: PresetStatus; reason: string; force?: boolean };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const idsError = validateBulkPresetIds(body.preset_ids);
+  if (idsError) {
+    return validationErrorResponse(c, idsError);
+  }
+
+  const statusError = validateModerationStatus(body.status);
+  if (statusError) {
+    return validationErrorResponse(c, statusError);
+  }
+
+  const permissionError = await requireModerator(c, getPermissionForStatus(body.status));
+  if (permissionError) return permissionError;
+
+  const reasonError = validateModerationReason(body.reason);
+  if (reasonError) {
+    return validationErrorResponse(c, reasonError);
+  }
+
+  const presetIds = [...new Set(body.preset_ids)];
+  const force = body.force === true;
+
+  const [presets, claims] = await Promise.all([
+    getPresetsByIds(c.env.DB, presetIds),
+    force ? Promise.resolve(new Map<string, ModerationClaim>()) : getActiveClaims(c.env.DB),
+  ]);
+  const presetsById = new Map(presets.map((preset) => [preset.id, preset]));
+
+  const changes: BulkStatusChange[] = [];
+  const results: BulkStatusResult[] = presetIds.map((presetId) => {
+    const preset = presetsById.get(presetId);
+    if (!preset) {
+      return { preset_id: presetId, success: false, error: 'not_found' };
+    }
+
+    if (preset.status === body.status) {
+      return { preset_id: presetId, success: false, error: 'unchanged' };
+    }
+
+    const claim = claims.get(presetId);
+    if (claim && claim.moderator_discord_id !== auth.userDiscordId) {
+      return { preset_id: presetId, success: false, error: 'claimed', claim };
+    }
+
+    changes.push({ presetId, action: getActionFromStatusChange(preset.status, body.status) });
+    return { preset_id: presetId, success: true, previous_status: preset.status };
+  });
+
+  await applyBulkStatusChange(c.env.DB, changes, body.status, auth.userDiscordId!, body.reason);
+
+  return c.json({
+    success: true,
+    status: body.status,
+    updated: changes.length,
+    skipped: results.length - changes.length,
+    results,
+  });
 });
 
 /**
@@ -44,14 +789,14 @@ moderationRouter.get('/pending', async (c) => {
  */
 moderationRouter.patch('/:presetId/status', async (c) => {
   // Require moderator privileges
-  const modError = requireModerator(c);
+  const modError = await requireModerator(c);
   if (modError) return modError;
 
   const auth = c.get('auth');
   const presetId = c.req.param('presetId');
 
   // Parse request body
-  let body: { status: PresetStatus; reason?: string };
+  let body: { status: PresetStatus; reason?: string; force?: boolean };
   try {
     body = await c.req.json();
   } catch {
@@ -64,12 +809,18 @@ moderationRouter.patch('/:presetId/status', async (c) => {
     return validationErrorResponse(c, statusError);
   }
 
+  const permissionError = await requireModerator(c, getPermissionForStatus(body.status));
+  if (permissionError) return permissionError;
+
   // Get current preset
   const preset = await getPresetById(c.env.DB, presetId);
   if (!preset) {
     return notFoundResponse(c, 'Preset');
   }
 
+  const claimError = await requireClaimOrForce(c, presetId, body.force === true);
+  if (claimError) return claimError;
+
   // Log moderation action
   const logId = crypto.randomUUID();
   const now = new Date().toISOString();
@@ -82,8 +833,9 @@ moderationRouter.patch('/:presetId/status', async (c) => {
     .bind(logId, presetId, auth.userDiscordId!, action, body.reason || null, now)
     .run();
 
-  // Update preset status
+  // Update preset status; the preset has been handled, so any claim is done
   const updatedPreset = await updatePresetStatus(c.env.DB, presetId, body.status);
+  await releaseClaim(c.env.DB, presetId);
 
   return c.json({
     success: true,
@@ -97,14 +849,14 @@ moderationRouter.patch('/:presetId/status', async (c) => {
  */
 moderationRouter.patch('/:presetId/revert', async (c) => {
   // Require moderator privileges
-  const modError = requireModerator(c);
+  const modError = await requireModerator(c, 'revert');
   if (modError) return modError;
 
   const auth = c.get('auth');
   const presetId = c.req.param('presetId');
 
   // Parse request body for reason
-  let body: { reason: string };
+  let body: { reason: string; force?: boolean };
   try {
     body = await c.req.json();
   } catch {
@@ -123,16 +875,20 @@ moderationRouter.patch('/:presetId/revert', async (c) => {
     return notFoundResponse(c, 'Preset');
   }
 
+  const claimError = await requireClaimOrForce(c, presetId, body.force === true);
+  if (claimError) return claimError;
+
   // Check if there are previous values to revert to
   if (!preset.previous_values) {
     return validationErrorResponse(c, 'This preset has no previous values to revert to');
   }
 
   // Perform the revert
-  const revertedPreset = await revertPreset(c.env.DB, presetId);
+  const revertedPreset = await revertPreset(c.env.DB, presetId, auth.userDiscordId);
   if (!revertedPreset) {
     return internalErrorResponse(c, 'Failed to revert preset');
   }
+  await releaseClaim(c.env.DB, presetId);
 
   // Log moderation action
   const logId = crypto.randomUUID();
@@ -152,19 +908,142 @@ moderationRouter.patch('/:presetId/revert', async (c) => {
   });
 });
 
+/**
+ * PATCH /api/v1/moderation/:presetId/revisions/:revision/restore
+ * Restore a preset's content from any of its revisions
+ */
+moderationRouter.patch('/:presetId/revisions/:revision/restore', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'revert');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+  const revisionNumber = parseInt(c.req.param('revision'), 10);
+  if (Number.isNaN(revisionNumber) || revisionNumber < 1) {
+    return validationErrorResponse(c, 'Revision must be a positive integer');
+  }
+
+  // Parse request body for reason
+  let body: { reason: string; force?: boolean };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const reasonError = validateModerationReason(body.reason);
+  if (reasonError) {
+    return validationErrorResponse(c, reasonError);
+  }
+
+  const preset = await getPresetById(c.env.DB, presetId);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  // Restoring approves the preset, so it needs the same checks as approving it
+  if (preset.status !== 'approved') {
+    const permissionError = await requireModerator(c, 'approve');
+    if (permissionError) return permissionError;
+  }
+
+  const claimError = await requireClaimOrForce(c, presetId, body.force === true);
+  if (claimError) return claimError;
+
+  const revision = await getPresetRevision(c.env.DB, presetId, revisionNumber);
+  if (!revision) {
+    return notFoundResponse(c, 'Revision');
+  }
+
+  // The dye combination may have been taken by another preset since
+  const duplicate = await findDuplicatePresetExcluding(c.env.DB, revision.dyes, presetId);
+  if (duplicate) {
+    return duplicateResponse(c, `This revision's dye combination is now used by "${duplicate.name}"`);
+  }
+
+  const restoredPreset = await restorePresetRevision(c.env.DB, preset, revision, auth.userDiscordId!);
+  if (!restoredPreset) {
+    return internalErrorResponse(c, 'Failed to restore preset');
+  }
+  await releaseClaim(c.env.DB, presetId);
+
+  // Log moderation action
+  const logId = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await c.env.DB.prepare(
+    `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  )
+    .bind(logId, presetId, auth.userDiscordId!, 'restore', body.reason, now)
+    .run();
+
+  return c.json({
+    success: true,
+    preset: restoredPreset,
+    message: `Preset restored to revision ${revisionNumber}`,
+  });
+});
+
+/**
+ * DELETE /api/v1/moderation/:presetId/purge
+ * Permanently remove a preset (deleted or not) and its votes and revisions
+ * The preset's moderation history is kept.
+ */
+moderationRouter.delete('/:presetId/purge', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'purge');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const presetId = c.req.param('presetId');
+
+  // Parse request body for reason
+  let body: { reason: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const reasonError = validateModerationReason(body.reason);
+  if (reasonError) {
+    return validationErrorResponse(c, reasonError);
+  }
+
+  const preset =
+    (await getPresetById(c.env.DB, presetId)) ?? (await getDeletedPresetById(c.env.DB, presetId));
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  await purgePreset(c.env.DB, presetId);
+
+  // Log moderation action
+  await c.env.DB.prepare(
+    `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  )
+    .bind(crypto.randomUUID(), presetId, auth.userDiscordId!, 'purge', body.reason, new Date().toISOString())
+    .run();
+
+  return c.json({ success: true, message: 'Preset purged' });
+});
+
 /**
  * GET /api/v1/moderation/:presetId/history
  * Get moderation history for a preset
  */
 moderationRouter.get('/:presetId/history', async (c) => {
   // Require moderator privileges
-  const modError = requireModerator(c);
+  const modError = await requireModerator(c);
   if (modError) return modError;
 
   const presetId = c.req.param('presetId');
 
   const query = `
-    SELECT id, preset_id, moderator_discord_id, action, reason, created_at
+    SELECT id, preset_id, comment_id, appeal_id, moderator_discord_id, action, reason, created_at
     FROM moderation_log
     WHERE preset_id = ?
     ORDER BY created_at DESC
@@ -180,26 +1059,344 @@ moderationRouter.get('/:presetId/history', async (c) => {
  */
 moderationRouter.get('/stats', async (c) => {
   // Require moderator privileges
-  const modError = requireModerator(c);
+  const modError = await requireModerator(c);
   if (modError) return modError;
 
   const query = `
     SELECT
-      (SELECT COUNT(*) FROM presets WHERE status = 'pending') as pending,
-      (SELECT COUNT(*) FROM presets WHERE status = 'approved') as approved,
-      (SELECT COUNT(*) FROM presets WHERE status = 'rejected') as rejected,
-      (SELECT COUNT(*) FROM presets WHERE status = 'flagged') as flagged,
-      (SELECT COUNT(*) FROM moderation_log WHERE created_at > datetime('now', '-7 days')) as actions_last_week
+      (SELECT COUNT(*) FROM presets WHERE status = 'pending' AND deleted_at IS NULL) as pending,
+      (SELECT COUNT(*) FROM presets WHERE status = 'approved' AND deleted_at IS NULL) as approved,
+      (SELECT COUNT(*) FROM presets WHERE status = 'rejected' AND deleted_at IS NULL) as rejected,
+      (SELECT COUNT(*) FROM presets WHERE status = 'flagged' AND deleted_at IS NULL) as flagged,
+      (SELECT COUNT(*) FROM presets WHERE deleted_at IS NOT NULL) as deleted,
+      (SELECT COUNT(*) FROM moderation_log
+        WHERE created_at > datetime('now', '-7 days') AND action != 'appeal_submit') as actions_last_week
   `;
 
   const stats = await c.env.DB.prepare(query).first();
   return c.json({ stats });
 });
 
+// ============================================
+// MODERATORS
+// ============================================
+
+/**
+ * GET /api/v1/moderation/moderators/me
+ * Your moderator role and what it allows
+ */
+moderationRouter.get('/moderators/me', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const role = (await resolveModeratorRole(c))!;
+
+  return c.json({
+    discord_id: c.get('auth').userDiscordId,
+    role,
+    permissions: ROLE_PERMISSIONS[role],
+  });
+});
+
+/**
+ * GET /api/v1/moderation/moderators
+ * List moderators and the permissions of each role
+ * MODERATOR_IDS admins are not listed - they are configured outside the API
+ */
+moderationRouter.get('/moderators', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'manage_moderators');
+  if (modError) return modError;
+
+  const moderators = await getModerators(c.env.DB);
+  return c.json({ moderators, total: moderators.length, roles: ROLE_PERMISSIONS });
+});
+
+/**
+ * PUT /api/v1/moderation/moderators/:discordId
+ * Add a moderator or change their role
+ * Body: { role: 'reviewer' | 'moderator' | 'admin' }
+ */
+moderationRouter.put('/moderators/:discordId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'manage_moderators');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const discordId = c.req.param('discordId');
+
+  let body: { role: ModeratorRole };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const idError = validateDiscordId(discordId);
+  if (idError) {
+    return validationErrorResponse(c, idError);
+  }
+
+  const roleError = validateModeratorRole(body.role);
+  if (roleError) {
+    return validationErrorResponse(c, roleError);
+  }
+
+  // Stops an admin demoting themselves and leaving nobody to undo it
+  if (discordId === auth.userDiscordId) {
+    return validationErrorResponse(c, 'You cannot change your own role');
+  }
+
+  const existing = await getModerator(c.env.DB, discordId);
+  const moderator = await setModeratorRole(c.env.DB, discordId, body.role, auth.userDiscordId!);
+
+  return c.json({ success: true, moderator }, existing ? 200 : 201);
+});
+
+/**
+ * DELETE /api/v1/moderation/moderators/:discordId
+ * Remove a moderator
+ */
+moderationRouter.delete('/moderators/:discordId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'manage_moderators');
+  if (modError) return modError;
+
+  const auth = c.get('auth');
+  const discordId = c.req.param('discordId');
+
+  if (discordId === auth.userDiscordId) {
+    return validationErrorResponse(c, 'You cannot remove yourself');
+  }
+
+  const removed = await removeModerator(c.env.DB, discordId);
+  if (!removed) {
+    return notFoundResponse(c, 'Moderator');
+  }
+
+  return c.json({ success: true, message: 'Moderator removed' });
+});
+
+// ============================================
+// MODERATION POLICY
+// ============================================
+
+/**
+ * GET /api/v1/moderation/policy
+ * Current Perspective thresholds for each attribute
+ */
+moderationRouter.get('/policy', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const policy = await getModerationPolicy(c.env.DB);
+  return c.json({ policy });
+});
+
+/**
+ * PUT /api/v1/moderation/policy
+ * Change thresholds for some or all attributes; takes effect on the next submission
+ * Body: { attributes: { TOXICITY: { pending: 0.7, reject: 0.95 }, ... } }
+ */
+moderationRouter.put('/policy', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'manage_policy');
+  if (modError) return modError;
+
+  let body: { attributes: Partial<Record<PerspectiveAttribute, AttributeThresholds>> };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const policyError = validateModerationPolicyUpdate(body.attributes);
+  if (policyError) {
+    return validationErrorResponse(c, policyError);
+  }
+
+  const policy = await updateModerationPolicy(c.env.DB, body.attributes, c.get('auth').userDiscordId!);
+  return c.json({ success: true, policy });
+});
+
+// ============================================
+// PROFANITY TERMS
+// ============================================
+
+/**
+ * GET /api/v1/moderation/profanity
+ * List blocked terms: `terms` are managed here, `bundled` ship with the worker
+ * Query params: locale (optional)
+ */
+moderationRouter.get('/profanity', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c);
+  if (modError) return modError;
+
+  const locale = c.req.query('locale');
+  if (locale !== undefined) {
+    const localeError = validateProfanityLocale(locale);
+    if (localeError) {
+      return validationErrorResponse(c, localeError);
+    }
+  }
+
+  const terms = await getProfanityTerms(c.env.DB, locale as SupportedLocale | undefined);
+  const bundled = locale ? { [locale]: profanityLists[locale as SupportedLocale] } : profanityLists;
+
+  return c.json({ terms, total: terms.length, bundled });
+});
+
+/**
+ * POST /api/v1/moderation/profanity
+ * Block a term; applies to the next submission without a redeploy
+ * Body: { locale: 'en' | 'ja' | 'de' | 'fr' | 'ko' | 'zh', term: string }
+ */
+moderationRouter.post('/profanity', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'manage_policy');
+  if (modError) return modError;
+
+  let body: { locale: SupportedLocale; term: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const localeError = validateProfanityLocale(body.locale);
+  if (localeError) {
+    return validationErrorResponse(c, localeError);
+  }
+
+  const term = typeof body.term === 'string' ? body.term.trim() : body.term;
+  const termError = validateProfanityTerm(term);
+  if (termError) {
+    return validationErrorResponse(c, termError);
+  }
+
+  const alreadyBlocked = await isTermBlocked(c.env.DB, body.locale, term);
+  const added = alreadyBlocked
+    ? null
+    : await addProfanityTerm(c.env.DB, body.locale, term, c.get('auth').userDiscordId!);
+  if (!added) {
+    return duplicateResponse(c, 'This term is already blocked for that locale');
+  }
+
+  return c.json({ success: true, term: added }, 201);
+});
+
+/**
+ * DELETE /api/v1/moderation/profanity/:termId
+ * Unblock a term added through the API
+ */
+moderationRouter.delete('/profanity/:termId', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'manage_policy');
+  if (modError) return modError;
+
+  const removed = await removeProfanityTerm(c.env.DB, c.req.param('termId'));
+  if (!removed) {
+    return notFoundResponse(c, 'Term');
+  }
+
+  return c.json({ success: true, message: 'Term removed' });
+});
+
+// ============================================
+// TAG ALIASES
+// ============================================
+
+/**
+ * POST /api/v1/moderation/tags/aliases
+ * Merge a tag into another: `alias` becomes an alias of `tag` and every preset
+ * using it is re-tagged
+ */
+moderationRouter.post('/tags/aliases', async (c) => {
+  // Require moderator privileges
+  const modError = await requireModerator(c, 'manage_categories');
+  if (modError) return modError;
+
+  let body: { alias?: unknown; tag?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  if (typeof body.alias !== 'string' || typeof body.tag !== 'string') {
+    return validationErrorResponse(c, 'alias and tag are required');
+  }
+
+  const alias = normalizeTag(body.alias);
+  const tag = normalizeTag(body.tag);
+
+  const aliasError = validateTagName(alias, 'Alias');
+  if (aliasError) return validationErrorResponse(c, aliasError);
+  const tagError = validateTagName(tag);
+  if (tagError) return validationErrorResponse(c, tagError);
+
+  const result = await mergeTagAlias(c.env.DB, alias, tag);
+  if (!result) {
+    return validationErrorResponse(c, 'A tag cannot be an alias of itself');
+  }
+
+  return c.json({
+    success: true,
+    alias,
+    tag: result.tag,
+    presets_updated: result.presetsUpdated,
+  });
+});
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
+/**
+ * 409 response naming the moderator who holds a claim
+ */
+function claimConflictResponse(c: ModerationContext, claim: ModerationClaim): Response {
+  return c.json(
+    {
+      success: false,
+      error: ErrorCode.CONFLICT,
+      message: 'Preset is claimed by another moderator',
+      claim,
+    },
+    409
+  );
+}
+
+/**
+ * Refuse to act on a preset another moderator has claimed, unless forced
+ *
+ * @returns A 409 response, or null if the action may go ahead
+ */
+async function requireClaimOrForce(
+  c: ModerationContext,
+  presetId: string,
+  force: boolean
+): Promise<Response | null> {
+  if (force) return null;
+
+  const claim = await getActiveClaim(c.env.DB, presetId);
+  if (claim && claim.moderator_discord_id !== c.get('auth').userDiscordId) {
+    return claimConflictResponse(c, claim);
+  }
+
+  return null;
+}
+
+/**
+ * Permission needed to move a preset to a status: approving, or taking it out of listings
+ */
+function getPermissionForStatus(status: PresetStatus): ModeratorPermission {
+  return status === 'approved' ? 'approve' : 'reject';
+}
+
 function getActionFromStatusChange(
   oldStatus: PresetStatus,
   newStatus: PresetStatus
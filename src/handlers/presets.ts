@@ -4,8 +4,23 @@
  */
 
 import { Hono } from 'hono';
-import type { Env, AuthContext, PresetFilters, PresetSubmission, PresetEditRequest, PresetPreviousValues } from '../types.js';
-import { requireAuth, requireUserContext } from '../middleware/auth.js';
+import type {
+  Env,
+  AuthContext,
+  ExtendedPresetFilters,
+  ExtendedPresetSubmission,
+  PresetEditRequest,
+  PresetPreviousValues,
+  ReportCategory,
+} from '../types.js';
+import {
+  requireAuth,
+  requireUserContext,
+  isPresetAuthor,
+  getUserKey,
+  getUserKeys,
+  hasModeratorPermission,
+} from '../middleware/auth.js';
 import { requireNotBannedCheck } from '../middleware/ban-check.js';
 import {
   ErrorCode,
@@ -15,17 +30,36 @@ import {
   forbiddenResponse,
   notFoundResponse,
   internalErrorResponse,
+  contentFlaggedResponse,
 } from '../utils/api-response.js';
 import {
   getPresets,
   getFeaturedPresets,
   getPresetById,
   getPresetsByUser,
+  getSimilarPresets,
+  withPresetLineage,
   findDuplicatePreset,
   findDuplicatePresetExcluding,
   createPreset,
   updatePreset,
+  decodePresetCursor,
 } from '../services/preset-service.js';
+import {
+  softDeletePreset,
+  getDeletedPresetById,
+  getRestorablePresetsByUser,
+  restoreDeletedPreset,
+  getRestoreWindowDays,
+  getRestoreDeadline,
+} from '../services/deletion-service.js';
+import { getPresetRevisions } from '../services/revision-service.js';
+import { getPresetComments, createComment } from '../services/comment-service.js';
+import {
+  createReport,
+  flagIfReportThresholdReached,
+  getReportFlagThreshold,
+} from '../services/report-service.js';
 import { moderateContent } from '../services/moderation-service.js';
 // PRESETS-REF-001 FIX: Import from centralized validation service
 import {
@@ -33,9 +67,20 @@ import {
   validatePresetDescription,
   validatePresetDyes,
   validatePresetTags,
+  validateDyeFilter,
+  validateDyeMatchMode,
+  validateCommentBody,
+  validateReportCategory,
+  validateReportDetails,
 } from '../services/validation-service.js';
+import { normalizeTag, normalizeTags } from '../services/tag-service.js';
 import { addVote } from './votes.js';
-import { checkSubmissionRateLimit, getRemainingSubmissions } from '../services/rate-limit-service.js';
+import {
+  checkSubmissionRateLimit,
+  getRemainingSubmissions,
+  checkCommentRateLimit,
+  recordCommentActivity,
+} from '../services/rate-limit-service.js';
 
 type Variables = {
   auth: AuthContext;
@@ -50,18 +95,41 @@ export const presetsRouter = new Hono<{ Bindings: Env; Variables: Variables }>()
 /**
  * GET /api/v1/presets
  * List presets with filtering and pagination
+ * With ?search=, results are ranked by relevance; ?highlight=true adds match snippets
+ * Pass ?cursor= (next_cursor from a previous page) for keyset pagination
+ * ?dyes=5738,13115 filters by contained dyes (?dye_match=all|any, default all)
+ * ?tag= filters by exact (normalized) tag
  */
 presetsRouter.get('/', async (c) => {
-  const { category, search, status, sort, page, limit, is_curated } = c.req.query();
+  const { category, search, status, sort, page, limit, is_curated, highlight, cursor, dyes, dye_match, tag } =
+    c.req.query();
+
+  if (dyes !== undefined) {
+    const dyeError = validateDyeFilter(dyes);
+    if (dyeError) return validationErrorResponse(c, dyeError);
+  }
+  const dyeMatchError = validateDyeMatchMode(dye_match);
+  if (dyeMatchError) return validationErrorResponse(c, dyeMatchError);
+
+  // A cursor continues the sort it was issued for; reject tampered or mismatched cursors
+  const decodedCursor = cursor ? decodePresetCursor(cursor) : undefined;
+  if (decodedCursor === null || (decodedCursor && sort && sort !== decodedCursor.sort)) {
+    return validationErrorResponse(c, 'Invalid cursor');
+  }
 
-  const filters: PresetFilters = {
-    category: category as PresetFilters['category'],
+  const filters: ExtendedPresetFilters = {
+    category: category as ExtendedPresetFilters['category'],
     search,
-    status: status as PresetFilters['status'],
-    sort: sort as PresetFilters['sort'],
+    status: status as ExtendedPresetFilters['status'],
+    sort: sort as ExtendedPresetFilters['sort'],
     page: page ? parseInt(page, 10) : undefined,
     limit: limit ? Math.min(parseInt(limit, 10), 50) : undefined, // Cap at 50 for performance
     is_curated: is_curated === 'true' ? true : is_curated === 'false' ? false : undefined,
+    highlight: highlight === 'true',
+    cursor: decodedCursor,
+    dyes: dyes !== undefined ? dyes.split(',').map((id) => parseInt(id, 10)) : undefined,
+    dye_match: dye_match as ExtendedPresetFilters['dye_match'],
+    tag: tag ? normalizeTag(tag) || undefined : undefined,
   };
 
   const response = await getPresets(c.env.DB, filters);
@@ -70,10 +138,11 @@ presetsRouter.get('/', async (c) => {
 
 /**
  * GET /api/v1/presets/featured
- * Get top-voted presets for homepage display
+ * Get top-voted presets for homepage display (?sort=trending for recent activity)
  */
 presetsRouter.get('/featured', async (c) => {
-  const presets = await getFeaturedPresets(c.env.DB);
+  const { sort } = c.req.query();
+  const presets = await getFeaturedPresets(c.env.DB, sort === 'trending' ? 'trending' : 'popular');
   return c.json({ presets });
 });
 
@@ -96,11 +165,41 @@ presetsRouter.get('/mine', async (c) => {
 
   const auth = c.get('auth');
 
-  const presets = await getPresetsByUser(c.env.DB, auth.userDiscordId!);
+  const presets = await getPresetsByUser(c.env.DB, auth.userDiscordId, auth.userXivAuthId);
+
+  return c.json({
+    presets,
+    total: presets.length,
+  });
+});
+
+/**
+ * GET /api/v1/presets/mine/deleted
+ * Get the current user's deleted presets that can still be restored
+ */
+presetsRouter.get('/mine/deleted', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const windowDays = getRestoreWindowDays(c.env);
+
+  const presets = await getRestorablePresetsByUser(
+    c.env.DB,
+    auth.userDiscordId,
+    auth.userXivAuthId,
+    windowDays
+  );
 
   return c.json({
     presets,
     total: presets.length,
+    restore_window_days: windowDays,
   });
 });
 
@@ -119,7 +218,11 @@ presetsRouter.get('/rate-limit', async (c) => {
 
   const auth = c.get('auth');
 
-  const { remaining, resetAt } = await getRemainingSubmissions(c.env.DB, auth.userDiscordId!);
+  const { remaining, resetAt } = await getRemainingSubmissions(
+    c.env.DB,
+    auth.userDiscordId,
+    auth.userXivAuthId
+  );
 
   return c.json({
     remaining,
@@ -144,18 +247,26 @@ presetsRouter.patch('/refresh-author', async (c) => {
 
   const auth = c.get('auth');
 
-  // Guard against undefined userDiscordId (defensive coding)
-  if (!auth.userDiscordId) {
+  // Guard against missing user identity (defensive coding)
+  if (!auth.userDiscordId && !auth.userXivAuthId) {
     return validationErrorResponse(c, 'User ID required for author refresh');
   }
 
-  // Update all presets by this user to use their current display name
+  // The display name is shown on every preset, so it goes through moderation too
+  if (auth.userName) {
+    const moderationResult = await moderateContent('', '', c.env, { authorName: auth.userName });
+    if (!moderationResult.passed) {
+      return contentFlaggedResponse(c, moderationResult);
+    }
+  }
+
+  // Update all presets by this user (under either identity) to use their current display name
   const result = await c.env.DB.prepare(`
     UPDATE presets
     SET author_name = ?
-    WHERE author_discord_id = ?
+    WHERE author_discord_id = ? OR author_xivauth_id = ?
   `)
-    .bind(auth.userName, auth.userDiscordId)
+    .bind(auth.userName, auth.userDiscordId ?? null, auth.userXivAuthId ?? null)
     .run();
 
   return c.json({
@@ -170,7 +281,8 @@ presetsRouter.patch('/refresh-author', async (c) => {
 
 /**
  * DELETE /api/v1/presets/:id
- * Delete a preset (owner or moderator only)
+ * Soft-delete a preset (owner or moderator only)
+ * The owner can restore it within the restore window, unless a moderator deleted it
  */
 presetsRouter.delete('/:id', async (c) => {
   // Require authentication
@@ -190,21 +302,94 @@ presetsRouter.delete('/:id', async (c) => {
     return notFoundResponse(c, 'Preset');
   }
 
-  // Only owner or moderator can delete
-  if (preset.author_discord_id !== auth.userDiscordId && !auth.isModerator) {
+  // Only owner or a moderator allowed to reject content can delete
+  if (!isPresetAuthor(auth, preset) && !(await hasModeratorPermission(c, 'reject'))) {
     return forbiddenResponse(c, "Cannot delete another user's preset");
   }
 
-  // Delete votes and preset in transaction
-  // PRESETS-PERF-001: Using batch() for atomicity guarantee, not performance.
-  // D1 batch() ensures both deletes succeed or both fail.
-  // For 2 queries, overhead is negligible vs. transaction safety benefit.
-  await c.env.DB.batch([
-    c.env.DB.prepare('DELETE FROM votes WHERE preset_id = ?').bind(id),
-    c.env.DB.prepare('DELETE FROM presets WHERE id = ?').bind(id),
-  ]);
+  // Votes, revisions, and the row itself are kept until the preset is purged
+  const byModerator = !isPresetAuthor(auth, preset);
+  await softDeletePreset(c.env.DB, id, byModerator);
+
+  if (byModerator) {
+    await c.env.DB.prepare(
+      `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+      .bind(crypto.randomUUID(), id, auth.userDiscordId!, 'delete', null, new Date().toISOString())
+      .run();
 
-  return c.json({ success: true, message: 'Preset deleted' });
+    return c.json({ success: true, message: 'Preset deleted' });
+  }
+
+  return c.json({
+    success: true,
+    message: 'Preset deleted',
+    restore_until: getRestoreDeadline(new Date().toISOString(), getRestoreWindowDays(c.env)),
+  });
+});
+
+/**
+ * POST /api/v1/presets/:id/restore
+ * Restore a deleted preset (owner only, within the restore window)
+ */
+presetsRouter.post('/:id/restore', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const preset = await getDeletedPresetById(c.env.DB, id, getRestoreWindowDays(c.env));
+  if (!preset) {
+    return notFoundResponse(c, 'Deleted preset');
+  }
+
+  if (!isPresetAuthor(auth, preset)) {
+    return forbiddenResponse(c, 'You can only restore your own presets');
+  }
+
+  if (preset.deleted_by_moderator) {
+    return forbiddenResponse(c, 'This preset was removed by a moderator');
+  }
+
+  if (new Date(preset.restore_until).getTime() <= Date.now()) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'The restore window for this preset has passed', 409);
+  }
+
+  // The dye combination may have been reused while the preset was deleted
+  const duplicate = await findDuplicatePreset(c.env.DB, preset.dyes);
+  if (duplicate) {
+    return c.json(
+      {
+        success: false,
+        error: ErrorCode.DUPLICATE_RESOURCE,
+        message: 'This dye combination already exists',
+        duplicate: {
+          id: duplicate.id,
+          name: duplicate.name,
+          author_name: duplicate.author_name,
+        },
+      },
+      409
+    );
+  }
+
+  const restoredPreset = await restoreDeletedPreset(c.env.DB, preset);
+  if (!restoredPreset) {
+    return internalErrorResponse(c, 'Failed to restore preset');
+  }
+
+  return c.json({ success: true, preset: restoredPreset });
 });
 
 /**
@@ -234,7 +419,7 @@ presetsRouter.patch('/:id', async (c) => {
   }
 
   // Only owner can edit (moderators cannot edit others' presets)
-  if (preset.author_discord_id !== auth.userDiscordId) {
+  if (!isPresetAuthor(auth, preset)) {
     return forbiddenResponse(c, 'You can only edit your own presets');
   }
 
@@ -257,6 +442,10 @@ presetsRouter.patch('/:id', async (c) => {
     return validationErrorResponse(c, validationError);
   }
 
+  if (body.tags) {
+    body.tags = normalizeTags(body.tags);
+  }
+
   // If dyes are being changed, check for duplicates (excluding this preset)
   if (body.dyes) {
     const duplicate = await findDuplicatePresetExcluding(c.env.DB, body.dyes, id);
@@ -277,23 +466,30 @@ presetsRouter.patch('/:id', async (c) => {
     }
   }
 
-  // Determine if content moderation is needed (name or description changed)
+  // Determine if content moderation is needed (name, description, or tags changed)
   // PRESETS-BUG-003: Vote counts are preserved during edits - this is intentional
   // as users voted on the dye combination, not just the name/description.
   let moderationStatus: 'approved' | 'pending' = 'approved';
   let previousValues: PresetPreviousValues | null | undefined;
 
-  if (body.name || body.description) {
+  if (body.name || body.description || body.tags) {
     // Run content moderation on new values
     const nameToCheck = body.name || preset.name;
     const descriptionToCheck = body.description || preset.description;
+    const tagsToCheck = body.tags || preset.tags;
 
     const moderationResult = await moderateContent(
       nameToCheck,
       descriptionToCheck,
-      c.env
+      c.env,
+      { tags: tagsToCheck }
     );
 
+    // Auto-rejected edits are refused outright so the preset keeps its current content
+    if (moderationResult.action === 'reject') {
+      return contentFlaggedResponse(c, moderationResult);
+    }
+
     if (!moderationResult.passed) {
       // Store previous values for potential revert
       previousValues = {
@@ -319,7 +515,8 @@ presetsRouter.patch('/:id', async (c) => {
     id,
     body,
     previousValues,
-    moderationStatus
+    moderationStatus,
+    { discordId: auth.userDiscordId, xivAuthId: auth.userXivAuthId }
   );
 
   if (!updatedPreset) {
@@ -355,9 +552,247 @@ presetsRouter.patch('/:id', async (c) => {
   });
 });
 
+/**
+ * GET /api/v1/presets/:id/revisions
+ * Get a preset's revision history, newest first (owner or moderator only)
+ */
+presetsRouter.get('/:id/revisions', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  if (!isPresetAuthor(auth, preset) && !(await hasModeratorPermission(c))) {
+    return forbiddenResponse(c, "Cannot view another user's preset history");
+  }
+
+  const revisions = await getPresetRevisions(c.env.DB, id);
+
+  return c.json({ revisions, total: revisions.length });
+});
+
+/**
+ * GET /api/v1/presets/:id/similar
+ * Get approved presets with the most dye overlap ("palettes like this one")
+ */
+presetsRouter.get('/:id/similar', async (c) => {
+  const id = c.req.param('id');
+  const { limit } = c.req.query();
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  // Cap at 20 - this backs a sidebar, not a listing
+  const parsedLimit = limit ? parseInt(limit, 10) : NaN;
+  const presets = await getSimilarPresets(
+    c.env.DB,
+    id,
+    Number.isNaN(parsedLimit) ? undefined : Math.min(Math.max(parsedLimit, 1), 20)
+  );
+
+  return c.json({ presets });
+});
+
+/**
+ * GET /api/v1/presets/:id/remixes
+ * List approved remixes of a preset (same sort, page, limit, and cursor params as the list)
+ */
+presetsRouter.get('/:id/remixes', async (c) => {
+  const id = c.req.param('id');
+  const { sort, page, limit, cursor } = c.req.query();
+
+  const decodedCursor = cursor ? decodePresetCursor(cursor) : undefined;
+  if (decodedCursor === null || (decodedCursor && sort && sort !== decodedCursor.sort)) {
+    return validationErrorResponse(c, 'Invalid cursor');
+  }
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const response = await getPresets(c.env.DB, {
+    parent_id: id,
+    // Relevance needs a search; remixes have none
+    sort: sort === 'relevance' ? undefined : (sort as ExtendedPresetFilters['sort']),
+    page: page ? parseInt(page, 10) : undefined,
+    limit: limit ? Math.min(parseInt(limit, 10), 50) : undefined,
+    cursor: decodedCursor,
+  });
+  return c.json(response);
+});
+
+/**
+ * GET /api/v1/presets/:id/comments
+ * List a preset's comments, newest first (`page`, `limit`)
+ * Signed-in authors also see their own comments awaiting moderation
+ */
+presetsRouter.get('/:id/comments', async (c) => {
+  const id = c.req.param('id');
+  const { page, limit } = c.req.query();
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset || preset.status !== 'approved') {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  const response = await getPresetComments(c.env.DB, id, {
+    page: page ? Math.max(1, parseInt(page, 10) || 1) : undefined,
+    limit: limit ? Math.min(Math.max(1, parseInt(limit, 10) || 20), 50) : undefined, // Cap at 50
+    viewer: c.get('auth'),
+  });
+
+  return c.json(response);
+});
+
+/**
+ * POST /api/v1/presets/:id/comments
+ * Comment on an approved preset
+ * Flagged comments are held for moderation and only shown to their author
+ */
+presetsRouter.post('/:id/comments', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  const rateLimitResult = await checkCommentRateLimit(c.env.DB, auth.userDiscordId, auth.userXivAuthId);
+  if (!rateLimitResult.allowed) {
+    return c.json(
+      {
+        success: false,
+        error: ErrorCode.RATE_LIMITED,
+        message: "You've reached your daily comment limit. Try again tomorrow.",
+        remaining: 0,
+        reset_at: rateLimitResult.resetAt.toISOString(),
+      },
+      429
+    );
+  }
+
+  let body: { body: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const text = typeof body.body === 'string' ? body.body.trim() : body.body;
+  const bodyError = validateCommentBody(text);
+  if (bodyError) return validationErrorResponse(c, bodyError);
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset || preset.status !== 'approved') {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  await recordCommentActivity(c.env.DB, auth.userDiscordId, auth.userXivAuthId, 'create');
+
+  // Comments have no name, so the whole body is checked as the description
+  const moderationResult = await moderateContent('', text, c.env, { authorName: auth.userName });
+  if (moderationResult.action === 'reject') {
+    return contentFlaggedResponse(c, moderationResult);
+  }
+  const status = moderationResult.passed ? 'visible' : 'pending';
+
+  const comment = await createComment(c.env.DB, id, auth, text, status);
+
+  return c.json(
+    {
+      success: true,
+      comment,
+      moderation_status: status,
+      remaining_comments: rateLimitResult.remaining - 1,
+    },
+    201
+  );
+});
+
+/**
+ * POST /api/v1/presets/:id/report
+ * Report a preset to moderators (once per user)
+ * Body: { category: 'offensive' | 'spam' | 'stolen' | 'wrong_category', details?: string }
+ */
+presetsRouter.post('/:id/report', async (c) => {
+  // Require authentication
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  // Require user context
+  const userError = requireUserContext(c);
+  if (userError) return userError;
+
+  // Check if user is banned
+  const banError = await requireNotBannedCheck(c);
+  if (banError) return banError;
+
+  const auth = c.get('auth');
+  const id = c.req.param('id');
+
+  let body: { category: ReportCategory; details?: string | null };
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const categoryError = validateReportCategory(body.category);
+  if (categoryError) return validationErrorResponse(c, categoryError);
+
+  const detailsError = validateReportDetails(body.details);
+  if (detailsError) return validationErrorResponse(c, detailsError);
+
+  const preset = await getPresetById(c.env.DB, id);
+  if (!preset) {
+    return notFoundResponse(c, 'Preset');
+  }
+
+  if (isPresetAuthor(auth, preset)) {
+    return forbiddenResponse(c, 'You cannot report your own preset');
+  }
+
+  const report = await createReport(
+    c.env.DB,
+    id,
+    getUserKey(auth)!,
+    body.category,
+    body.details?.trim() || null
+  );
+  if (!report) {
+    return errorResponse(c, ErrorCode.CONFLICT, 'You have already reported this preset', 409);
+  }
+
+  const flagged = await flagIfReportThresholdReached(c.env.DB, preset, getReportFlagThreshold(c.env));
+
+  return c.json({ success: true, report, preset_flagged: flagged }, 201);
+});
+
 /**
  * GET /api/v1/presets/:id
- * Get a single preset by ID
+ * Get a single preset by ID, with its remix parent and remix count
  */
 presetsRouter.get('/:id', async (c) => {
   const id = c.req.param('id');
@@ -367,7 +802,7 @@ presetsRouter.get('/:id', async (c) => {
     return notFoundResponse(c, 'Preset');
   }
 
-  return c.json(preset);
+  return c.json(await withPresetLineage(c.env.DB, preset));
 });
 
 /**
@@ -388,9 +823,15 @@ presetsRouter.post('/', async (c) => {
   if (banError) return banError;
 
   const auth = c.get('auth');
+  // Votes are keyed by Discord ID, or a prefixed XIVAuth ID (see getUserKeys)
+  const userKeys = getUserKeys(auth);
 
   // Check rate limit (10 submissions per day)
-  const rateLimitResult = await checkSubmissionRateLimit(c.env.DB, auth.userDiscordId!);
+  const rateLimitResult = await checkSubmissionRateLimit(
+    c.env.DB,
+    auth.userDiscordId,
+    auth.userXivAuthId
+  );
   if (!rateLimitResult.allowed) {
     return c.json(
       {
@@ -405,9 +846,9 @@ presetsRouter.post('/', async (c) => {
   }
 
   // Parse request body
-  let body: PresetSubmission;
+  let body: ExtendedPresetSubmission;
   try {
-    body = await c.req.json<PresetSubmission>();
+    body = await c.req.json<ExtendedPresetSubmission>();
   } catch {
     return invalidJsonResponse(c);
   }
@@ -418,11 +859,13 @@ presetsRouter.post('/', async (c) => {
     return validationErrorResponse(c, validationError);
   }
 
+  body.tags = normalizeTags(body.tags);
+
   // Check for duplicate dye combinations
   const duplicate = await findDuplicatePreset(c.env.DB, body.dyes);
   if (duplicate) {
     // Add vote to existing preset
-    const voteResult = await addVote(c.env.DB, duplicate.id, auth.userDiscordId!);
+    const voteResult = await addVote(c.env.DB, duplicate.id, userKeys);
 
     return c.json({
       success: true,
@@ -431,13 +874,19 @@ presetsRouter.post('/', async (c) => {
     });
   }
 
-  // Moderate content
+  // Moderate content, including the tags and the display name stored as author_name
   const moderationResult = await moderateContent(
     body.name,
     body.description,
-    c.env
+    c.env,
+    { tags: body.tags, authorName: auth.userName }
   );
 
+  // Auto-rejected content is never stored
+  if (moderationResult.action === 'reject') {
+    return contentFlaggedResponse(c, moderationResult);
+  }
+
   // Determine status based on moderation
   const status = moderationResult.passed ? 'approved' : 'pending';
 
@@ -450,9 +899,10 @@ presetsRouter.post('/', async (c) => {
     preset = await createPreset(
       c.env.DB,
       body,
-      auth.userDiscordId!,
+      auth.userDiscordId ?? null,
       auth.userName || 'Unknown User',
-      status
+      status,
+      auth.userXivAuthId ?? null
     );
   } catch (error) {
     // Check if this is a UNIQUE constraint violation on dye_signature
@@ -462,7 +912,7 @@ presetsRouter.post('/', async (c) => {
       // Try to find and vote on the existing preset
       const existingPreset = await findDuplicatePreset(c.env.DB, body.dyes);
       if (existingPreset) {
-        const voteResult = await addVote(c.env.DB, existingPreset.id, auth.userDiscordId!);
+        const voteResult = await addVote(c.env.DB, existingPreset.id, userKeys);
         return c.json({
           success: true,
           duplicate: existingPreset,
@@ -475,7 +925,7 @@ presetsRouter.post('/', async (c) => {
   }
 
   // Auto-vote for own preset
-  await addVote(c.env.DB, preset.id, auth.userDiscordId!);
+  await addVote(c.env.DB, preset.id, userKeys);
 
   // Send notification to Discord worker (non-blocking)
   // PRESETS-REF-002: Fire-and-forget notification - errors don't fail the request
@@ -486,7 +936,7 @@ presetsRouter.post('/', async (c) => {
       preset: {
         ...preset,
         author_name: auth.userName?.trim() || 'Unknown User', // PRESETS-HIGH-002
-        author_discord_id: auth.userDiscordId!,
+        author_discord_id: auth.userDiscordId ?? null,
         status,
         moderation_status: moderationResult.passed ? 'clean' : 'flagged',
         source: auth.authSource,
@@ -498,7 +948,7 @@ presetsRouter.post('/', async (c) => {
   );
 
   // Get updated rate limit info
-  const { remaining } = await getRemainingSubmissions(c.env.DB, auth.userDiscordId!);
+  const { remaining } = await getRemainingSubmissions(c.env.DB, auth.userDiscordId, auth.userXivAuthId);
 
   return c.json(
     {
@@ -553,7 +1003,7 @@ async function getValidCategories(db: D1Database): Promise<string[]> {
  * Validate preset submission (all fields required)
  * PRESETS-REF-001 FIX: Uses centralized validators from validation-service
  */
-async function validateSubmission(body: PresetSubmission, db: D1Database): Promise<string | null> {
+async function validateSubmission(body: ExtendedPresetSubmission, db: D1Database): Promise<string | null> {
   // All fields required for creation
   if (!body.name) return 'Name is required';
   const nameError = validatePresetName(body.name);
@@ -576,6 +1026,13 @@ async function validateSubmission(body: PresetSubmission, db: D1Database): Promi
   const tagsError = validatePresetTags(body.tags);
   if (tagsError) return tagsError;
 
+  // Remixes must credit a preset others can see
+  if (body.parent_id !== undefined) {
+    if (typeof body.parent_id !== 'string' || !body.parent_id) return 'Invalid parent preset';
+    const parent = await getPresetById(db, body.parent_id);
+    if (!parent || parent.status !== 'approved') return 'Parent preset not found';
+  }
+
   return null;
 }
 
@@ -622,7 +1079,7 @@ interface PresetNotificationPayload {
     dyes: number[];
     tags: string[];
     author_name: string;
-    author_discord_id: string;
+    author_discord_id: string | null;
     status: 'pending' | 'approved' | 'rejected';
     moderation_status: 'clean' | 'flagged' | 'auto_approved';
     source: 'bot' | 'web' | 'none';
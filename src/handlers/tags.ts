@@ -0,0 +1,57 @@
+/**
+ * Tags Handler
+ * Routes for tag listing and autocomplete
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext } from '../types.js';
+import { validationErrorResponse } from '../utils/api-response.js';
+import { getTags, autocompleteTags, normalizeTag } from '../services/tag-service.js';
+import { validateTagName } from '../services/validation-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const tagsRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * Parse a ?limit= value, clamped to 1..max
+ */
+function parseLimit(value: string | undefined, fallback: number, max: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? fallback : Math.min(Math.max(parsed, 1), max);
+}
+
+/**
+ * GET /api/v1/tags
+ * List tags used by approved presets, with counts (most used first)
+ *
+ * PERFORMANCE: Cached like categories - tag counts change slowly
+ */
+tagsRouter.get('/', async (c) => {
+  const tags = await getTags(c.env.DB, parseLimit(c.req.query('limit'), 100, 200));
+
+  return c.json(
+    { tags },
+    200,
+    {
+      'Cache-Control': 'public, s-maxage=60, max-age=30, stale-while-revalidate=120',
+    }
+  );
+});
+
+/**
+ * GET /api/v1/tags/autocomplete?q=
+ * Tags starting with a prefix (aliases included), most used first
+ */
+tagsRouter.get('/autocomplete', async (c) => {
+  const prefix = normalizeTag(c.req.query('q') ?? '');
+
+  const prefixError = validateTagName(prefix, 'Query');
+  if (prefixError) return validationErrorResponse(c, prefixError);
+
+  const tags = await autocompleteTags(c.env.DB, prefix, parseLimit(c.req.query('limit'), 10, 20));
+
+  return c.json({ tags });
+});
@@ -0,0 +1,32 @@
+/**
+ * Users Handler
+ * Routes for per-user public data
+ */
+
+import { Hono } from 'hono';
+import type { Env, AuthContext } from '../types.js';
+import { getCollectionsByOwner } from '../services/collection-service.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const usersRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * GET /api/v1/users/:id/collections
+ * List a user's public collections by Discord ID
+ * The owner also sees their private collections
+ */
+usersRouter.get('/:id/collections', async (c) => {
+  const userId = c.req.param('id');
+  const auth = c.get('auth');
+  const isOwner = !!auth?.userDiscordId && auth.userDiscordId === userId;
+
+  const collections = await getCollectionsByOwner(c.env.DB, userId, isOwner);
+
+  return c.json({
+    collections,
+    total: collections.length,
+  });
+});
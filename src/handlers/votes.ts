@@ -5,7 +5,7 @@
 
 import { Hono } from 'hono';
 import type { Env, AuthContext, VoteResponse } from '../types.js';
-import { requireAuth, requireUserContext } from '../middleware/auth.js';
+import { requireAuth, requireUserContext, getUserKeys } from '../middleware/auth.js';
 import { requireNotBannedCheck } from '../middleware/ban-check.js';
 import { notFoundResponse } from '../utils/api-response.js';
 
@@ -19,25 +19,33 @@ export const votesRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
  * Add a vote to a preset
  * Used internally and exposed via API
  *
- * Uses INSERT ... ON CONFLICT DO NOTHING to atomically handle duplicates,
+ * userKeys are the voter's user keys (see getUserKeys): their Discord ID and/or
+ * "xivauth:<id>". The vote is stored under the first, and counts as a duplicate
+ * if the preset already has a vote under any of them.
+ *
+ * Uses a guarded INSERT ... ON CONFLICT DO NOTHING to atomically handle duplicates,
  * eliminating the TOCTOU race condition where two concurrent requests
  * could both pass the "already voted" check.
  */
 export async function addVote(
   db: D1Database,
   presetId: string,
-  userDiscordId: string
+  userKeys: string[]
 ): Promise<VoteResponse> {
   const now = new Date().toISOString();
+  const placeholders = userKeys.map(() => '?').join(', ');
 
   try {
-    // Atomically attempt to insert vote - ON CONFLICT prevents duplicates
-    // The PRIMARY KEY (preset_id, user_discord_id) ensures uniqueness
+    // Atomically attempt to insert vote - the NOT EXISTS guard covers the
+    // user's other key and the PRIMARY KEY (preset_id, user_discord_id) this one
     const insertResult = await db
       .prepare(
-        'INSERT INTO votes (preset_id, user_discord_id, created_at) VALUES (?, ?, ?) ON CONFLICT DO NOTHING'
+        `INSERT INTO votes (preset_id, user_discord_id, created_at)
+         SELECT ?, ?, ?
+         WHERE NOT EXISTS (SELECT 1 FROM votes WHERE preset_id = ? AND user_discord_id IN (${placeholders}))
+         ON CONFLICT DO NOTHING`
       )
-      .bind(presetId, userDiscordId, now)
+      .bind(presetId, userKeys[0], now, presetId, ...userKeys)
       .run();
 
     // Check if insert actually added a row (changes = 0 means duplicate)
@@ -81,19 +89,27 @@ export async function addVote(
  * Remove a vote from a preset
  *
  * Uses DELETE with changes check to avoid race conditions and reduce queries.
+ * Removes one vote under any of the user's keys (see getUserKeys), so the
+ * count drops by exactly one.
  */
 export async function removeVote(
   db: D1Database,
   presetId: string,
-  userDiscordId: string
+  userKeys: string[]
 ): Promise<VoteResponse> {
   const now = new Date().toISOString();
+  const placeholders = userKeys.map(() => '?').join(', ');
 
   try {
     // Atomically attempt to delete the vote
     const deleteResult = await db
-      .prepare('DELETE FROM votes WHERE preset_id = ? AND user_discord_id = ?')
-      .bind(presetId, userDiscordId)
+      .prepare(
+        `DELETE FROM votes
+         WHERE preset_id = ? AND user_discord_id = (
+           SELECT user_discord_id FROM votes WHERE preset_id = ? AND user_discord_id IN (${placeholders}) LIMIT 1
+         )`
+      )
+      .bind(presetId, presetId, ...userKeys)
       .run();
 
     // Check if delete actually removed a row (changes = 0 means no vote existed)
@@ -158,7 +174,7 @@ votesRouter.post('/:presetId', async (c) => {
   const presetId = c.req.param('presetId');
 
   // Check preset exists
-  const preset = await c.env.DB.prepare('SELECT id FROM presets WHERE id = ?')
+  const preset = await c.env.DB.prepare('SELECT id FROM presets WHERE id = ? AND deleted_at IS NULL')
     .bind(presetId)
     .first();
 
@@ -166,7 +182,7 @@ votesRouter.post('/:presetId', async (c) => {
     return notFoundResponse(c, 'Preset');
   }
 
-  const result = await addVote(c.env.DB, presetId, auth.userDiscordId!);
+  const result = await addVote(c.env.DB, presetId, getUserKeys(auth));
 
   if (result.already_voted) {
     return c.json(result, 409); // Conflict
@@ -192,7 +208,7 @@ votesRouter.delete('/:presetId', async (c) => {
   const presetId = c.req.param('presetId');
 
   // Check preset exists
-  const preset = await c.env.DB.prepare('SELECT id FROM presets WHERE id = ?')
+  const preset = await c.env.DB.prepare('SELECT id FROM presets WHERE id = ? AND deleted_at IS NULL')
     .bind(presetId)
     .first();
 
@@ -200,7 +216,7 @@ votesRouter.delete('/:presetId', async (c) => {
     return notFoundResponse(c, 'Preset');
   }
 
-  const result = await removeVote(c.env.DB, presetId, auth.userDiscordId!);
+  const result = await removeVote(c.env.DB, presetId, getUserKeys(auth));
   return c.json(result);
 });
 
@@ -220,10 +236,11 @@ votesRouter.get('/:presetId/check', async (c) => {
   const auth = c.get('auth');
   const presetId = c.req.param('presetId');
 
+  const userKeys = getUserKeys(auth);
   const vote = await c.env.DB.prepare(
-    'SELECT 1 FROM votes WHERE preset_id = ? AND user_discord_id = ?'
+    `SELECT 1 FROM votes WHERE preset_id = ? AND user_discord_id IN (${userKeys.map(() => '?').join(', ')})`
   )
-    .bind(presetId, auth.userDiscordId!)
+    .bind(presetId, ...userKeys)
     .first();
 
   return c.json({ has_voted: !!vote });
@@ -11,7 +11,13 @@ import type { Env, AuthContext } from './types.js';
 // Import route handlers
 import { presetsRouter } from './handlers/presets.js';
 import { votesRouter } from './handlers/votes.js';
+import { bookmarksRouter } from './handlers/bookmarks.js';
 import { categoriesRouter } from './handlers/categories.js';
+import { tagsRouter } from './handlers/tags.js';
+import { collectionsRouter } from './handlers/collections.js';
+import { usersRouter } from './handlers/users.js';
+import { commentsRouter } from './handlers/comments.js';
+import { appealsRouter } from './handlers/appeals.js';
 import { moderationRouter } from './handlers/moderation.js';
 
 // Import middleware
@@ -21,6 +27,9 @@ import { requestIdMiddleware, getRequestId } from './middleware/request-id.js';
 import { loggerMiddleware, getLogger } from './middleware/logger.js';
 import { validateEnv, logValidationErrors } from './utils/env-validation.js';
 import { ErrorCode } from './utils/api-response.js';
+import { releaseExpiredBans } from './services/ban-service.js';
+import { refreshTrendingScores, getTrendingHalfLifeHours } from './services/trending-service.js';
+import { purgeExpiredDeletedPresets, getRestoreWindowDays } from './services/deletion-service.js';
 
 // Extend Hono context with our custom variables
 type Variables = {
@@ -186,7 +195,13 @@ app.get('/__force-error', (c) => {
 // Mount route handlers under /api/v1
 app.route('/api/v1/presets', presetsRouter);
 app.route('/api/v1/votes', votesRouter);
+app.route('/api/v1/bookmarks', bookmarksRouter);
 app.route('/api/v1/categories', categoriesRouter);
+app.route('/api/v1/tags', tagsRouter);
+app.route('/api/v1/collections', collectionsRouter);
+app.route('/api/v1/users', usersRouter);
+app.route('/api/v1/comments', commentsRouter);
+app.route('/api/v1/appeals', appealsRouter);
 app.route('/api/v1/moderation', moderationRouter);
 
 // ============================================
@@ -233,5 +248,55 @@ app.onError((err, c) => {
   );
 });
 
+// ============================================
+// SCHEDULED JOBS
+// ============================================
+
+/**
+ * Cron trigger handler (see [triggers] in wrangler.toml)
+ * Closes expired temporary bans and restores the affected users' presets,
+ * recomputes trending scores, and purges presets past their restore window
+ */
+async function scheduled(
+  _controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<void> {
+  ctx.waitUntil(
+    releaseExpiredBans(env.DB)
+      .then((released) => {
+        if (released > 0) {
+          console.log(`Released ${released} expired ban(s)`);
+        }
+      })
+      .catch((error) => {
+        console.error('Expired ban sweep failed:', error);
+      })
+  );
+
+  ctx.waitUntil(
+    refreshTrendingScores(env.DB, getTrendingHalfLifeHours(env)).catch((error) => {
+      console.error('Trending score refresh failed:', error);
+    })
+  );
+
+  ctx.waitUntil(
+    purgeExpiredDeletedPresets(env.DB, getRestoreWindowDays(env))
+      .then((purged) => {
+        if (purged > 0) {
+          console.log(`Purged ${purged} deleted preset(s) past the restore window`);
+        }
+      })
+      .catch((error) => {
+        console.error('Deleted preset purge failed:', error);
+      })
+  );
+}
+
 // Export for Cloudflare Workers
-export default app;
+// The Hono app is also exported by name so tests can call app.request()
+export { app };
+export default {
+  fetch: app.fetch,
+  scheduled,
+} satisfies ExportedHandler<Env>;
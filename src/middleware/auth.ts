@@ -1,13 +1,15 @@
 /**
  * Authentication Middleware
  * Handles bot authentication (BOT_API_SECRET) and web authentication (JWT)
+ * Web JWTs may carry a Discord or an XIVAuth identity (or both, for linked accounts)
  *
  * REFACTOR-003: Now uses @xivdyetools/auth for JWT and bot signature verification
  */
 
 import type { Context, Next } from 'hono';
-import type { Env, AuthContext } from '../types.js';
+import type { Env, AuthContext, ModeratorPermission, ModeratorRole } from '../types.js';
 import { verifyJWT as sharedVerifyJWT, verifyBotSignature } from '@xivdyetools/auth';
+import { getModeratorRole, roleHasPermission } from '../services/moderator-service.js';
 
 type Variables = {
   auth: AuthContext;
@@ -19,10 +21,11 @@ type Variables = {
 
 /**
  * Extended JWT payload for this application
- * Includes Discord-specific fields beyond the base JWTPayload
+ * Includes Discord-specific fields beyond the base JWTPayload, plus the
+ * XIVAuth identity claims issued by the OAuth worker
  */
-interface ExtendedJWTPayload {
-  sub: string; // Discord user ID
+export interface ExtendedJWTPayload {
+  sub: string; // Discord user ID, or XIVAuth user ID when provider = 'xivauth'
   iat: number;
   exp: number;
   iss?: string;
@@ -30,6 +33,9 @@ interface ExtendedJWTPayload {
   username?: string;
   global_name?: string | null;
   avatar?: string | null;
+  provider?: 'discord' | 'xivauth'; // Identity provider used to log in (default: discord)
+  xivauth_id?: string | null; // XIVAuth user ID (XIVAuth logins or linked accounts)
+  discord_id?: string | null; // Linked Discord ID for XIVAuth logins
 }
 
 /**
@@ -54,7 +60,7 @@ async function verifyJWT(token: string, secret: string): Promise<ExtendedJWTPayl
 // ============================================
 
 /**
- * Check if a user ID is in the moderator list
+ * Check if a user ID is in the MODERATOR_IDS bootstrap list
  * Handles various formats: comma-separated, space-separated, newline-separated
  */
 function checkModerator(userDiscordId: string | undefined, moderatorIds: string): boolean {
@@ -67,6 +73,69 @@ function checkModerator(userDiscordId: string | undefined, moderatorIds: string)
   return ids.includes(userDiscordId);
 }
 
+/**
+ * Build the auth context for a verified web JWT
+ *
+ * Discord logins carry the Discord ID in `sub`; XIVAuth logins carry the
+ * XIVAuth ID in `sub` and the linked Discord ID (if any) in `discord_id`.
+ * Moderator status is always keyed on the Discord ID.
+ */
+export function authContextFromJWT(payload: ExtendedJWTPayload, moderatorIds: string): AuthContext {
+  const isXivAuth = payload.provider === 'xivauth';
+  const discordId = (isXivAuth ? payload.discord_id : payload.sub) || undefined;
+  const xivAuthId = (isXivAuth ? payload.xivauth_id || payload.sub : payload.xivauth_id) || undefined;
+
+  // Use display name if available, fallback to username
+  const displayName = payload.global_name || payload.username;
+
+  return {
+    isAuthenticated: true,
+    isModerator: checkModerator(discordId, moderatorIds),
+    userDiscordId: discordId,
+    userXivAuthId: xivAuthId,
+    userName: displayName,
+    authSource: 'web',
+  };
+}
+
+/**
+ * Check whether the authenticated user authored a preset (or comment)
+ * Matches on either identity, so linked Discord+XIVAuth accounts own presets
+ * submitted through both login methods
+ */
+export function isPresetAuthor(
+  auth: AuthContext,
+  preset: { author_discord_id: string | null; author_xivauth_id?: string | null }
+): boolean {
+  if (auth.userDiscordId && preset.author_discord_id === auth.userDiscordId) {
+    return true;
+  }
+  return !!auth.userXivAuthId && preset.author_xivauth_id === auth.userXivAuthId;
+}
+
+/**
+ * Get the key identifying the user in per-user tables (votes, bookmarks)
+ * Discord ID when known, otherwise the XIVAuth ID prefixed with "xivauth:" so it
+ * can never collide with a Discord snowflake
+ */
+export function getUserKey(auth: AuthContext): string | undefined {
+  if (auth.userDiscordId) return auth.userDiscordId;
+  if (auth.userXivAuthId) return `xivauth:${auth.userXivAuthId}`;
+  return undefined;
+}
+
+/**
+ * Get every key the user's votes and bookmarks may be stored under
+ * A linked Discord+XIVAuth account has rows under both keys if it used either
+ * one before linking. The first key is getUserKey's, which new rows use.
+ */
+export function getUserKeys(auth: AuthContext): string[] {
+  const keys: string[] = [];
+  if (auth.userDiscordId) keys.push(auth.userDiscordId);
+  if (auth.userXivAuthId) keys.push(`xivauth:${auth.userXivAuthId}`);
+  return keys;
+}
+
 // ============================================
 // MIDDLEWARE
 // ============================================
@@ -157,16 +226,7 @@ export async function authMiddleware(
       const jwtPayload = await verifyJWT(token, c.env.JWT_SECRET);
 
       if (jwtPayload) {
-        // Use display name if available, fallback to username
-        const displayName = jwtPayload.global_name || jwtPayload.username;
-
-        auth = {
-          isAuthenticated: true,
-          isModerator: checkModerator(jwtPayload.sub, c.env.MODERATOR_IDS),
-          userDiscordId: jwtPayload.sub,
-          userName: displayName,
-          authSource: 'web',
-        };
+        auth = authContextFromJWT(jwtPayload, c.env.MODERATOR_IDS);
       }
     }
   }
@@ -200,12 +260,50 @@ export function requireAuth(
 }
 
 /**
- * Require moderator privileges
- * Use as middleware on moderation routes
+ * Resolve the authenticated user's moderator role
+ *
+ * MODERATOR_IDS users are admins without a lookup; anyone else with a Discord ID
+ * is looked up in the moderators table. The result is cached on the auth context
+ * (moderatorRole, and isModerator updated to match) for the rest of the request.
  */
-export function requireModerator(
+export async function resolveModeratorRole(
   c: Context<{ Bindings: Env; Variables: Variables }>
-): Response | null {
+): Promise<ModeratorRole | null> {
+  const auth = c.get('auth');
+  if (auth.moderatorRole !== undefined) {
+    return auth.moderatorRole;
+  }
+
+  let role: ModeratorRole | null = null;
+  if (auth.isModerator) {
+    role = 'admin';
+  } else if (auth.isAuthenticated && auth.userDiscordId) {
+    role = await getModeratorRole(c.env.DB, auth.userDiscordId);
+  }
+
+  c.set('auth', { ...auth, isModerator: role !== null, moderatorRole: role });
+  return role;
+}
+
+/**
+ * Check whether the user is a moderator with a permission (any moderator when omitted)
+ */
+export async function hasModeratorPermission(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  permission?: ModeratorPermission
+): Promise<boolean> {
+  const role = await resolveModeratorRole(c);
+  return role !== null && (!permission || roleHasPermission(role, permission));
+}
+
+/**
+ * Require moderator privileges, and optionally a permission of the moderator's role
+ * Use as middleware on moderation routes
+ */
+export async function requireModerator(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  permission?: ModeratorPermission
+): Promise<Response | null> {
   const auth = c.get('auth');
 
   if (!auth.isAuthenticated) {
@@ -218,7 +316,8 @@ export function requireModerator(
     );
   }
 
-  if (!auth.isModerator) {
+  const role = await resolveModeratorRole(c);
+  if (!role) {
     return c.json(
       {
         error: 'Forbidden',
@@ -228,11 +327,21 @@ export function requireModerator(
     );
   }
 
+  if (permission && !roleHasPermission(role, permission)) {
+    return c.json(
+      {
+        error: 'Forbidden',
+        message: `The ${role} role does not have the ${permission} permission`,
+      },
+      403
+    );
+  }
+
   return null;
 }
 
 /**
- * Require user Discord ID in auth context
+ * Require a user identity (Discord or XIVAuth ID) in auth context
  * For endpoints that need to know who is making the request
  * Works for both bot auth (from header) and web auth (from JWT)
  */
@@ -241,7 +350,7 @@ export function requireUserContext(
 ): Response | null {
   const auth = c.get('auth');
 
-  if (!auth.userDiscordId) {
+  if (!auth.userDiscordId && !auth.userXivAuthId) {
     return c.json(
       {
         error: 'Bad Request',
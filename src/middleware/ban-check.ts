@@ -8,11 +8,11 @@
  * - POST /api/v1/presets (submit)
  * - PATCH /api/v1/presets/:id (edit)
  * - POST /api/v1/votes/:presetId (vote)
+ * - POST /api/v1/presets/:id/comments, PATCH /api/v1/comments/:id (comment)
  */
 
 import type { Context, Next } from 'hono';
-import type { Env } from '../types.js';
-import type { AuthContext } from '@xivdyetools/types';
+import type { Env, AuthContext } from '../types.js';
 import { ErrorCode } from '../utils/api-response.js';
 
 type Variables = {
@@ -20,16 +20,27 @@ type Variables = {
 };
 
 /**
- * Check if a Discord user is currently banned
+ * Check if a user is currently banned under either of their identities
+ *
+ * A ban on the Discord ID also applies to a linked XIVAuth login and vice versa.
+ * Temporary bans stop being enforced once expires_at passes, even before the
+ * scheduled sweep closes them (see releaseExpiredBans in ban-service).
  *
  * @param db - D1 database binding
- * @param discordId - Discord user ID to check
+ * @param discordId - Discord user ID to check (optional)
+ * @param xivAuthId - XIVAuth user ID to check (optional)
  * @returns True if user is banned, false otherwise
  */
-async function isUserBanned(db: D1Database, discordId: string): Promise<boolean> {
+async function isUserBanned(
+  db: D1Database,
+  discordId: string | undefined,
+  xivAuthId?: string
+): Promise<boolean> {
   const result = await db
-    .prepare('SELECT 1 FROM banned_users WHERE discord_id = ? AND unbanned_at IS NULL LIMIT 1')
-    .bind(discordId)
+    .prepare(
+      'SELECT 1 FROM banned_users WHERE (discord_id = ? OR xivauth_id = ?) AND unbanned_at IS NULL AND (expires_at IS NULL OR expires_at > ?) LIMIT 1'
+    )
+    .bind(discordId ?? null, xivAuthId ?? null, new Date().toISOString())
     .first();
   return result !== null;
 }
@@ -37,7 +48,7 @@ async function isUserBanned(db: D1Database, discordId: string): Promise<boolean>
 /**
  * Middleware that blocks banned users from making requests
  *
- * Checks the authenticated user's Discord ID against the banned_users table.
+ * Checks the authenticated user's Discord and XIVAuth IDs against the banned_users table.
  * If the user is banned, returns 403 Forbidden with an error message.
  *
  * Usage:
@@ -61,13 +72,13 @@ export async function requireNotBanned(
   }
 
   // If no user ID, let other middleware handle it
-  if (!auth.userDiscordId) {
+  if (!auth.userDiscordId && !auth.userXivAuthId) {
     return next();
   }
 
   // Check if user is banned
   try {
-    const banned = await isUserBanned(c.env.DB, auth.userDiscordId);
+    const banned = await isUserBanned(c.env.DB, auth.userDiscordId, auth.userXivAuthId);
 
     if (banned) {
       return c.json(
@@ -95,11 +106,16 @@ export async function requireNotBanned(
  *
  * @param db - D1 database binding
  * @param discordId - Discord user ID to check
+ * @param xivAuthId - XIVAuth user ID to check (optional)
  * @returns True if user is banned
  */
-export async function checkBanStatus(db: D1Database, discordId: string): Promise<boolean> {
+export async function checkBanStatus(
+  db: D1Database,
+  discordId: string | undefined,
+  xivAuthId?: string
+): Promise<boolean> {
   try {
-    return await isUserBanned(db, discordId);
+    return await isUserBanned(db, discordId, xivAuthId);
   } catch {
     return false;
   }
@@ -135,12 +151,12 @@ export async function requireNotBannedCheck(
   const auth = c.get('auth');
 
   // If no user ID, nothing to check (let other guards handle it)
-  if (!auth?.userDiscordId) {
+  if (!auth?.userDiscordId && !auth?.userXivAuthId) {
     return null;
   }
 
   try {
-    const banned = await isUserBanned(c.env.DB, auth.userDiscordId);
+    const banned = await isUserBanned(c.env.DB, auth.userDiscordId, auth.userXivAuthId);
 
     if (banned) {
       return c.json(
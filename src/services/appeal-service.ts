@@ -0,0 +1,305 @@
+/**
+ * Appeal Service
+ * Appeals against rejected presets and active bans (migration 0020)
+ *
+ * A target has at most one open appeal, and a denied appeal is final for the
+ * decision it was filed against (see hasPendingOrDeniedAppeal). The
+ * moderation handler reverses the decision when an appeal is accepted.
+ * Submissions and decisions are written to moderation_log (migration 0024).
+ */
+
+import type {
+  Appeal,
+  AppealFilters,
+  AppealListResponse,
+  AppealRow,
+  AppealStatus,
+  AppealTargetType,
+  AuthContext,
+} from '../types.js';
+
+/**
+ * SQL condition (bound to an appeal ID) that holds while the appeal is open
+ * Every write of a submission or decision checks it, so of two concurrent
+ * decisions on the same appeal only the first applies.
+ */
+export const OPEN_APPEAL_CONDITION = "EXISTS (SELECT 1 FROM appeals WHERE id = ? AND status = 'open')";
+
+/**
+ * Statement that writes an appeal step to moderation_log, if the appeal is open
+ * Ban appeal entries have no preset_id.
+ *
+ * @param actorId - The appellant for submissions, the reviewing moderator for decisions
+ */
+function appealLogStatement(
+  db: D1Database,
+  appeal: Pick<Appeal, 'id' | 'target_type' | 'target_id'>,
+  actorId: string,
+  action: 'appeal_submit' | 'appeal_accept' | 'appeal_deny',
+  reason: string | null,
+  now: string
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO moderation_log (id, preset_id, appeal_id, moderator_discord_id, action, reason, created_at)
+       SELECT ?, ?, ?, ?, ?, ?, ? WHERE ${OPEN_APPEAL_CONDITION}`
+    )
+    .bind(
+      crypto.randomUUID(),
+      appeal.target_type === 'preset' ? appeal.target_id : null,
+      appeal.id,
+      actorId,
+      action,
+      reason,
+      now,
+      appeal.id
+    );
+}
+
+/**
+ * Convert database row to Appeal
+ */
+export function rowToAppeal(row: AppealRow): Appeal {
+  return {
+    id: row.id,
+    target_type: row.target_type as AppealTargetType,
+    target_id: row.target_id,
+    appellant_discord_id: row.appellant_discord_id,
+    appellant_xivauth_id: row.appellant_xivauth_id,
+    appellant_name: row.appellant_name,
+    message: row.message,
+    status: row.status as AppealStatus,
+    created_at: row.created_at,
+    reviewed_at: row.reviewed_at,
+    reviewer_discord_id: row.reviewer_discord_id,
+    review_reason: row.review_reason,
+  };
+}
+
+/**
+ * Check whether a decision has an open or denied appeal
+ * Accepted appeals don't count - the decision they reversed no longer stands.
+ * A preset can be rejected again after an edit, so for presets only appeals
+ * filed since its latest 'reject' log entry count; a denied appeal is final
+ * for the rejection it was filed against, not for later ones.
+ */
+export async function hasPendingOrDeniedAppeal(
+  db: D1Database,
+  targetType: AppealTargetType,
+  targetId: string
+): Promise<boolean> {
+  const row = await db
+    .prepare(
+      `SELECT 1 FROM appeals WHERE target_type = ? AND target_id = ? AND (
+         status = 'open'
+         OR (status = 'denied' AND (target_type != 'preset' OR created_at >= COALESCE(
+           (SELECT MAX(created_at) FROM moderation_log WHERE preset_id = appeals.target_id AND action = 'reject'),
+           ''
+         )))
+       )
+       LIMIT 1`
+    )
+    .bind(targetType, targetId)
+    .first();
+  return row !== null;
+}
+
+/**
+ * Submit an appeal
+ *
+ * PRESETS-PERF-001: Using batch() for atomicity - the appeal and its log entry
+ * are written together (the entry only if the appeal was).
+ *
+ * @returns The new appeal, or null if the target already has an open appeal
+ */
+export async function createAppeal(
+  db: D1Database,
+  targetType: AppealTargetType,
+  targetId: string,
+  appellant: AuthContext,
+  message: string
+): Promise<Appeal | null> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const appellantName = appellant.userName?.trim() || 'Unknown User';
+
+  const results = await db.batch([
+    db
+      .prepare(
+        `INSERT INTO appeals
+          (id, target_type, target_id, appellant_discord_id, appellant_xivauth_id, appellant_name, message, status, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'open', ?)
+         ON CONFLICT DO NOTHING`
+      )
+      .bind(
+        id,
+        targetType,
+        targetId,
+        appellant.userDiscordId ?? null,
+        appellant.userXivAuthId ?? null,
+        appellantName,
+        message,
+        now
+      ),
+    appealLogStatement(
+      db,
+      { id, target_type: targetType, target_id: targetId },
+      (appellant.userDiscordId ?? appellant.userXivAuthId)!,
+      'appeal_submit',
+      null,
+      now
+    ),
+  ]);
+
+  if ((results[0]?.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  return {
+    id,
+    target_type: targetType,
+    target_id: targetId,
+    appellant_discord_id: appellant.userDiscordId ?? null,
+    appellant_xivauth_id: appellant.userXivAuthId ?? null,
+    appellant_name: appellantName,
+    message,
+    status: 'open',
+    created_at: now,
+    reviewed_at: null,
+    reviewer_discord_id: null,
+    review_reason: null,
+  };
+}
+
+/**
+ * Get an appeal by ID
+ */
+export async function getAppealById(db: D1Database, id: string): Promise<Appeal | null> {
+  const row = await db.prepare('SELECT * FROM appeals WHERE id = ?').bind(id).first<AppealRow>();
+  return row ? rowToAppeal(row) : null;
+}
+
+/**
+ * Get a user's own appeals, newest first
+ * Matches either identity so linked Discord+XIVAuth accounts see all their appeals
+ */
+export async function getUserAppeals(db: D1Database, user: AuthContext): Promise<Appeal[]> {
+  const result = await db
+    .prepare(
+      `SELECT * FROM appeals
+       WHERE appellant_discord_id = ? OR appellant_xivauth_id = ?
+       ORDER BY created_at DESC`
+    )
+    .bind(user.userDiscordId ?? null, user.userXivAuthId ?? null)
+    .all<AppealRow>();
+  return (result.results || []).map(rowToAppeal);
+}
+
+/**
+ * List appeals for the moderator queue, oldest first
+ */
+export async function getAppeals(db: D1Database, filters: AppealFilters): Promise<AppealListResponse> {
+  const { status = 'open', page = 1, limit = 20 } = filters;
+
+  const whereClause = status === 'all' ? '' : 'WHERE status = ?';
+  const params: (string | number)[] = status === 'all' ? [] : [status];
+  const offset = (page - 1) * limit;
+
+  // PERFORMANCE: Window function returns the total alongside the page (see getPresets)
+  const query = `
+    SELECT *, COUNT(*) OVER() as _total
+    FROM appeals
+    ${whereClause}
+    ORDER BY created_at ASC
+    LIMIT ? OFFSET ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(...params, limit, offset)
+    .all<AppealRow & { _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+  const appeals = rows.map(rowToAppeal);
+
+  return {
+    appeals,
+    total,
+    page,
+    limit,
+    has_more: offset + appeals.length < total,
+  };
+}
+
+/**
+ * Statement that re-approves an appealed preset, if it is still rejected and the appeal open
+ */
+export function approveAppealedPresetStatement(
+  db: D1Database,
+  appeal: Pick<Appeal, 'id' | 'target_id'>,
+  now: string
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `UPDATE presets
+       SET status = 'approved', updated_at = ?
+       WHERE id = ? AND status = 'rejected' AND deleted_at IS NULL AND ${OPEN_APPEAL_CONDITION}`
+    )
+    .bind(now, appeal.target_id, appeal.id);
+}
+
+/**
+ * Record a moderator's decision on an open appeal
+ *
+ * PRESETS-PERF-001: Using batch() for atomicity - the log entry, the statements
+ * reversing the appealed decision, and the appeal's new status apply together.
+ * The appeal is closed last, so every earlier statement still sees it open.
+ *
+ * @param reversal - Statements that reverse the decision on accept; each must check OPEN_APPEAL_CONDITION
+ * @returns The reviewed appeal and the reversal statements' results, or null if the appeal was no longer open
+ */
+export async function reviewAppeal(
+  db: D1Database,
+  appeal: Appeal,
+  status: Exclude<AppealStatus, 'open'>,
+  reviewerDiscordId: string,
+  reason: string,
+  reversal: D1PreparedStatement[] = []
+): Promise<{ appeal: Appeal; reversalResults: D1Result[] } | null> {
+  const now = new Date().toISOString();
+
+  const results = await db.batch([
+    appealLogStatement(
+      db,
+      appeal,
+      reviewerDiscordId,
+      status === 'accepted' ? 'appeal_accept' : 'appeal_deny',
+      reason,
+      now
+    ),
+    ...reversal,
+    db
+      .prepare(
+        `UPDATE appeals
+         SET status = ?, reviewed_at = ?, reviewer_discord_id = ?, review_reason = ?
+         WHERE id = ? AND status = 'open'`
+      )
+      .bind(status, now, reviewerDiscordId, reason, appeal.id),
+  ]);
+
+  if ((results[results.length - 1]?.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  return {
+    appeal: {
+      ...appeal,
+      status,
+      reviewed_at: now,
+      reviewer_discord_id: reviewerDiscordId,
+      review_reason: reason,
+    },
+    reversalResults: results.slice(1, -1),
+  };
+}
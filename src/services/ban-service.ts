@@ -0,0 +1,388 @@
+/**
+ * Ban Service
+ * Handles issuing, lifting, and listing user bans for Preset Palettes
+ *
+ * Banning a user hides all of their presets (status = 'hidden') and remembers
+ * each preset's prior status in presets.pre_ban_status so that lifting the ban
+ * restores them exactly.
+ *
+ * Temporary bans carry an expires_at timestamp. They stop being enforced as soon
+ * as it passes (see ban-check middleware), and releaseExpiredBans() - run by the
+ * scheduled handler - closes them and restores the user's presets.
+ *
+ * Users are identified by Discord ID and/or XIVAuth ID. Lookups by "user ID"
+ * match either column, so moderators can pass whichever identifier they have.
+ */
+
+import type { BannedUserRow, UserBan, BanDuration, BanFilters, BanListResponse } from '../types.js';
+import { OPEN_APPEAL_CONDITION } from './appeal-service.js';
+
+/**
+ * Length of each temporary ban duration in milliseconds
+ */
+export const BAN_DURATION_MS: Record<Exclude<BanDuration, 'permanent'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Most expired bans released per sweep; a backlog is worked off over several
+ * scheduled runs instead of one oversized batch
+ */
+export const RELEASE_SWEEP_LIMIT = 50;
+
+/**
+ * Compute the expiry timestamp for a ban duration
+ *
+ * @returns ISO timestamp, or null for permanent bans
+ */
+export function getBanExpiry(duration: BanDuration | undefined, from: Date = new Date()): string | null {
+  if (!duration || duration === 'permanent') {
+    return null;
+  }
+  return new Date(from.getTime() + BAN_DURATION_MS[duration]).toISOString();
+}
+
+/**
+ * Convert database row to UserBan
+ * A ban is active until it is lifted or its expiry passes
+ */
+export function rowToBan(row: BannedUserRow, now: Date = new Date()): UserBan {
+  const expiresAt = row.expires_at ?? null;
+  const msRemaining = expiresAt ? new Date(expiresAt).getTime() - now.getTime() : null;
+  const isActive = row.unbanned_at === null && (msRemaining === null || msRemaining > 0);
+
+  return {
+    id: row.id,
+    discord_id: row.discord_id,
+    xivauth_id: row.xivauth_id,
+    username: row.username,
+    moderator_discord_id: row.moderator_discord_id,
+    reason: row.reason,
+    banned_at: row.banned_at,
+    unbanned_at: row.unbanned_at,
+    unban_moderator_discord_id: row.unban_moderator_discord_id,
+    expires_at: expiresAt,
+    is_active: isActive,
+    remaining_seconds: isActive && msRemaining !== null ? Math.ceil(msRemaining / 1000) : null,
+  };
+}
+
+/**
+ * Statement that restores a user's ban-hidden presets to their pre-ban status
+ * Presets that were already hidden when the ban was issued have no pre_ban_status
+ * (see banUser) and stay hidden, so moderator takedowns survive the unban.
+ *
+ * @param openAppealId - Only restore while this appeal is still open (see liftBanStatements)
+ */
+function restorePresetsStatement(
+  db: D1Database,
+  discordId: string | null,
+  xivAuthId: string | null,
+  now: string,
+  openAppealId?: string
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `UPDATE presets
+       SET status = pre_ban_status, pre_ban_status = NULL, updated_at = ?
+       WHERE (author_discord_id = ? OR author_xivauth_id = ?) AND status = 'hidden'
+         AND pre_ban_status IS NOT NULL${openAppealId ? ` AND ${OPEN_APPEAL_CONDITION}` : ''}`
+    )
+    .bind(now, discordId, xivAuthId, ...(openAppealId ? [openAppealId] : []));
+}
+
+/**
+ * Statements that lift an active ban and restore the user's presets
+ *
+ * @param openAppealId - Lifting to accept this appeal: the statements only apply
+ * while it is still open, so they can share a batch with the appeal decision
+ */
+export function liftBanStatements(
+  db: D1Database,
+  ban: UserBan,
+  moderatorDiscordId: string,
+  now: string,
+  openAppealId?: string
+): D1PreparedStatement[] {
+  return [
+    db
+      .prepare(
+        `UPDATE banned_users
+         SET unbanned_at = ?, unban_moderator_discord_id = ?
+         WHERE id = ? AND unbanned_at IS NULL${openAppealId ? ` AND ${OPEN_APPEAL_CONDITION}` : ''}`
+      )
+      .bind(now, moderatorDiscordId, ban.id, ...(openAppealId ? [openAppealId] : [])),
+    restorePresetsStatement(db, ban.discord_id, ban.xivauth_id, now, openAppealId),
+  ];
+}
+
+/**
+ * The ban as it reads after liftBanStatements() applied
+ */
+export function toLiftedBan(ban: UserBan, moderatorDiscordId: string, now: string): UserBan {
+  return {
+    ...ban,
+    unbanned_at: now,
+    unban_moderator_discord_id: moderatorDiscordId,
+    is_active: false,
+    remaining_seconds: null,
+  };
+}
+
+/**
+ * Get a ban by ID, active or not
+ */
+export async function getBanById(db: D1Database, id: string): Promise<UserBan | null> {
+  const row = await db.prepare('SELECT * FROM banned_users WHERE id = ?').bind(id).first<BannedUserRow>();
+  return row ? rowToBan(row) : null;
+}
+
+/**
+ * Get the active (unexpired) ban for a user, if any
+ *
+ * @param userId - Discord ID or XIVAuth ID
+ */
+export async function getActiveBan(
+  db: D1Database,
+  userId: string
+): Promise<UserBan | null> {
+  const query = `
+    SELECT * FROM banned_users
+    WHERE (discord_id = ? OR xivauth_id = ?) AND unbanned_at IS NULL
+      AND (expires_at IS NULL OR expires_at > ?)
+    LIMIT 1
+  `;
+  const row = await db
+    .prepare(query)
+    .bind(userId, userId, new Date().toISOString())
+    .first<BannedUserRow>();
+  return row ? rowToBan(row) : null;
+}
+
+/**
+ * Look up the most recent display name a user submitted presets under
+ * Used as the ban username when the moderator doesn't provide one
+ */
+export async function getLatestAuthorName(
+  db: D1Database,
+  discordId: string | null,
+  xivAuthId: string | null = null
+): Promise<string | null> {
+  const row = await db
+    .prepare(
+      `SELECT author_name FROM presets
+       WHERE (author_discord_id = ? OR author_xivauth_id = ?) AND author_name IS NOT NULL
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .bind(discordId, xivAuthId)
+    .first<{ author_name: string }>();
+  return row?.author_name ?? null;
+}
+
+/**
+ * Ban a user and hide all of their presets
+ *
+ * PRESETS-PERF-001: Using batch() for atomicity - the ban record and the
+ * preset status changes either both apply or neither does.
+ *
+ * Throws if the user already has an active ban (UNIQUE partial indexes on
+ * banned_users.discord_id and xivauth_id); callers should check getActiveBan() first.
+ */
+export async function banUser(
+  db: D1Database,
+  params: {
+    discordId: string | null;
+    xivAuthId?: string | null;
+    username: string;
+    reason: string;
+    moderatorDiscordId: string;
+    duration?: BanDuration;
+  }
+): Promise<{ ban: UserBan; presetsHidden: number }> {
+  const id = crypto.randomUUID();
+  const bannedAt = new Date();
+  const now = bannedAt.toISOString();
+  const expiresAt = getBanExpiry(params.duration, bannedAt);
+  const xivAuthId = params.xivAuthId ?? null;
+
+  const results = await db.batch([
+    db
+      .prepare(
+        `INSERT INTO banned_users (id, discord_id, xivauth_id, username, moderator_discord_id, reason, banned_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        params.discordId,
+        xivAuthId,
+        params.username,
+        params.moderatorDiscordId,
+        params.reason,
+        now,
+        expiresAt
+      ),
+    db
+      .prepare(
+        `UPDATE presets
+         SET pre_ban_status = status, status = 'hidden', updated_at = ?
+         WHERE (author_discord_id = ? OR author_xivauth_id = ?) AND status != 'hidden'`
+      )
+      .bind(now, params.discordId, xivAuthId),
+  ]);
+
+  return {
+    ban: rowToBan(
+      {
+        id,
+        discord_id: params.discordId,
+        xivauth_id: xivAuthId,
+        username: params.username,
+        moderator_discord_id: params.moderatorDiscordId,
+        reason: params.reason,
+        banned_at: now,
+        unbanned_at: null,
+        unban_moderator_discord_id: null,
+        expires_at: expiresAt,
+      },
+      bannedAt
+    ),
+    presetsHidden: results[1]?.meta?.changes ?? 0,
+  };
+}
+
+/**
+ * Lift a user's active ban and restore their presets to their pre-ban status
+ *
+ * @param userId - Discord ID or XIVAuth ID
+ * @returns The lifted ban and number of restored presets, or null if the user has no active ban
+ */
+export async function unbanUser(
+  db: D1Database,
+  userId: string,
+  moderatorDiscordId: string
+): Promise<{ ban: UserBan; presetsRestored: number } | null> {
+  const activeBan = await getActiveBan(db, userId);
+  if (!activeBan) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+
+  const results = await db.batch(liftBanStatements(db, activeBan, moderatorDiscordId, now));
+
+  return {
+    ban: toLiftedBan(activeBan, moderatorDiscordId, now),
+    presetsRestored: results[1]?.meta?.changes ?? 0,
+  };
+}
+
+/**
+ * List bans with pagination, newest first
+ */
+export async function getBans(
+  db: D1Database,
+  filters: BanFilters
+): Promise<BanListResponse> {
+  const { status = 'active', page = 1, limit = 20 } = filters;
+
+  const now = new Date();
+  const whereClause =
+    status === 'all' ? '' : 'WHERE unbanned_at IS NULL AND (expires_at IS NULL OR expires_at > ?)';
+  const params: (string | number)[] = status === 'all' ? [] : [now.toISOString()];
+  const offset = (page - 1) * limit;
+
+  // PERFORMANCE: Window function returns the total alongside the page (see getPresets)
+  const query = `
+    SELECT *, COUNT(*) OVER() as _total
+    FROM banned_users
+    ${whereClause}
+    ORDER BY banned_at DESC
+    LIMIT ? OFFSET ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(...params, limit, offset)
+    .all<BannedUserRow & { _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+  const bans = rows.map((row) => rowToBan(row, now));
+
+  return {
+    bans,
+    total,
+    page,
+    limit,
+    has_more: offset + bans.length < total,
+  };
+}
+
+/**
+ * Get the full ban history for a user (active and lifted), newest first
+ *
+ * @param userId - Discord ID or XIVAuth ID
+ */
+export async function getUserBanHistory(
+  db: D1Database,
+  userId: string
+): Promise<UserBan[]> {
+  const query = `
+    SELECT * FROM banned_users
+    WHERE discord_id = ? OR xivauth_id = ?
+    ORDER BY banned_at DESC
+  `;
+  const result = await db.prepare(query).bind(userId, userId).all<BannedUserRow>();
+  const now = new Date();
+  return (result.results || []).map((row) => rowToBan(row, now));
+}
+
+/**
+ * Close temporary bans whose expiry has passed and restore the users' presets
+ *
+ * Expired bans are closed with unbanned_at = expires_at and no unban moderator,
+ * which distinguishes them from bans lifted by hand. Runs from the scheduled
+ * handler, and for a single user before issuing them a new ban (the unique
+ * active-ban index would otherwise reject it). At most RELEASE_SWEEP_LIMIT bans,
+ * oldest expiry first, are released per call.
+ *
+ * @param userId - Only release this user's expired ban - Discord ID or XIVAuth ID (optional)
+ * @returns Number of bans released
+ */
+export async function releaseExpiredBans(db: D1Database, userId?: string): Promise<number> {
+  const now = new Date().toISOString();
+
+  const conditions = ['unbanned_at IS NULL', 'expires_at IS NOT NULL', 'expires_at <= ?'];
+  const params: (string | number)[] = [now];
+  if (userId) {
+    conditions.push('(discord_id = ? OR xivauth_id = ?)');
+    params.push(userId, userId);
+  }
+
+  const result = await db
+    .prepare(`SELECT * FROM banned_users WHERE ${conditions.join(' AND ')} ORDER BY expires_at ASC LIMIT ?`)
+    .bind(...params, RELEASE_SWEEP_LIMIT)
+    .all<BannedUserRow>();
+  const expired = result.results || [];
+
+  if (expired.length === 0) {
+    return 0;
+  }
+
+  const statements: D1PreparedStatement[] = [];
+  for (const ban of expired) {
+    statements.push(
+      db
+        .prepare('UPDATE banned_users SET unbanned_at = expires_at WHERE id = ? AND unbanned_at IS NULL')
+        .bind(ban.id)
+    );
+    statements.push(restorePresetsStatement(db, ban.discord_id, ban.xivauth_id, now));
+  }
+
+  // Atomic per sweep: a ban is never closed without its presets being restored
+  await db.batch(statements);
+
+  return expired.length;
+}
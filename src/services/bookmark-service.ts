@@ -0,0 +1,158 @@
+/**
+ * Bookmark Service
+ * Private per-user bookmarks (migration 0016)
+ *
+ * Bookmarks are keyed by user key like votes, and looked up under all of a
+ * user's keys (see getUserKeys) so linked accounts share them. They never touch
+ * vote_count or trending_score. Bookmarks of presets that are no longer visible
+ * are kept and left out of listings, like collection entries.
+ */
+
+import type { BookmarkedPreset, BookmarkListResponse, PresetRow } from '../types.js';
+import { rowToPreset } from './preset-service.js';
+
+/**
+ * Most preset IDs accepted by a single "is bookmarked" check
+ */
+export const MAX_BOOKMARK_CHECK_IDS = 100;
+
+/**
+ * Most parameters D1 binds per statement; lookups leave room for the user keys
+ */
+const MAX_BOUND_PARAMETERS = 100;
+
+/**
+ * "?, ?" placeholders for a user's keys
+ */
+function keyPlaceholders(userKeys: string[]): string {
+  return userKeys.map(() => '?').join(', ');
+}
+
+/**
+ * Bookmark a preset
+ *
+ * Stored under the first key, unless any of the keys already has the bookmark
+ *
+ * @returns false if the preset was already bookmarked
+ */
+export async function addBookmark(db: D1Database, userKeys: string[], presetId: string): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `INSERT INTO bookmarks (user_key, preset_id, created_at)
+       SELECT ?, ?, ?
+       WHERE NOT EXISTS (SELECT 1 FROM bookmarks WHERE user_key IN (${keyPlaceholders(userKeys)}) AND preset_id = ?)
+       ON CONFLICT DO NOTHING`
+    )
+    .bind(userKeys[0], presetId, new Date().toISOString(), ...userKeys, presetId)
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Remove a bookmark
+ *
+ * Removes it under every key the user has it under
+ *
+ * @returns false if the preset wasn't bookmarked
+ */
+export async function removeBookmark(db: D1Database, userKeys: string[], presetId: string): Promise<boolean> {
+  const result = await db
+    .prepare(`DELETE FROM bookmarks WHERE user_key IN (${keyPlaceholders(userKeys)}) AND preset_id = ?`)
+    .bind(...userKeys, presetId)
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Get a user's bookmarked presets, most recently bookmarked first
+ * Only approved, non-deleted presets are returned and counted, each once even
+ * if it is bookmarked under more than one of the user's keys.
+ */
+export async function getBookmarks(
+  db: D1Database,
+  userKeys: string[],
+  options: { page?: number; limit?: number } = {}
+): Promise<BookmarkListResponse> {
+  const { page = 1, limit = 20 } = options;
+  const offset = (page - 1) * limit;
+
+  // PERFORMANCE: Window function returns the total alongside the page (see getPresets)
+  const query = `
+    SELECT p.*, MAX(b.created_at) AS bookmarked_at, COUNT(*) OVER() as _total
+    FROM bookmarks b
+    JOIN presets p ON p.id = b.preset_id
+    WHERE b.user_key IN (${keyPlaceholders(userKeys)}) AND p.status = 'approved' AND p.deleted_at IS NULL
+    GROUP BY p.id
+    ORDER BY bookmarked_at DESC
+    LIMIT ? OFFSET ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(...userKeys, limit, offset)
+    .all<PresetRow & { bookmarked_at: string; _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+  const presets: BookmarkedPreset[] = rows.map((row) => ({
+    ...rowToPreset(row),
+    bookmarked_at: row.bookmarked_at,
+  }));
+
+  return {
+    presets,
+    total,
+    page,
+    limit,
+    has_more: offset + presets.length < total,
+  };
+}
+
+/**
+ * Which of the given presets the user has bookmarked, for marking list pages
+ *
+ * @returns Every requested ID mapped to whether it is bookmarked
+ */
+export async function getBookmarkedStatus(
+  db: D1Database,
+  userKeys: string[],
+  presetIds: string[]
+): Promise<Record<string, boolean>> {
+  const status: Record<string, boolean> = {};
+  for (const id of presetIds) {
+    status[id] = false;
+  }
+
+  if (presetIds.length === 0) {
+    return status;
+  }
+
+  const idsPerQuery = MAX_BOUND_PARAMETERS - userKeys.length;
+  const chunks: string[][] = [];
+  for (let i = 0; i < presetIds.length; i += idsPerQuery) {
+    chunks.push(presetIds.slice(i, i + idsPerQuery));
+  }
+
+  const results = await Promise.all(
+    chunks.map((ids) => {
+      const placeholders = ids.map(() => '?').join(', ');
+      return db
+        .prepare(
+          `SELECT DISTINCT preset_id FROM bookmarks
+           WHERE user_key IN (${keyPlaceholders(userKeys)}) AND preset_id IN (${placeholders})`
+        )
+        .bind(...userKeys, ...ids)
+        .all<{ preset_id: string }>();
+    })
+  );
+
+  for (const result of results) {
+    for (const row of result.results || []) {
+      status[row.preset_id] = true;
+    }
+  }
+
+  return status;
+}
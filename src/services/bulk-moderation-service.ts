@@ -0,0 +1,48 @@
+/**
+ * Bulk Moderation Service
+ * Applies one status change to many presets at once (PATCH /moderation/bulk/status)
+ */
+
+import type { PresetStatus } from '../types.js';
+
+/**
+ * One preset's part of a bulk status change
+ */
+export interface BulkStatusChange {
+  presetId: string;
+  /** moderation_log action, e.g. 'approve' or 'unflag' */
+  action: string;
+}
+
+/**
+ * Set the status of several presets, logging each one
+ *
+ * PRESETS-PERF-001: Using batch() for atomicity - every preset is updated and
+ * logged, or none are. Claims on the presets are released as they've now been handled.
+ */
+export async function applyBulkStatusChange(
+  db: D1Database,
+  changes: BulkStatusChange[],
+  status: PresetStatus,
+  moderatorDiscordId: string,
+  reason: string
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+
+  await db.batch(
+    changes.flatMap(({ presetId, action }) => [
+      db.prepare('UPDATE presets SET status = ?, updated_at = ? WHERE id = ?').bind(status, now, presetId),
+      db
+        .prepare(
+          `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .bind(crypto.randomUUID(), presetId, moderatorDiscordId, action, reason, now),
+      db.prepare('DELETE FROM moderation_claims WHERE preset_id = ?').bind(presetId),
+    ])
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Claim Service
+ * Short-lived moderator claims on pending presets (migration 0019)
+ *
+ * A claim stops two moderators handling the same preset at once. Claims expire
+ * after CLAIM_DURATION_MINUTES; claiming again extends your own claim.
+ */
+
+import type { ClaimResult, ModerationClaim, ModerationClaimRow } from '../types.js';
+
+/**
+ * How long a claim lasts
+ */
+export const CLAIM_DURATION_MINUTES = 10;
+
+/**
+ * Get the active claim on a preset, if any
+ */
+export async function getActiveClaim(
+  db: D1Database,
+  presetId: string,
+  now: Date = new Date()
+): Promise<ModerationClaim | null> {
+  return db
+    .prepare('SELECT * FROM moderation_claims WHERE preset_id = ? AND expires_at > ?')
+    .bind(presetId, now.toISOString())
+    .first<ModerationClaimRow>();
+}
+
+/**
+ * Get every active claim, keyed by preset ID
+ */
+export async function getActiveClaims(
+  db: D1Database,
+  now: Date = new Date()
+): Promise<Map<string, ModerationClaim>> {
+  const result = await db
+    .prepare('SELECT * FROM moderation_claims WHERE expires_at > ?')
+    .bind(now.toISOString())
+    .all<ModerationClaimRow>();
+  return new Map((result.results || []).map((claim) => [claim.preset_id, claim]));
+}
+
+/**
+ * Claim a preset, or extend your existing claim
+ *
+ * The upsert only replaces an expired claim or one held by the same moderator,
+ * so two concurrent claims can't both succeed.
+ */
+export async function claimPreset(
+  db: D1Database,
+  presetId: string,
+  moderatorDiscordId: string,
+  now: Date = new Date()
+): Promise<ClaimResult> {
+  const claimedAt = now.toISOString();
+  const expiresAt = new Date(now.getTime() + CLAIM_DURATION_MINUTES * 60 * 1000).toISOString();
+
+  const result = await db
+    .prepare(
+      `INSERT INTO moderation_claims (preset_id, moderator_discord_id, claimed_at, expires_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(preset_id) DO UPDATE SET
+         moderator_discord_id = excluded.moderator_discord_id,
+         claimed_at = excluded.claimed_at,
+         expires_at = excluded.expires_at
+       WHERE moderation_claims.expires_at <= ?
+         OR moderation_claims.moderator_discord_id = excluded.moderator_discord_id`
+    )
+    .bind(presetId, moderatorDiscordId, claimedAt, expiresAt, claimedAt)
+    .run();
+
+  if ((result.meta?.changes ?? 0) > 0) {
+    return {
+      claimed: true,
+      claim: {
+        preset_id: presetId,
+        moderator_discord_id: moderatorDiscordId,
+        claimed_at: claimedAt,
+        expires_at: expiresAt,
+      },
+    };
+  }
+
+  // Someone else holds an active claim
+  const existing = await getActiveClaim(db, presetId, now);
+  if (!existing) {
+    // It was released between the two queries - try again
+    return claimPreset(db, presetId, moderatorDiscordId, now);
+  }
+  return { claimed: false, claim: existing };
+}
+
+/**
+ * Release a claim
+ *
+ * @param moderatorDiscordId - Only release the claim if this moderator holds it
+ *   (omit to release whoever holds it)
+ * @returns false if there was no matching claim
+ */
+export async function releaseClaim(
+  db: D1Database,
+  presetId: string,
+  moderatorDiscordId?: string
+): Promise<boolean> {
+  const result = moderatorDiscordId
+    ? await db
+        .prepare('DELETE FROM moderation_claims WHERE preset_id = ? AND moderator_discord_id = ?')
+        .bind(presetId, moderatorDiscordId)
+        .run()
+    : await db.prepare('DELETE FROM moderation_claims WHERE preset_id = ?').bind(presetId).run();
+
+  return (result.meta?.changes ?? 0) > 0;
+}
@@ -0,0 +1,276 @@
+/**
+ * Collection Service
+ * User-owned, ordered lists of presets (migration 0015)
+ *
+ * Membership rows are kept for presets that become hidden, unapproved, or
+ * soft-deleted, but only visible presets (approved and not deleted) are read
+ * back or counted, so a restored preset reappears in place.
+ */
+
+import type {
+  Collection,
+  CollectionRow,
+  CollectionCreateRequest,
+  CollectionUpdateRequest,
+  ExtendedPreset,
+  PresetRow,
+} from '../types.js';
+import { rowToPreset } from './preset-service.js';
+
+/**
+ * Condition for presets that may be shown in a collection (presets aliased as p)
+ * Ban-hidden presets have status 'hidden', so they fail the status check too.
+ */
+const VISIBLE_PRESET_CONDITION = "p.status = 'approved' AND p.deleted_at IS NULL";
+
+/**
+ * Collection columns plus the visible preset count (collections aliased as c)
+ */
+const COLLECTION_SELECT = `
+  SELECT c.*, (
+    SELECT COUNT(*) FROM collection_presets cp
+    JOIN presets p ON p.id = cp.preset_id
+    WHERE cp.collection_id = c.id AND ${VISIBLE_PRESET_CONDITION}
+  ) AS preset_count
+  FROM collections c
+`;
+
+/**
+ * Convert database row to Collection
+ */
+export function rowToCollection(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    owner_discord_id: row.owner_discord_id,
+    name: row.name,
+    description: row.description,
+    is_public: row.is_public === 1,
+    preset_count: row.preset_count ?? 0,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Get a collection by ID (regardless of visibility - callers check is_public)
+ */
+export async function getCollectionById(db: D1Database, id: string): Promise<Collection | null> {
+  const row = await db
+    .prepare(`${COLLECTION_SELECT} WHERE c.id = ?`)
+    .bind(id)
+    .first<CollectionRow>();
+  return row ? rowToCollection(row) : null;
+}
+
+/**
+ * Get a collection's visible presets in display order
+ */
+export async function getCollectionPresets(db: D1Database, collectionId: string): Promise<ExtendedPreset[]> {
+  const query = `
+    SELECT p.* FROM collection_presets cp
+    JOIN presets p ON p.id = cp.preset_id
+    WHERE cp.collection_id = ? AND ${VISIBLE_PRESET_CONDITION}
+    ORDER BY cp.position ASC, cp.added_at ASC
+  `;
+  const result = await db.prepare(query).bind(collectionId).all<PresetRow>();
+  return (result.results || []).map(rowToPreset);
+}
+
+/**
+ * Get a user's collections, most recently updated first
+ *
+ * @param includePrivate - Include private collections (only for the owner)
+ */
+export async function getCollectionsByOwner(
+  db: D1Database,
+  ownerDiscordId: string,
+  includePrivate: boolean = false
+): Promise<Collection[]> {
+  const visibility = includePrivate ? '' : ' AND c.is_public = 1';
+  const result = await db
+    .prepare(`${COLLECTION_SELECT} WHERE c.owner_discord_id = ?${visibility} ORDER BY c.updated_at DESC`)
+    .bind(ownerDiscordId)
+    .all<CollectionRow>();
+  return (result.results || []).map(rowToCollection);
+}
+
+/**
+ * Count a user's collections (for the per-user limit)
+ */
+export async function countCollectionsByOwner(db: D1Database, ownerDiscordId: string): Promise<number> {
+  const row = await db
+    .prepare('SELECT COUNT(*) AS count FROM collections WHERE owner_discord_id = ?')
+    .bind(ownerDiscordId)
+    .first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+/**
+ * Create an empty collection
+ */
+export async function createCollection(
+  db: D1Database,
+  ownerDiscordId: string,
+  request: CollectionCreateRequest
+): Promise<Collection> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const isPublic = request.is_public ?? false;
+  const description = request.description ?? null;
+
+  await db
+    .prepare(
+      `INSERT INTO collections (id, owner_discord_id, name, description, is_public, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(id, ownerDiscordId, request.name, description, isPublic ? 1 : 0, now, now)
+    .run();
+
+  return {
+    id,
+    owner_discord_id: ownerDiscordId,
+    name: request.name,
+    description,
+    is_public: isPublic,
+    preset_count: 0,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Rename a collection, change its description, or change its visibility
+ */
+export async function updateCollection(
+  db: D1Database,
+  id: string,
+  updates: CollectionUpdateRequest
+): Promise<Collection | null> {
+  const setClauses: string[] = ['updated_at = ?'];
+  const params: (string | number | null)[] = [new Date().toISOString()];
+
+  if (updates.name !== undefined) {
+    setClauses.push('name = ?');
+    params.push(updates.name);
+  }
+
+  if (updates.description !== undefined) {
+    setClauses.push('description = ?');
+    params.push(updates.description);
+  }
+
+  if (updates.is_public !== undefined) {
+    setClauses.push('is_public = ?');
+    params.push(updates.is_public ? 1 : 0);
+  }
+
+  params.push(id);
+
+  await db
+    .prepare(`UPDATE collections SET ${setClauses.join(', ')} WHERE id = ?`)
+    .bind(...params)
+    .run();
+
+  return getCollectionById(db, id);
+}
+
+/**
+ * Delete a collection and its membership rows (the presets are untouched)
+ */
+export async function deleteCollection(db: D1Database, id: string): Promise<void> {
+  // PRESETS-PERF-001: Using batch() for atomicity
+  await db.batch([
+    db.prepare('DELETE FROM collection_presets WHERE collection_id = ?').bind(id),
+    db.prepare('DELETE FROM collections WHERE id = ?').bind(id),
+  ]);
+}
+
+/**
+ * Count every membership row, visible or not (for the per-collection limit)
+ */
+export async function countCollectionEntries(db: D1Database, collectionId: string): Promise<number> {
+  const row = await db
+    .prepare('SELECT COUNT(*) AS count FROM collection_presets WHERE collection_id = ?')
+    .bind(collectionId)
+    .first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+/**
+ * Append a preset to the end of a collection
+ *
+ * @returns false if the preset was already in the collection
+ */
+export async function addPresetToCollection(
+  db: D1Database,
+  collectionId: string,
+  presetId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const results = await db.batch([
+    db
+      .prepare(
+        `INSERT INTO collection_presets (collection_id, preset_id, position, added_at)
+         SELECT ?, ?, COALESCE(MAX(position) + 1, 0), ?
+         FROM collection_presets WHERE collection_id = ?
+         ON CONFLICT(collection_id, preset_id) DO NOTHING`
+      )
+      .bind(collectionId, presetId, now, collectionId),
+    db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').bind(now, collectionId),
+  ]);
+
+  return (results[0]?.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Remove a preset from a collection
+ *
+ * @returns false if the preset wasn't in the collection
+ */
+export async function removePresetFromCollection(
+  db: D1Database,
+  collectionId: string,
+  presetId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const results = await db.batch([
+    db
+      .prepare('DELETE FROM collection_presets WHERE collection_id = ? AND preset_id = ?')
+      .bind(collectionId, presetId),
+    db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').bind(now, collectionId),
+  ]);
+
+  return (results[0]?.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Reorder a collection's visible presets
+ *
+ * Presets that aren't currently visible keep their relative order and move
+ * after the visible ones, so they can't block or be lost by a reorder.
+ *
+ * @param presetIds - Every visible preset in the collection, in the new order
+ */
+export async function reorderCollectionPresets(
+  db: D1Database,
+  collectionId: string,
+  presetIds: string[]
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  // PRESETS-PERF-001: Using batch() for atomicity - a reorder applies fully or not at all
+  await db.batch([
+    // Shift everything past the new visible range first
+    db
+      .prepare('UPDATE collection_presets SET position = position + ? WHERE collection_id = ?')
+      .bind(presetIds.length, collectionId),
+    ...presetIds.map((presetId, position) =>
+      db
+        .prepare('UPDATE collection_presets SET position = ? WHERE collection_id = ? AND preset_id = ?')
+        .bind(position, collectionId, presetId)
+    ),
+    db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').bind(now, collectionId),
+  ]);
+}
@@ -0,0 +1,187 @@
+/**
+ * Comment Service
+ * Short user comments on presets (migration 0017)
+ *
+ * Comments flagged by moderateContent are stored as 'pending' and shown only to
+ * their author until a moderator approves or hides them.
+ */
+
+import type {
+  AuthContext,
+  CommentListResponse,
+  CommentStatus,
+  PresetComment,
+  PresetCommentRow,
+} from '../types.js';
+
+/**
+ * Convert database row to PresetComment
+ */
+export function rowToComment(row: PresetCommentRow): PresetComment {
+  return {
+    id: row.id,
+    preset_id: row.preset_id,
+    author_discord_id: row.author_discord_id,
+    author_xivauth_id: row.author_xivauth_id,
+    author_name: row.author_name,
+    body: row.body,
+    status: row.status as CommentStatus,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    edited_at: row.edited_at,
+  };
+}
+
+/**
+ * Get a comment by ID, whatever its status
+ */
+export async function getCommentById(db: D1Database, id: string): Promise<PresetComment | null> {
+  const row = await db
+    .prepare('SELECT * FROM preset_comments WHERE id = ?')
+    .bind(id)
+    .first<PresetCommentRow>();
+  return row ? rowToComment(row) : null;
+}
+
+/**
+ * Get a preset's comments, newest first
+ * Visible comments are returned to everyone; the viewer also sees their own pending ones.
+ */
+export async function getPresetComments(
+  db: D1Database,
+  presetId: string,
+  options: { page?: number; limit?: number; viewer?: AuthContext } = {}
+): Promise<CommentListResponse> {
+  const { page = 1, limit = 20, viewer } = options;
+  const offset = (page - 1) * limit;
+
+  // PERFORMANCE: Window function returns the total alongside the page (see getPresets)
+  const query = `
+    SELECT *, COUNT(*) OVER() as _total
+    FROM preset_comments
+    WHERE preset_id = ?
+      AND (status = 'visible' OR (status = 'pending' AND (author_discord_id = ? OR author_xivauth_id = ?)))
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(presetId, viewer?.userDiscordId ?? null, viewer?.userXivAuthId ?? null, limit, offset)
+    .all<PresetCommentRow & { _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+  const comments = rows.map(rowToComment);
+
+  return {
+    comments,
+    total,
+    page,
+    limit,
+    has_more: offset + comments.length < total,
+  };
+}
+
+/**
+ * Get comments awaiting moderation, oldest first
+ */
+export async function getPendingComments(db: D1Database): Promise<PresetComment[]> {
+  const result = await db
+    .prepare("SELECT * FROM preset_comments WHERE status = 'pending' ORDER BY created_at ASC")
+    .all<PresetCommentRow>();
+  return (result.results || []).map(rowToComment);
+}
+
+/**
+ * Create a comment
+ *
+ * @param status - 'visible', or 'pending' if moderation flagged the body
+ */
+export async function createComment(
+  db: D1Database,
+  presetId: string,
+  author: AuthContext,
+  body: string,
+  status: CommentStatus
+): Promise<PresetComment> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const authorName = author.userName?.trim() || 'Unknown User';
+
+  await db
+    .prepare(
+      `INSERT INTO preset_comments
+        (id, preset_id, author_discord_id, author_xivauth_id, author_name, body, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      id,
+      presetId,
+      author.userDiscordId ?? null,
+      author.userXivAuthId ?? null,
+      authorName,
+      body,
+      status,
+      now,
+      now
+    )
+    .run();
+
+  return {
+    id,
+    preset_id: presetId,
+    author_discord_id: author.userDiscordId ?? null,
+    author_xivauth_id: author.userXivAuthId ?? null,
+    author_name: authorName,
+    body,
+    status,
+    created_at: now,
+    updated_at: now,
+    edited_at: null,
+  };
+}
+
+/**
+ * Replace a comment's body after an author edit
+ *
+ * @param status - The moderation outcome for the new body
+ */
+export async function updateCommentBody(
+  db: D1Database,
+  id: string,
+  body: string,
+  status: CommentStatus
+): Promise<PresetComment | null> {
+  const now = new Date().toISOString();
+
+  await db
+    .prepare('UPDATE preset_comments SET body = ?, status = ?, edited_at = ?, updated_at = ? WHERE id = ?')
+    .bind(body, status, now, now, id)
+    .run();
+
+  return getCommentById(db, id);
+}
+
+/**
+ * Set a comment's status (moderator approve or hide)
+ */
+export async function setCommentStatus(
+  db: D1Database,
+  id: string,
+  status: CommentStatus
+): Promise<PresetComment | null> {
+  await db
+    .prepare('UPDATE preset_comments SET status = ?, updated_at = ? WHERE id = ?')
+    .bind(status, new Date().toISOString(), id)
+    .run();
+
+  return getCommentById(db, id);
+}
+
+/**
+ * Permanently delete a comment
+ */
+export async function deleteComment(db: D1Database, id: string): Promise<void> {
+  await db.prepare('DELETE FROM preset_comments WHERE id = ?').bind(id).run();
+}
@@ -0,0 +1,200 @@
+/**
+ * Deletion Service
+ * Soft-deletes presets, restores them within the restore window, and purges them
+ *
+ * A soft-deleted preset keeps its row, votes, and revisions but loses its index
+ * entries and dye_signature, and every listing filters on deleted_at IS NULL.
+ * Purging removes the preset for good; its moderation_log entries (migration
+ * 0013 dropped that table's cascading foreign key) and appeals are kept.
+ */
+
+import type { Env, PresetRow, ExtendedPreset, DeletedPreset } from '../types.js';
+import { rowToPreset, generateDyeSignature, getPresetById } from './preset-service.js';
+import { presetIndexStatements, removePresetIndexStatements } from './preset-index-service.js';
+
+/**
+ * Restore window used when PRESET_RESTORE_WINDOW_DAYS is not set
+ */
+export const DEFAULT_RESTORE_WINDOW_DAYS = 30;
+
+/**
+ * Most presets purged per scheduled sweep; each takes about a dozen statements,
+ * so a backlog is worked off over several runs instead of one oversized batch
+ */
+export const PURGE_SWEEP_LIMIT = 25;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the configured restore window, falling back to the default for missing or invalid values
+ */
+export function getRestoreWindowDays(env: Pick<Env, 'PRESET_RESTORE_WINDOW_DAYS'>): number {
+  const configured = env.PRESET_RESTORE_WINDOW_DAYS ? parseFloat(env.PRESET_RESTORE_WINDOW_DAYS) : NaN;
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RESTORE_WINDOW_DAYS;
+}
+
+/**
+ * When a preset deleted at `deletedAt` stops being restorable (and gets purged)
+ */
+export function getRestoreDeadline(deletedAt: string, windowDays: number): string {
+  return new Date(new Date(deletedAt).getTime() + windowDays * MS_PER_DAY).toISOString();
+}
+
+/**
+ * Convert a soft-deleted preset row to DeletedPreset
+ */
+function rowToDeletedPreset(row: PresetRow, windowDays: number): DeletedPreset {
+  const deletedAt = row.deleted_at!;
+  return {
+    ...rowToPreset(row),
+    deleted_at: deletedAt,
+    restore_until: getRestoreDeadline(deletedAt, windowDays),
+    deleted_by_moderator: row.deleted_by_moderator === 1,
+  };
+}
+
+/**
+ * Soft-delete a preset
+ *
+ * PRESETS-PERF-001: Using batch() for atomicity - the preset is hidden and its
+ * index entries removed together.
+ *
+ * @param byModerator - A moderator deleted someone else's preset; the author can't restore it
+ */
+export async function softDeletePreset(
+  db: D1Database,
+  id: string,
+  byModerator: boolean = false
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE presets
+         SET deleted_at = ?, deleted_by_moderator = ?, dye_signature = NULL, updated_at = ?
+         WHERE id = ? AND deleted_at IS NULL`
+      )
+      .bind(now, byModerator ? 1 : 0, now, id),
+    ...removePresetIndexStatements(db, id),
+  ]);
+}
+
+/**
+ * Get a soft-deleted preset by ID (null if it doesn't exist or isn't deleted)
+ */
+export async function getDeletedPresetById(
+  db: D1Database,
+  id: string,
+  windowDays: number = DEFAULT_RESTORE_WINDOW_DAYS
+): Promise<DeletedPreset | null> {
+  const row = await db
+    .prepare('SELECT * FROM presets WHERE id = ? AND deleted_at IS NOT NULL')
+    .bind(id)
+    .first<PresetRow>();
+  return row ? rowToDeletedPreset(row, windowDays) : null;
+}
+
+/**
+ * Get a user's deleted presets that they can still restore, most recently deleted first
+ * Matches either identity, like getPresetsByUser
+ */
+export async function getRestorablePresetsByUser(
+  db: D1Database,
+  authorDiscordId: string | undefined,
+  authorXivAuthId: string | undefined,
+  windowDays: number = DEFAULT_RESTORE_WINDOW_DAYS,
+  now: Date = new Date()
+): Promise<DeletedPreset[]> {
+  const cutoff = new Date(now.getTime() - windowDays * MS_PER_DAY).toISOString();
+  const query = `
+    SELECT * FROM presets
+    WHERE (author_discord_id = ? OR author_xivauth_id = ?)
+      AND deleted_at > ? AND deleted_by_moderator = 0
+    ORDER BY deleted_at DESC
+  `;
+  const result = await db
+    .prepare(query)
+    .bind(authorDiscordId ?? null, authorXivAuthId ?? null, cutoff)
+    .all<PresetRow>();
+  return (result.results || []).map((row) => rowToDeletedPreset(row, windowDays));
+}
+
+/**
+ * Restore a soft-deleted preset and rebuild its index entries
+ * Callers should check the preset's dyes for duplicates first, since the
+ * combination may have been reused while it was deleted.
+ */
+export async function restoreDeletedPreset(
+  db: D1Database,
+  preset: DeletedPreset
+): Promise<ExtendedPreset | null> {
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE presets
+         SET deleted_at = NULL, deleted_by_moderator = 0, dye_signature = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(generateDyeSignature(preset.dyes), now, preset.id),
+    ...presetIndexStatements(db, preset.id),
+  ]);
+
+  return getPresetById(db, preset.id);
+}
+
+/**
+ * Statements that permanently remove a preset and everything keyed on it
+ * except its moderation_log entries and appeals (the record of moderator decisions)
+ */
+function purgePresetStatements(db: D1Database, id: string): D1PreparedStatement[] {
+  return [
+    db.prepare('DELETE FROM votes WHERE preset_id = ?').bind(id),
+    db.prepare('DELETE FROM bookmarks WHERE preset_id = ?').bind(id),
+    ...removePresetIndexStatements(db, id),
+    db.prepare('DELETE FROM preset_revisions WHERE preset_id = ?').bind(id),
+    db.prepare('DELETE FROM preset_comments WHERE preset_id = ?').bind(id),
+    db.prepare('DELETE FROM preset_reports WHERE preset_id = ?').bind(id),
+    db.prepare('DELETE FROM moderation_claims WHERE preset_id = ?').bind(id),
+    db.prepare('DELETE FROM collection_presets WHERE preset_id = ?').bind(id),
+    db.prepare('DELETE FROM presets WHERE id = ?').bind(id),
+  ];
+}
+
+/**
+ * Permanently remove a preset, deleted or not
+ */
+export async function purgePreset(db: D1Database, id: string): Promise<void> {
+  await db.batch(purgePresetStatements(db, id));
+}
+
+/**
+ * Purge presets deleted longer than the restore window ago, oldest first
+ * Run by the scheduled handler; at most PURGE_SWEEP_LIMIT presets per run.
+ *
+ * @returns Number of presets purged
+ */
+export async function purgeExpiredDeletedPresets(
+  db: D1Database,
+  windowDays: number = DEFAULT_RESTORE_WINDOW_DAYS,
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - windowDays * MS_PER_DAY).toISOString();
+
+  const expired = await db
+    .prepare(
+      'SELECT id FROM presets WHERE deleted_at IS NOT NULL AND deleted_at <= ? ORDER BY deleted_at ASC LIMIT ?'
+    )
+    .bind(cutoff, PURGE_SWEEP_LIMIT)
+    .all<{ id: string }>();
+  const ids = (expired.results || []).map((row) => row.id);
+
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  await db.batch(ids.flatMap((id) => purgePresetStatements(db, id)));
+  return ids.length;
+}
@@ -0,0 +1,122 @@
+/**
+ * Moderation Policy Service
+ * Per-attribute Perspective thresholds stored in D1 (migration 0022)
+ *
+ * Attributes without a row use DEFAULT_MODERATION_POLICY, which matches the
+ * old hardcoded behaviour: hold for review at 0.7, never auto-reject.
+ */
+
+import type {
+  AttributeThresholds,
+  ModerationAction,
+  ModerationPolicy,
+  ModerationPolicyRow,
+  PerspectiveAttribute,
+} from '../types.js';
+import { MODERATION_POLICY_RULES } from './validation-service.js';
+
+export const PERSPECTIVE_ATTRIBUTES: readonly PerspectiveAttribute[] = MODERATION_POLICY_RULES.attributes;
+
+export const DEFAULT_ATTRIBUTE_THRESHOLDS: AttributeThresholds = { pending: 0.7, reject: null };
+
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  attributes: Object.fromEntries(
+    PERSPECTIVE_ATTRIBUTES.map((attribute) => [attribute, { ...DEFAULT_ATTRIBUTE_THRESHOLDS }])
+  ) as Record<PerspectiveAttribute, AttributeThresholds>,
+  updated_at: null,
+  updated_by: null,
+};
+
+/**
+ * The attribute and score that decided a policy outcome
+ */
+export interface PolicyViolation {
+  action: ModerationAction;
+  attribute: PerspectiveAttribute;
+  score: number;
+}
+
+/**
+ * Load the moderation policy, filling in defaults for attributes without a row
+ */
+export async function getModerationPolicy(db: D1Database): Promise<ModerationPolicy> {
+  const result = await db.prepare('SELECT * FROM moderation_policy').all<ModerationPolicyRow>();
+
+  const policy: ModerationPolicy = {
+    ...DEFAULT_MODERATION_POLICY,
+    attributes: { ...DEFAULT_MODERATION_POLICY.attributes },
+  };
+
+  for (const row of result.results || []) {
+    const attribute = row.attribute as PerspectiveAttribute;
+    if (!PERSPECTIVE_ATTRIBUTES.includes(attribute)) continue;
+
+    policy.attributes[attribute] = { pending: row.pending_threshold, reject: row.reject_threshold };
+    if (!policy.updated_at || row.updated_at > policy.updated_at) {
+      policy.updated_at = row.updated_at;
+      policy.updated_by = row.updated_by;
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Replace the thresholds of the given attributes (others are left unchanged)
+ *
+ * PRESETS-PERF-001: Using batch() for atomicity - a policy change applies in full or not at all.
+ */
+export async function updateModerationPolicy(
+  db: D1Database,
+  attributes: Partial<Record<PerspectiveAttribute, AttributeThresholds>>,
+  moderatorDiscordId: string
+): Promise<ModerationPolicy> {
+  const now = new Date().toISOString();
+
+  await db.batch(
+    Object.entries(attributes).map(([attribute, thresholds]) =>
+      db
+        .prepare(
+          `INSERT INTO moderation_policy (attribute, pending_threshold, reject_threshold, updated_at, updated_by)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(attribute) DO UPDATE SET
+             pending_threshold = excluded.pending_threshold,
+             reject_threshold = excluded.reject_threshold,
+             updated_at = excluded.updated_at,
+             updated_by = excluded.updated_by`
+        )
+        .bind(attribute, thresholds!.pending, thresholds!.reject, now, moderatorDiscordId)
+    )
+  );
+
+  return getModerationPolicy(db);
+}
+
+/**
+ * Apply a policy to Perspective scores
+ * Any attribute at its reject level rejects; otherwise the first attribute at
+ * its pending level sends the content to review.
+ *
+ * @returns The violation, or null if the content passes
+ */
+export function evaluateModerationPolicy(
+  scores: Partial<Record<PerspectiveAttribute, number>>,
+  policy: ModerationPolicy
+): PolicyViolation | null {
+  let pending: PolicyViolation | null = null;
+
+  for (const attribute of PERSPECTIVE_ATTRIBUTES) {
+    const score = scores[attribute] ?? 0;
+    const { pending: pendingAt, reject: rejectAt } = policy.attributes[attribute];
+
+    if (rejectAt !== null && score >= rejectAt) {
+      return { action: 'reject', attribute, score };
+    }
+
+    if (!pending && pendingAt !== null && score >= pendingAt) {
+      pending = { action: 'pending', attribute, score };
+    }
+  }
+
+  return pending;
+}
@@ -2,24 +2,44 @@
  * Moderation Service
  * Multi-language profanity filtering with local lists + Perspective API
  *
+ * Perspective scores are judged against the moderation policy in D1 (see
+ * moderation-policy-service), so thresholds can change without a redeploy.
+ * Likewise the local filter adds moderator-managed terms from D1 to the
+ * bundled word lists (see profanity-term-service).
+ *
  * ARCHITECTURE: Uses lazy initialization with dependency injection for testability.
  * Production code uses the default profanity lists, while tests can inject custom patterns.
  */
 
-import type { Env, ModerationResult } from '../types.js';
-import { profanityLists } from '../data/profanity/index.js';
+import type {
+  Env,
+  ExtendedModerationResult,
+  ModeratedField,
+  ModerationPolicy,
+  NormalizationStage,
+  PerspectiveAttribute,
+} from '../types.js';
+import { profanityLists, type SupportedLocale } from '../data/profanity/index.js';
+import {
+  DEFAULT_MODERATION_POLICY,
+  PERSPECTIVE_ATTRIBUTES,
+  evaluateModerationPolicy,
+  getModerationPolicy,
+} from './moderation-policy-service.js';
+import { getStoredWordLists } from './profanity-term-service.js';
+import {
+  NORMALIZATION_STAGES,
+  escapeRegex,
+  normalizeForStage,
+  termPatternSources,
+} from './normalization-service.js';
+
+export { escapeRegex };
 
 // ============================================
 // LOCAL PROFANITY FILTER
 // ============================================
 
-/**
- * Escape special regex characters
- */
-export function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
 /**
  * PRESETS-HIGH-003: Truncate string at safe UTF-8/Unicode boundary
  *
@@ -44,6 +64,20 @@ export function truncateUnicodeSafe(str: string, maxLength: number, suffix = '
   return chars.slice(0, truncateAt).join('') + suffix;
 }
 
+/**
+ * Locales written without spaces between words (or, for Korean, with particles
+ * attached to nouns). Word boundaries never fire inside a run of their
+ * characters, so their terms match as substrings instead.
+ */
+export const SUBSTRING_MATCH_LOCALES: readonly SupportedLocale[] = ['ja', 'ko', 'zh'];
+
+/**
+ * Word boundaries for space-delimited languages
+ * Unlike \b these treat accented and non-Latin letters as part of a word.
+ */
+const WORD_START = '(?<![\\p{L}\\p{M}\\p{N}_])';
+const WORD_END = '(?![\\p{L}\\p{M}\\p{N}_])';
+
 /**
  * Compiled profanity data structure
  * Uses a single combined regex for efficiency and ReDoS protection
@@ -51,66 +85,161 @@ export function truncateUnicodeSafe(str: string, maxLength: number, suffix = '
 interface CompiledProfanity {
   // Set for O(1) substring lookup (fast path)
   wordSet: Set<string>;
-  // Combined regex with all words for word boundary matching
+  // Combined regex with all words: word boundary matching for space-delimited
+  // locales, substring matching for SUBSTRING_MATCH_LOCALES
   // Using a single regex with alternation is safer than many individual patterns
   combinedPattern: RegExp | null;
+  // One combined regex per normalization stage, tried in order ('none' is combinedPattern)
+  stagePatterns: Array<{ stage: NormalizationStage; pattern: RegExp }>;
+}
+
+/**
+ * Combine term pattern sources into one regex
+ * Word terms must stand alone; substring terms match anywhere in the text.
+ */
+function combineTermPatterns(wordSources: Iterable<string>, substringSources: Iterable<string>): RegExp | null {
+  const words = [...new Set(wordSources)];
+  const substrings = [...new Set(substringSources)];
+
+  const alternatives: string[] = [];
+  if (words.length > 0) {
+    alternatives.push(`${WORD_START}(?:${words.join('|')})${WORD_END}`);
+  }
+  if (substrings.length > 0) {
+    alternatives.push(`(?:${substrings.join('|')})`);
+  }
+
+  return alternatives.length > 0 ? new RegExp(alternatives.join('|'), 'iu') : null;
 }
 
 /**
  * Compile profanity word lists into optimized data structures
  * SECURITY: Uses a single combined regex to avoid ReDoS risks from many patterns
  * PERFORMANCE: Includes a Set for fast substring pre-filtering
+ *
+ * Lists are keyed by locale: SUBSTRING_MATCH_LOCALES match as substrings, any
+ * other key (including test lists) uses word boundaries.
  */
 export function compileProfanityPatterns(
   wordLists: Record<string, readonly string[]>
 ): CompiledProfanity {
-  const allWords: string[] = [];
+  const boundaryWords: string[] = [];
+  const substringWords: string[] = [];
 
-  for (const [_locale, words] of Object.entries(wordLists)) {
+  for (const [locale, words] of Object.entries(wordLists)) {
+    const target = SUBSTRING_MATCH_LOCALES.includes(locale as SupportedLocale) ? substringWords : boundaryWords;
     for (const word of words) {
-      allWords.push(word.toLowerCase());
+      target.push(word.toLowerCase());
     }
   }
 
   // Create word set for fast substring lookup
-  const wordSet = new Set(allWords);
+  const wordSet = new Set([...boundaryWords, ...substringWords]);
 
   // Create combined regex with all words using alternation
   // This is safer than individual patterns as it's a single, predictable regex
   let combinedPattern: RegExp | null = null;
-  if (allWords.length > 0) {
-    const escapedWords = allWords.map(escapeRegex);
+  const stagePatterns: CompiledProfanity['stagePatterns'] = [];
+  if (wordSet.size > 0) {
     // Limit pattern complexity - split into chunks if too many words
     // This prevents catastrophic backtracking in alternation groups
-    combinedPattern = new RegExp(`\\b(${escapedWords.join('|')})\\b`, 'i');
+    combinedPattern = combineTermPatterns(boundaryWords.map(escapeRegex), substringWords.map(escapeRegex));
+
+    // Normalized stages: each term's pattern only repeats distinct, adjacent
+    // letter classes, so these stay free of nested backtracking too
+    for (const stage of NORMALIZATION_STAGES) {
+      const pattern =
+        stage === 'none'
+          ? combinedPattern
+          : combineTermPatterns(
+              boundaryWords.flatMap((word) => termPatternSources(word, stage)),
+              substringWords.flatMap((word) => termPatternSources(word, stage))
+            );
+      if (pattern) {
+        stagePatterns.push({ stage, pattern });
+      }
+    }
   }
 
-  return { wordSet, combinedPattern };
+  return { wordSet, combinedPattern, stagePatterns };
 }
 
 /**
  * Lazily initialized profanity data
- * PERFORMANCE: Compiled once on first use, cached for subsequent requests
+ * PERFORMANCE: Compiled once on first use, cached until the stored terms change
  */
 let _compiledProfanity: CompiledProfanity | null = null;
 
 /**
- * Get compiled profanity data (lazy initialization)
- * Uses production profanity lists by default
+ * The D1 terms _compiledProfanity was built with (null = bundled lists only)
+ */
+let _storedTermsKey: string | null = null;
+
+/**
+ * Set by _setTestPatterns() so injected patterns aren't replaced by D1 terms
+ */
+let _usingTestPatterns = false;
+
+/**
+ * Merge stored terms into the bundled word lists
  */
-function getCompiledProfanity(): CompiledProfanity {
+function mergeWordLists(
+  bundled: Record<string, readonly string[]>,
+  stored: Record<string, readonly string[] | undefined>
+): Record<string, readonly string[]> {
+  const merged: Record<string, readonly string[]> = { ...bundled };
+  for (const [locale, words] of Object.entries(stored)) {
+    merged[locale] = [...(merged[locale] ?? []), ...(words ?? [])];
+  }
+  return merged;
+}
+
+/**
+ * Get compiled profanity data without touching D1
+ * Falls back to the bundled lists if nothing has been compiled yet
+ */
+function getCachedProfanity(): CompiledProfanity {
   if (_compiledProfanity === null) {
     _compiledProfanity = compileProfanityPatterns(profanityLists);
   }
   return _compiledProfanity;
 }
 
+/**
+ * Get compiled profanity data for the bundled lists plus the D1 terms
+ * Stored terms are read on each call (the table is small) and the patterns are
+ * only recompiled when they differ from the last compile. If D1 can't be read,
+ * the last compiled patterns are kept.
+ */
+async function getCompiledProfanity(db: D1Database): Promise<CompiledProfanity> {
+  if (_usingTestPatterns) {
+    return getCachedProfanity();
+  }
+
+  const stored = await getStoredWordLists(db).catch((error) => {
+    console.error('Failed to load profanity terms, using cached word lists:', error);
+    return null;
+  });
+
+  if (stored) {
+    const key = JSON.stringify(stored);
+    if (_compiledProfanity === null || key !== _storedTermsKey) {
+      _compiledProfanity = compileProfanityPatterns(mergeWordLists(profanityLists, stored));
+      _storedTermsKey = key;
+    }
+  }
+
+  return getCachedProfanity();
+}
+
 /**
  * Reset compiled profanity data - FOR TESTING ONLY
  * Allows tests to inject custom patterns via setTestPatterns()
  */
 export function _resetPatternsForTesting(): void {
   _compiledProfanity = null;
+  _storedTermsKey = null;
+  _usingTestPatterns = false;
 }
 
 /**
@@ -127,44 +256,77 @@ export function _setTestPatterns(patterns: RegExp[]): void {
       words.push(...match[1].split('|'));
     }
   }
-  _compiledProfanity = {
-    wordSet: new Set(words),
-    combinedPattern: patterns.length > 0
-      ? new RegExp(`\\b(${words.map(escapeRegex).join('|')})\\b`, 'i')
-      : null,
-  };
+  _usingTestPatterns = true;
+  _compiledProfanity = compileProfanityPatterns({ test: words });
+}
+
+/**
+ * Content checked alongside the name and description
+ */
+export interface ModerationExtraFields {
+  tags?: readonly string[];
+  authorName?: string | null;
+}
+
+/**
+ * List the fields to moderate, in the order a match is attributed to them
+ */
+function moderatedFields(
+  name: string,
+  description: string,
+  extra: ModerationExtraFields
+): Array<[ModeratedField, string]> {
+  const fields: Array<[ModeratedField, string]> = [
+    ['name', name],
+    ['description', description],
+  ];
+  if (extra.tags && extra.tags.length > 0) {
+    fields.push(['tags', extra.tags.join(', ')]);
+  }
+  if (extra.authorName) {
+    fields.push(['author_name', extra.authorName]);
+  }
+  return fields;
 }
 
 /**
  * Check text against local profanity word lists
- * Uses a single combined regex pattern for efficiency and ReDoS protection
+ * Uses a single combined regex pattern per normalization stage for efficiency and ReDoS protection
  *
  * SECURITY: The combined regex approach prevents ReDoS by:
  * 1. Using a single predictable pattern instead of many small patterns
  * 2. All words are escaped to prevent special character injection
- * 3. Word boundary matching (\b) is simple and doesn't cause backtracking
+ * 3. Word boundary lookarounds and plain substring alternatives are simple and don't cause backtracking
  *
  * @param name - The preset name to check
  * @param description - The preset description to check
+ * @param profanity - Compiled word lists (defaults to the last compiled lists)
+ * @param extra - Tags and author name to check as well
  * @returns ModerationResult if flagged, null if clean
  */
 export function checkLocalFilter(
   name: string,
-  description: string
-): ModerationResult | null {
-  const profanity = getCompiledProfanity();
-  const textToCheck = `${name} ${description}`.toLowerCase();
-  const nameLower = name.toLowerCase();
-
-  // Fast path: check if the combined pattern exists and matches
-  if (profanity.combinedPattern && profanity.combinedPattern.test(textToCheck)) {
-    // Determine which field was flagged by testing name specifically
-    const flaggedField = profanity.combinedPattern.test(nameLower) ? 'name' : 'description';
+  description: string,
+  profanity: CompiledProfanity = getCachedProfanity(),
+  extra: ModerationExtraFields = {}
+): ExtendedModerationResult | null {
+  const fields = moderatedFields(name, description, extra);
+
+  // Try the plain text first, then each stage of normalization; report the first that matches.
+  // Each field is normalized on its own, so the end of one field can't join the start
+  // of the next into a term (e.g. at the separators stage).
+  for (const { stage, pattern } of profanity.stagePatterns) {
+    const flagged = fields.find(([, text]) => pattern.test(normalizeForStage(text, stage)));
+    if (!flagged) continue;
+
     return {
       passed: false,
-      flaggedField,
-      flaggedReason: 'Contains prohibited content',
+      flaggedField: flagged[0],
+      flaggedReason:
+        stage === 'none' ? 'Contains prohibited content' : `Contains prohibited content (${stage} normalization)`,
       method: 'local',
+      action: 'pending',
+      normalization: stage,
     };
   }
 
@@ -176,44 +338,39 @@ export function checkLocalFilter(
 // ============================================
 
 interface PerspectiveResponse {
-  attributeScores: {
-    TOXICITY?: { summaryScore: { value: number } };
-    SEVERE_TOXICITY?: { summaryScore: { value: number } };
-    IDENTITY_ATTACK?: { summaryScore: { value: number } };
-    INSULT?: { summaryScore: { value: number } };
-    PROFANITY?: { summaryScore: { value: number } };
-  };
+  attributeScores: Partial<Record<PerspectiveAttribute, { summaryScore: { value: number } }>>;
 }
 
 /**
- * Check text using Google Perspective API
- * Returns null if API is not configured or fails
+ * Keys used for each attribute in ModerationResult.scores
  */
-async function checkWithPerspective(
-  text: string,
-  env: Env
-): Promise<ModerationResult | null> {
-  if (!env.PERSPECTIVE_API_KEY) {
-    return null; // Skip if not configured
-  }
+const SCORE_KEYS: Record<PerspectiveAttribute, string> = {
+  TOXICITY: 'toxicity',
+  SEVERE_TOXICITY: 'severeToxicity',
+  IDENTITY_ATTACK: 'identityAttack',
+  INSULT: 'insult',
+  PROFANITY: 'profanity',
+};
 
+/**
+ * Score text with Google Perspective API
+ * Returns null if the request fails
+ */
+async function scoreWithPerspective(
+  text: string,
+  apiKey: string
+): Promise<Partial<Record<PerspectiveAttribute, number>> | null> {
   try {
     // PRESETS-HIGH-001: Added 5 second timeout to prevent submission hangs
     // If Perspective API is slow or unavailable, we'll skip it and allow the submission
     const response = await fetch(
-      `https://commentanalyzer.googleapis.com/v1alpha1/comments:analyze?key=${env.PERSPECTIVE_API_KEY}`,
+      `https://commentanalyzer.googleapis.com/v1alpha1/comments:analyze?key=${apiKey}`,
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           comment: { text },
-          requestedAttributes: {
-            TOXICITY: {},
-            SEVERE_TOXICITY: {},
-            IDENTITY_ATTACK: {},
-            INSULT: {},
-            PROFANITY: {},
-          },
+          requestedAttributes: Object.fromEntries(PERSPECTIVE_ATTRIBUTES.map((attribute) => [attribute, {}])),
         }),
         signal: AbortSignal.timeout(5000), // 5 second timeout
       }
@@ -226,40 +383,96 @@ async function checkWithPerspective(
 
     const result: PerspectiveResponse = await response.json();
 
-    const scores: Record<string, number> = {
-      toxicity: result.attributeScores.TOXICITY?.summaryScore?.value || 0,
-      severeToxicity: result.attributeScores.SEVERE_TOXICITY?.summaryScore?.value || 0,
-      identityAttack: result.attributeScores.IDENTITY_ATTACK?.summaryScore?.value || 0,
-      insult: result.attributeScores.INSULT?.summaryScore?.value || 0,
-      profanity: result.attributeScores.PROFANITY?.summaryScore?.value || 0,
-    };
+    const attributeScores: Partial<Record<PerspectiveAttribute, number>> = {};
+    for (const attribute of PERSPECTIVE_ATTRIBUTES) {
+      attributeScores[attribute] = result.attributeScores[attribute]?.summaryScore?.value || 0;
+    }
+    return attributeScores;
+  } catch (error) {
+    console.error('Perspective API error:', error);
+    return null; // Don't block on API failure
+  }
+}
 
-    // Threshold for flagging (0.7 = 70% confidence)
-    const threshold = 0.7;
-
-    // Check each score against threshold
-    for (const [key, value] of Object.entries(scores)) {
-      if (value >= threshold) {
-        return {
-          passed: false,
-          flaggedField: 'content',
-          flaggedReason: `High ${key} score detected (${Math.round(value * 100)}%)`,
-          method: 'perspective',
-          scores,
-        };
-      }
+/**
+ * Find the field Perspective flags on its own once the fields together were flagged
+ * Fields are scored only then, one at a time to stay within Perspective's
+ * per-second quota, stopping at the first flagged field. 'content' if none is
+ * flagged alone, or if a request fails (a rate-limited one would fail the rest).
+ */
+async function findPerspectiveFlaggedField(
+  fields: Array<[ModeratedField, string]>,
+  policy: ModerationPolicy,
+  apiKey: string
+): Promise<ModeratedField> {
+  const nonEmpty = fields.filter(([, text]) => text.trim() !== '');
+  if (nonEmpty.length === 1) {
+    return nonEmpty[0][0];
+  }
+
+  for (const [field, text] of nonEmpty) {
+    const scores = await scoreWithPerspective(text, apiKey);
+    if (!scores) {
+      break;
+    }
+    if (evaluateModerationPolicy(scores, policy)) {
+      return field;
     }
+  }
 
-    // All scores below threshold
+  return 'content';
+}
+
+/**
+ * Check fields using Google Perspective API
+ * The fields are scored together; if that is flagged, they are scored one by one to find the field.
+ * Returns null if API is not configured or fails
+ */
+async function checkWithPerspective(
+  fields: Array<[ModeratedField, string]>,
+  env: Env
+): Promise<ExtendedModerationResult | null> {
+  if (!env.PERSPECTIVE_API_KEY) {
+    return null; // Skip if not configured
+  }
+
+  // A policy that can't be loaded falls back to the defaults rather than skipping Perspective
+  const policy = await getModerationPolicy(env.DB).catch((error) => {
+    console.error('Failed to load moderation policy, using defaults:', error);
+    return DEFAULT_MODERATION_POLICY;
+  });
+
+  const attributeScores = await scoreWithPerspective(
+    fields.map(([, text]) => text).join(' '),
+    env.PERSPECTIVE_API_KEY
+  );
+  if (!attributeScores) {
+    return null;
+  }
+
+  const scores: Record<string, number> = {};
+  for (const attribute of PERSPECTIVE_ATTRIBUTES) {
+    scores[SCORE_KEYS[attribute]] = attributeScores[attribute] ?? 0;
+  }
+
+  const violation = evaluateModerationPolicy(attributeScores, policy);
+  if (violation) {
     return {
-      passed: true,
+      passed: false,
+      flaggedField: await findPerspectiveFlaggedField(fields, policy, env.PERSPECTIVE_API_KEY),
+      flaggedReason: `High ${SCORE_KEYS[violation.attribute]} score detected (${Math.round(violation.score * 100)}%)`,
       method: 'perspective',
       scores,
+      action: violation.action,
     };
-  } catch (error) {
-    console.error('Perspective API error:', error);
-    return null; // Don't block on API failure
   }
+
+  // All scores below the policy thresholds
+  return {
+    passed: true,
+    method: 'perspective',
+    scores,
+  };
 }
 
 // ============================================
@@ -268,23 +481,24 @@ async function checkWithPerspective(
 
 /**
  * Moderate content using local filter and optional Perspective API
+ * Failed results carry the action to take: hold for review ('pending') or reject outright,
+ * and the field that was flagged
  */
 export async function moderateContent(
   name: string,
   description: string,
-  env: Env
-): Promise<ModerationResult> {
+  env: Env,
+  extra: ModerationExtraFields = {}
+): Promise<ExtendedModerationResult> {
   // 1. Local word filter (fast, always runs)
-  const localResult = checkLocalFilter(name, description);
+  const profanity = await getCompiledProfanity(env.DB);
+  const localResult = checkLocalFilter(name, description, profanity, extra);
   if (localResult && !localResult.passed) {
     return localResult;
   }
 
   // 2. Perspective API (optional, catches evasion/context)
-  const perspectiveResult = await checkWithPerspective(
-    `${name} ${description}`,
-    env
-  );
+  const perspectiveResult = await checkWithPerspective(moderatedFields(name, description, extra), env);
 
   if (perspectiveResult && !perspectiveResult.passed) {
     return perspectiveResult;
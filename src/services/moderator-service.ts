@@ -0,0 +1,125 @@
+/**
+ * Moderator Service
+ * Moderator roles and their permissions (migration 0021)
+ *
+ * Discord IDs in MODERATOR_IDS are admins without being in the moderators
+ * table (see resolveModeratorRole in the auth middleware).
+ */
+
+import type { Moderator, ModeratorPermission, ModeratorRole, ModeratorRow } from '../types.js';
+
+export const MODERATOR_ROLES: readonly ModeratorRole[] = ['reviewer', 'moderator', 'admin'];
+
+/**
+ * What each role may do
+ */
+export const ROLE_PERMISSIONS: Record<ModeratorRole, readonly ModeratorPermission[]> = {
+  reviewer: ['approve', 'reject'],
+  moderator: ['approve', 'reject', 'revert', 'ban', 'manage_policy'],
+  admin: [
+    'approve',
+    'reject',
+    'revert',
+    'ban',
+    'purge',
+    'manage_categories',
+    'manage_policy',
+    'manage_moderators',
+  ],
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export function roleHasPermission(role: ModeratorRole, permission: ModeratorPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Convert database row to Moderator
+ */
+export function rowToModerator(row: ModeratorRow): Moderator {
+  const role = row.role as ModeratorRole;
+  return {
+    discord_id: row.discord_id,
+    role,
+    permissions: [...(ROLE_PERMISSIONS[role] ?? [])],
+    added_by: row.added_by,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Look up a user's role in the moderators table
+ *
+ * @returns The role, or null if the user isn't a moderator (unknown roles are ignored)
+ */
+export async function getModeratorRole(db: D1Database, discordId: string): Promise<ModeratorRole | null> {
+  const row = await db
+    .prepare('SELECT role FROM moderators WHERE discord_id = ?')
+    .bind(discordId)
+    .first<{ role: string }>();
+  const role = row?.role as ModeratorRole | undefined;
+  return role && MODERATOR_ROLES.includes(role) ? role : null;
+}
+
+/**
+ * Get a moderator by Discord ID
+ */
+export async function getModerator(db: D1Database, discordId: string): Promise<Moderator | null> {
+  const row = await db
+    .prepare('SELECT * FROM moderators WHERE discord_id = ?')
+    .bind(discordId)
+    .first<ModeratorRow>();
+  return row ? rowToModerator(row) : null;
+}
+
+/**
+ * List moderators, admins first
+ */
+export async function getModerators(db: D1Database): Promise<Moderator[]> {
+  const result = await db
+    .prepare(
+      `SELECT * FROM moderators
+       ORDER BY CASE role WHEN 'admin' THEN 0 WHEN 'moderator' THEN 1 ELSE 2 END, created_at ASC`
+    )
+    .all<ModeratorRow>();
+  return (result.results || []).map(rowToModerator);
+}
+
+/**
+ * Add a moderator, or change an existing moderator's role
+ */
+export async function setModeratorRole(
+  db: D1Database,
+  discordId: string,
+  role: ModeratorRole,
+  addedBy: string
+): Promise<Moderator | null> {
+  const now = new Date().toISOString();
+
+  await db
+    .prepare(
+      `INSERT INTO moderators (discord_id, role, added_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(discord_id) DO UPDATE SET
+         role = excluded.role,
+         added_by = excluded.added_by,
+         updated_at = excluded.updated_at`
+    )
+    .bind(discordId, role, addedBy, now, now)
+    .run();
+
+  return getModerator(db, discordId);
+}
+
+/**
+ * Remove a moderator
+ *
+ * @returns false if the user wasn't in the moderators table
+ */
+export async function removeModerator(db: D1Database, discordId: string): Promise<boolean> {
+  const result = await db.prepare('DELETE FROM moderators WHERE discord_id = ?').bind(discordId).run();
+  return (result.meta?.changes ?? 0) > 0;
+}
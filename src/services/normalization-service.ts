@@ -0,0 +1,187 @@
+/**
+ * Normalization Service
+ * Text normalization stages for the local profanity filter
+ *
+ * Each stage builds on the previous one, and the filter reports the first stage
+ * at which a term matched:
+ * - none: lowercase only (the original behaviour)
+ * - unicode: NFKC (full-width and compatibility forms) and zero-width/format characters removed
+ * - confusables: homoglyphs and leetspeak mapped to Latin letters ("s1op", Cyrillic "ѕlор")
+ * - separators: spaced-out letters joined ("s l o p", "s.l.o.p")
+ * - repeats: repeated letters collapsed ("sloooop")
+ *
+ * Terms go through the same text stages so stored and bundled terms compare like for like.
+ */
+
+import type { NormalizationStage } from '../types.js';
+
+/**
+ * Escape special regex characters
+ */
+export function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const NORMALIZATION_STAGES: readonly NormalizationStage[] = [
+  'none',
+  'unicode',
+  'confusables',
+  'separators',
+  'repeats',
+];
+
+/**
+ * Homoglyphs and leetspeak characters that always stand for one Latin letter
+ * Characters that could be more than one letter ('1', '!', '|') are mapped to
+ * 'i', and term patterns accept either 'i' or 'l' (see AMBIGUOUS_LETTERS).
+ */
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a',
+  'в': 'b',
+  'с': 'c',
+  'е': 'e',
+  'һ': 'h',
+  'і': 'i',
+  'ј': 'j',
+  'к': 'k',
+  'ӏ': 'l',
+  'м': 'm',
+  'н': 'h',
+  'о': 'o',
+  'р': 'p',
+  'ѕ': 's',
+  'т': 't',
+  'у': 'y',
+  'х': 'x',
+  'ь': 'b',
+  // Greek
+  'α': 'a',
+  'β': 'b',
+  'ε': 'e',
+  'η': 'n',
+  'ι': 'i',
+  'κ': 'k',
+  'ν': 'v',
+  'ο': 'o',
+  'ρ': 'p',
+  'τ': 't',
+  'υ': 'u',
+  'χ': 'x',
+  // Leetspeak
+  '0': 'o',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '1': 'i',
+};
+
+/**
+ * Symbols used as letters, mapped only when followed by a letter or digit so
+ * trailing punctuation ("nice!") stays punctuation
+ */
+const SYMBOL_CONFUSABLES: Record<string, string> = {
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+  '|': 'i',
+};
+
+/**
+ * Letters a confusable may stand for; matched interchangeably in term patterns
+ */
+const AMBIGUOUS_LETTERS = new Set(['i', 'l']);
+
+const FORMAT_CHARACTERS = /\p{Cf}/gu;
+const CONFUSABLE_CHARACTERS = new RegExp(`[${Object.keys(CONFUSABLES).join('')}]`, 'gu');
+const SYMBOL_CHARACTERS = /[@$!|](?=[\p{L}\p{N}])/gu;
+const SEPARATED_LETTERS = /(?<![\p{L}\p{N}])\p{L}(?:[^\p{L}\p{N}]+\p{L}(?![\p{L}\p{N}]))+/gu;
+const NON_LETTERS = /[^\p{L}\p{N}]/gu;
+
+/**
+ * NFKC, lowercase, and strip zero-width and other invisible format characters
+ */
+export function normalizeUnicode(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(FORMAT_CHARACTERS, '');
+}
+
+/**
+ * Map homoglyphs and leetspeak to Latin letters (expects normalizeUnicode output)
+ */
+export function mapConfusables(text: string): string {
+  return text
+    .replace(SYMBOL_CHARACTERS, (char) => SYMBOL_CONFUSABLES[char])
+    .replace(CONFUSABLE_CHARACTERS, (char) => CONFUSABLES[char]);
+}
+
+/**
+ * Join runs of single letters split by separators: "s l o p" -> "slop"
+ * Ordinary words are left alone, so "a b c palette" becomes "abc palette".
+ */
+export function joinSeparatedLetters(text: string): string {
+  return text.replace(SEPARATED_LETTERS, (run) => run.replace(NON_LETTERS, ''));
+}
+
+/**
+ * Apply every text stage up to and including `stage`
+ * ('repeats' is handled by the term pattern, so its text matches 'separators')
+ */
+export function normalizeForStage(text: string, stage: NormalizationStage): string {
+  if (stage === 'none') return text.toLowerCase();
+
+  let normalized = normalizeUnicode(text);
+  if (stage === 'unicode') return normalized;
+
+  normalized = mapConfusables(normalized);
+  if (stage === 'confusables') return normalized;
+
+  return joinSeparatedLetters(normalized);
+}
+
+/**
+ * Regex source for one term at a stage
+ * From 'confusables' on, 'i' and 'l' match each other; at 'separators' the term
+ * also matches with its spaces removed ("ai slop" vs "a i s l o p" -> "aislop");
+ * at 'repeats' each run of a letter matches that run or longer. A run of 'i' or
+ * 'l' matches a run of either letter but not a mix, so "ail" isn't read as "ai".
+ */
+export function termPatternSources(term: string, stage: NormalizationStage): string[] {
+  const normalized = normalizeForStage(term, stage);
+  const variants = stage === 'separators' || stage === 'repeats'
+    ? [normalized, normalized.replace(/\s+/g, '')]
+    : [normalized];
+
+  // A term made only of characters the stage strips would match everywhere
+  return [...new Set(variants)].filter(Boolean).map((variant) => {
+    if (stage === 'none' || stage === 'unicode') return escapeRegex(variant);
+    return letterRuns(variant)
+      .map(({ letter, count }) => {
+        if (stage !== 'repeats') {
+          return (AMBIGUOUS_LETTERS.has(letter) ? '[il]' : escapeRegex(letter)).repeat(count);
+        }
+        const quantifier = count === 1 ? '+' : `{${count},}`;
+        return AMBIGUOUS_LETTERS.has(letter)
+          ? `(?:i${quantifier}|l${quantifier})`
+          : `${escapeRegex(letter)}${quantifier}`;
+      })
+      .join('');
+  });
+}
+
+/**
+ * Split a term into runs of the same letter
+ */
+function letterRuns(term: string): Array<{ letter: string; count: number }> {
+  const runs: Array<{ letter: string; count: number }> = [];
+  for (const letter of Array.from(term)) {
+    const last = runs[runs.length - 1];
+    if (last && last.letter === letter) {
+      last.count++;
+    } else {
+      runs.push({ letter, count: 1 });
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,160 @@
+/**
+ * Preset Index Service
+ * Builds the statements that keep a preset's derived lookup tables in sync
+ *
+ * - presets_fts (migration 0008): full-text search over name, description, tags
+ * - preset_dyes (migration 0009): one row per contained dye
+ * - preset_tags (migration 0011): one row per canonical tag
+ *
+ * Every statement derives its rows from the preset's current row in SQL, so they
+ * can be appended to the same batch as the write that changes it - the indexes
+ * never drift from the presets table.
+ */
+
+/**
+ * SQL expression for a preset's tags JSON with aliases replaced by their canonical
+ * tag and duplicates removed. Evaluated against the presets row in scope.
+ */
+const CANONICAL_TAGS_SQL = `(
+  SELECT json_group_array(DISTINCT COALESCE(tag_aliases.tag, json_each.value))
+  FROM json_each(presets.tags)
+  LEFT JOIN tag_aliases ON tag_aliases.alias = json_each.value
+)`;
+
+/**
+ * Statements that rebuild a preset's search index entry from its current row
+ */
+export function searchIndexStatements(db: D1Database, presetId: string): D1PreparedStatement[] {
+  return [
+    removeFromSearchIndexStatement(db, presetId),
+    db
+      .prepare(
+        `INSERT INTO presets_fts (preset_id, name, description, tags)
+         SELECT id, name, description, (SELECT group_concat(value, ' ') FROM json_each(presets.tags))
+         FROM presets WHERE id = ?`
+      )
+      .bind(presetId),
+  ];
+}
+
+/**
+ * Statement that removes a preset from the search index (for deletes)
+ */
+export function removeFromSearchIndexStatement(db: D1Database, presetId: string): D1PreparedStatement {
+  return db.prepare('DELETE FROM presets_fts WHERE preset_id = ?').bind(presetId);
+}
+
+/**
+ * Statements that rebuild a preset's preset_dyes rows from its current dyes JSON
+ */
+export function dyeIndexStatements(db: D1Database, presetId: string): D1PreparedStatement[] {
+  return [
+    removeFromDyeIndexStatement(db, presetId),
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO preset_dyes (preset_id, dye_id)
+         SELECT presets.id, json_each.value FROM presets, json_each(presets.dyes)
+         WHERE presets.id = ?`
+      )
+      .bind(presetId),
+  ];
+}
+
+/**
+ * Statement that removes a preset's preset_dyes rows (for deletes)
+ */
+export function removeFromDyeIndexStatement(db: D1Database, presetId: string): D1PreparedStatement {
+  return db.prepare('DELETE FROM preset_dyes WHERE preset_id = ?').bind(presetId);
+}
+
+/**
+ * Statements that canonicalize a preset's tags and rebuild its preset_tags rows
+ *
+ * Tags arrive already normalized (see tag-service normalizeTags); this step
+ * resolves aliases in the stored JSON so the listing and the index agree, and
+ * registers any new tags.
+ */
+export function tagIndexStatements(db: D1Database, presetId: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`UPDATE presets SET tags = ${CANONICAL_TAGS_SQL} WHERE id = ?`).bind(presetId),
+    removeFromTagIndexStatement(db, presetId),
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO preset_tags (preset_id, tag)
+         SELECT presets.id, json_each.value FROM presets, json_each(presets.tags)
+         WHERE presets.id = ?`
+      )
+      .bind(presetId),
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO tags (name)
+         SELECT json_each.value FROM presets, json_each(presets.tags)
+         WHERE presets.id = ?`
+      )
+      .bind(presetId),
+  ];
+}
+
+/**
+ * Statement that removes a preset's preset_tags rows (for deletes)
+ */
+export function removeFromTagIndexStatement(db: D1Database, presetId: string): D1PreparedStatement {
+  return db.prepare('DELETE FROM preset_tags WHERE preset_id = ?').bind(presetId);
+}
+
+/**
+ * Statements that move every preset tagged `alias` over to `canonical`
+ *
+ * Set-based, so the batch stays the same size however many presets use the
+ * alias: their tags JSON is canonicalized, their search entries rebuilt, and
+ * their preset_tags rows re-pointed. Add them after the tag_aliases write.
+ * The first statement's changes are the number of presets merged.
+ */
+export function mergeTagIndexStatements(
+  db: D1Database,
+  alias: string,
+  canonical: string
+): D1PreparedStatement[] {
+  const taggedWithAlias = 'SELECT preset_id FROM preset_tags WHERE tag = ?';
+  return [
+    db
+      .prepare(`UPDATE presets SET tags = ${CANONICAL_TAGS_SQL} WHERE id IN (${taggedWithAlias})`)
+      .bind(alias),
+    db.prepare(`DELETE FROM presets_fts WHERE preset_id IN (${taggedWithAlias})`).bind(alias),
+    db
+      .prepare(
+        `INSERT INTO presets_fts (preset_id, name, description, tags)
+         SELECT id, name, description, (SELECT group_concat(value, ' ') FROM json_each(presets.tags))
+         FROM presets WHERE id IN (${taggedWithAlias})`
+      )
+      .bind(alias),
+    db
+      .prepare('INSERT OR IGNORE INTO preset_tags (preset_id, tag) SELECT preset_id, ? FROM preset_tags WHERE tag = ?')
+      .bind(canonical, alias),
+    db.prepare('DELETE FROM preset_tags WHERE tag = ?').bind(alias),
+  ];
+}
+
+/**
+ * Statements that rebuild all of a preset's derived index entries
+ * Add these to the same batch as any write to the preset's content.
+ * Tags run first so the search index sees canonical tags.
+ */
+export function presetIndexStatements(db: D1Database, presetId: string): D1PreparedStatement[] {
+  return [
+    ...tagIndexStatements(db, presetId),
+    ...searchIndexStatements(db, presetId),
+    ...dyeIndexStatements(db, presetId),
+  ];
+}
+
+/**
+ * Statements that remove all of a preset's derived index entries (for deletes)
+ */
+export function removePresetIndexStatements(db: D1Database, presetId: string): D1PreparedStatement[] {
+  return [
+    removeFromSearchIndexStatement(db, presetId),
+    removeFromDyeIndexStatement(db, presetId),
+    removeFromTagIndexStatement(db, presetId),
+  ];
+}
@@ -1,25 +1,78 @@
 /**
  * Preset Service
  * Handles preset CRUD operations with duplicate detection
+ *
+ * Search uses the presets_fts FTS5 table (migration 0008), dye filters the
+ * preset_dyes table (migration 0009), and tag filters the preset_tags table
+ * (migration 0011). Every content write rebuilds these in the same batch
+ * (see preset-index-service).
  */
 
 import type {
   Env,
   CommunityPreset,
+  ExtendedPreset,
   PresetRow,
-  PresetFilters,
-  PresetListResponse,
-  PresetSubmission,
+  ExtendedPresetFilters,
+  ExtendedPresetListResponse,
+  CursorPresetSort,
+  PresetCursor,
+  SimilarPreset,
+  PresetRevision,
+  RevisionEditor,
+  ExtendedPresetSubmission,
+  PresetWithLineage,
   PresetPreviousValues,
   PresetEditRequest,
 } from '../types.js';
+import { presetIndexStatements } from './preset-index-service.js';
+import { recordRevisionStatement, diffPresetContent, REVISION_FIELDS } from './revision-service.js';
+
+/**
+ * Maximum number of search terms passed to FTS5
+ */
+const MAX_SEARCH_TERMS = 10;
+
+/**
+ * Control characters used to mark highlight boundaries in FTS5 output
+ * They can't appear in validated preset text, so they survive HTML escaping
+ * and are swapped for <mark> tags afterwards.
+ */
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Convert user search input into a safe FTS5 MATCH expression
+ *
+ * Only letter/number runs are kept and each is quoted, so FTS5 operators and
+ * punctuation in the input can't change the query. Every term is a prefix match
+ * and all terms must match ("sun war" finds "Sunset Warrior").
+ *
+ * @returns MATCH expression, or null if the input has no searchable terms
+ */
+export function buildFtsQuery(search: string): string | null {
+  const terms = search.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) {
+    return null;
+  }
+  return terms
+    .slice(0, MAX_SEARCH_TERMS)
+    .map((term) => `"${term}"*`)
+    .join(' ');
+}
 
 /**
- * Escape special LIKE pattern characters in user input
- * Prevents SQL injection via wildcard characters (%, _, \)
+ * HTML-escape FTS5 highlight output and turn its match markers into <mark> tags
  */
-function escapeLikePattern(str: string): string {
-  return str.replace(/[%_\\]/g, '\\$&');
+export function formatHighlight(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_END, '</mark>');
 }
 
 /**
@@ -34,7 +87,7 @@ export function generateDyeSignature(dyes: number[]): string {
 /**
  * Convert database row to CommunityPreset
  */
-export function rowToPreset(row: PresetRow): CommunityPreset {
+export function rowToPreset(row: PresetRow): ExtendedPreset {
   return {
     id: row.id,
     name: row.name,
@@ -43,6 +96,7 @@ export function rowToPreset(row: PresetRow): CommunityPreset {
     dyes: JSON.parse(row.dyes),
     tags: JSON.parse(row.tags),
     author_discord_id: row.author_discord_id,
+    author_xivauth_id: row.author_xivauth_id ?? null,
     author_name: row.author_name,
     vote_count: row.vote_count,
     status: row.status as CommunityPreset['status'],
@@ -51,36 +105,135 @@ export function rowToPreset(row: PresetRow): CommunityPreset {
     updated_at: row.updated_at,
     dye_signature: row.dye_signature || undefined,
     previous_values: row.previous_values ? JSON.parse(row.previous_values) : null,
+    parent_id: row.parent_id ?? null,
   };
 }
 
+/**
+ * Sort key columns for each cursor-capable sort, ending in id as a tiebreaker
+ * All columns in a sort share one direction so the keyset condition can be a
+ * single row-value comparison.
+ */
+const CURSOR_SORT_KEYS: Record<CursorPresetSort, { columns: (keyof PresetRow)[]; direction: 'ASC' | 'DESC' }> = {
+  popular: { columns: ['vote_count', 'created_at', 'id'], direction: 'DESC' },
+  trending: { columns: ['trending_score', 'vote_count', 'created_at', 'id'], direction: 'DESC' },
+  recent: { columns: ['created_at', 'id'], direction: 'DESC' },
+  name: { columns: ['name', 'id'], direction: 'ASC' },
+};
+
+/**
+ * Encode a keyset cursor as an opaque URL-safe string
+ */
+export function encodePresetCursor(cursor: PresetCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ s: cursor.sort, v: cursor.values }));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor string from encodePresetCursor
+ *
+ * @returns The cursor, or null if the string is malformed or doesn't match a cursor sort
+ */
+export function decodePresetCursor(value: string): PresetCursor | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const parsed = JSON.parse(new TextDecoder().decode(bytes)) as { s?: unknown; v?: unknown };
+
+    if (typeof parsed.s !== 'string' || !Object.hasOwn(CURSOR_SORT_KEYS, parsed.s)) {
+      return null;
+    }
+    const sort = parsed.s as CursorPresetSort;
+    const values = parsed.v;
+    if (
+      !Array.isArray(values) ||
+      values.length !== CURSOR_SORT_KEYS[sort].columns.length ||
+      !values.every((v) => typeof v === 'string' || typeof v === 'number')
+    ) {
+      return null;
+    }
+
+    return { sort, values };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get presets with filtering and pagination
  *
+ * Pagination is either page-based (LIMIT/OFFSET with a total count) or, when a
+ * cursor is given, keyset-based: rows after the cursor's sort key, no count.
+ * Keyset pages stay stable when votes change between requests and don't slow
+ * down on deep pages. Both modes return next_cursor so clients can switch over.
+ *
+ * Searches match name, description, and tags through the FTS5 index and are
+ * ordered by relevance unless another sort is requested. Search input with no
+ * letters or numbers is ignored.
+ *
  * SECURITY NOTE: Hidden presets are always excluded from public listings,
  * regardless of the status filter. This prevents bypassing the ban system
  * by passing ?status=hidden to the API.
  */
 export async function getPresets(
   db: D1Database,
-  filters: PresetFilters
-): Promise<PresetListResponse> {
+  filters: ExtendedPresetFilters
+): Promise<ExtendedPresetListResponse> {
   const {
     category,
     search,
     status = 'approved',
-    sort = 'popular',
     page = 1,
     limit = 20,
     is_curated,
+    highlight = false,
+    cursor,
+    dyes,
+    dye_match = 'all',
+    tag,
+    parent_id,
   } = filters;
 
+  const ftsQuery = search ? buildFtsQuery(search) : null;
+  // A cursor only continues the sort it was issued for
+  const sort = cursor?.sort ?? filters.sort ?? (ftsQuery ? 'relevance' : 'popular');
+  // Relevance needs a search to rank by; unknown sorts fall back to popular
+  let cursorSort: CursorPresetSort | null = null;
+  if (sort !== 'relevance' || !ftsQuery) {
+    cursorSort = Object.hasOwn(CURSOR_SORT_KEYS, sort) ? (sort as CursorPresetSort) : 'popular';
+  }
+  const sortKey = cursorSort ? CURSOR_SORT_KEYS[cursorSort] : null;
+
   // Prevent querying hidden presets - they're only visible to owners via /mine
   const safeStatus = status === 'hidden' ? 'approved' : status;
 
+  // Build search join
+  // bm25 weights per column: preset_id (unindexed), name, description, tags
+  let searchJoin = '';
+  const joinParams: string[] = [];
+  if (ftsQuery) {
+    const highlightColumns = highlight
+      ? `, highlight(presets_fts, 1, ?, ?) AS _highlight_name,
+           snippet(presets_fts, 2, ?, ?, '…', 16) AS _highlight_description`
+      : '';
+    searchJoin = `
+    JOIN (
+      SELECT preset_id, bm25(presets_fts, 0.0, 10.0, 2.0, 5.0) AS _rank${highlightColumns}
+      FROM presets_fts
+      WHERE presets_fts MATCH ?
+    ) AS search ON search.preset_id = presets.id`;
+    if (highlight) {
+      joinParams.push(HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END);
+    }
+    joinParams.push(ftsQuery);
+  }
+
   // Build WHERE clause
-  // Always exclude 'hidden' status to prevent ban bypass
-  const conditions: string[] = ["status = ? AND status != 'hidden'"];
+  // Always exclude 'hidden' status to prevent ban bypass, and soft-deleted presets
+  const conditions: string[] = ["status = ? AND status != 'hidden'", 'deleted_at IS NULL'];
   const params: (string | number)[] = [safeStatus];
 
   if (category) {
@@ -88,95 +241,268 @@ export async function getPresets(
     params.push(category);
   }
 
-  if (search) {
-    // Escape SQL LIKE wildcards to prevent pattern injection
-    conditions.push("(name LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\' OR tags LIKE ? ESCAPE '\\')");
-    const searchPattern = `%${escapeLikePattern(search)}%`;
-    params.push(searchPattern, searchPattern, searchPattern);
-  }
-
   if (is_curated !== undefined) {
     conditions.push('is_curated = ?');
     params.push(is_curated ? 1 : 0);
   }
 
+  if (dyes && dyes.length > 0) {
+    // 'all' counts matching rows per preset; preset_dyes' primary key makes each dye count once
+    const dyeIds = [...new Set(dyes)];
+    const placeholders = dyeIds.map(() => '?').join(', ');
+    if (dye_match === 'any') {
+      conditions.push(`id IN (SELECT preset_id FROM preset_dyes WHERE dye_id IN (${placeholders}))`);
+      params.push(...dyeIds);
+    } else {
+      conditions.push(
+        `id IN (SELECT preset_id FROM preset_dyes WHERE dye_id IN (${placeholders}) GROUP BY preset_id HAVING COUNT(*) = ?)`
+      );
+      params.push(...dyeIds, dyeIds.length);
+    }
+  }
+
+  if (tag) {
+    // Aliases resolve to their canonical tag, which is what preset_tags holds
+    conditions.push(
+      'id IN (SELECT preset_id FROM preset_tags WHERE tag = COALESCE((SELECT tag FROM tag_aliases WHERE alias = ?), ?))'
+    );
+    params.push(tag, tag);
+  }
+
+  if (parent_id) {
+    conditions.push('parent_id = ?');
+    params.push(parent_id);
+  }
+
+  // Keyset condition: rows strictly after the cursor in sort order
+  // (cursor.sort always has a sort key - decodePresetCursor only accepts those)
+  if (cursor && sortKey) {
+    const placeholders = sortKey.columns.map(() => '?').join(', ');
+    const comparison = sortKey.direction === 'DESC' ? '<' : '>';
+    conditions.push(`(${sortKey.columns.join(', ')}) ${comparison} (${placeholders})`);
+    params.push(...cursor.values);
+  }
+
   const whereClause = conditions.join(' AND ');
 
   // Build ORDER BY clause
-  let orderBy: string;
-  switch (sort) {
-    case 'recent':
-      orderBy = 'created_at DESC';
-      break;
-    case 'name':
-      orderBy = 'name ASC';
-      break;
-    case 'popular':
-    default:
-      orderBy = 'vote_count DESC, created_at DESC';
-      break;
-  }
+  // bm25() is lower for better matches
+  const orderBy = sortKey
+    ? sortKey.columns.map((column) => `${column} ${sortKey.direction}`).join(', ')
+    : '_rank ASC, vote_count DESC';
+
+  type ResultRow = PresetRow & { _total?: number; _highlight_name?: string; _highlight_description?: string };
 
-  // PERFORMANCE: Use window function to get total count in same query
-  // This reduces database round-trips from 2 to 1 for paginated requests
-  // SQLite 3.25+ (supported by D1) supports COUNT(*) OVER()
+  let rows: ResultRow[];
+  let total: number | null;
+  let hasMore: boolean;
   const offset = (page - 1) * limit;
-  const query = `
-    SELECT *, COUNT(*) OVER() as _total
-    FROM presets
-    WHERE ${whereClause}
-    ORDER BY ${orderBy}
-    LIMIT ? OFFSET ?
-  `;
 
-  const result = await db
-    .prepare(query)
-    .bind(...params, limit, offset)
-    .all<PresetRow & { _total: number }>();
+  if (cursor) {
+    // Keyset page: fetch one extra row to learn whether another page follows
+    const query = `
+      SELECT *
+      FROM presets${searchJoin}
+      WHERE ${whereClause}
+      ORDER BY ${orderBy}
+      LIMIT ?
+    `;
+    const result = await db
+      .prepare(query)
+      .bind(...joinParams, ...params, limit + 1)
+      .all<ResultRow>();
+
+    rows = result.results || [];
+    hasMore = rows.length > limit;
+    rows = rows.slice(0, limit);
+    total = null;
+  } else {
+    // PERFORMANCE: Use window function to get total count in same query
+    // This reduces database round-trips from 2 to 1 for paginated requests
+    // SQLite 3.25+ (supported by D1) supports COUNT(*) OVER()
+    const query = `
+      SELECT *, COUNT(*) OVER() as _total
+      FROM presets${searchJoin}
+      WHERE ${whereClause}
+      ORDER BY ${orderBy}
+      LIMIT ? OFFSET ?
+    `;
+    const result = await db
+      .prepare(query)
+      .bind(...joinParams, ...params, limit, offset)
+      .all<ResultRow>();
+
+    rows = result.results || [];
+    // Extract total from first row (all rows have same total via window function)
+    total = rows.length > 0 ? (rows[0]._total ?? 0) : 0;
+    hasMore = offset + rows.length < total;
+  }
 
-  const rows = result.results || [];
-  // Extract total from first row (all rows have same total via window function)
-  const total = rows.length > 0 ? rows[0]._total : 0;
-  const presets = rows.map(rowToPreset);
+  const lastRow = rows[rows.length - 1];
+  const nextCursor =
+    hasMore && cursorSort && sortKey && lastRow
+      ? encodePresetCursor({
+          sort: cursorSort,
+          values: sortKey.columns.map((column) => lastRow[column] as string | number),
+        })
+      : null;
+
+  const presets = rows.map((row) => {
+    const preset = rowToPreset(row);
+    if (row._highlight_name !== undefined && row._highlight_description !== undefined) {
+      preset.search_highlight = {
+        name: formatHighlight(row._highlight_name),
+        description: formatHighlight(row._highlight_description),
+      };
+    }
+    return preset;
+  });
 
   return {
     presets,
     total,
     page,
     limit,
-    has_more: offset + presets.length < total,
+    has_more: hasMore,
+    next_cursor: nextCursor,
   };
 }
 
 /**
- * Get featured presets (top 10 by votes)
+ * Get featured presets (top 10 by votes, or by trending score)
  *
  * SECURITY NOTE: Explicitly excludes hidden presets for defense-in-depth,
  * even though we already filter for 'approved' status.
  */
-export async function getFeaturedPresets(db: D1Database): Promise<CommunityPreset[]> {
+export async function getFeaturedPresets(
+  db: D1Database,
+  sort: 'popular' | 'trending' = 'popular'
+): Promise<CommunityPreset[]> {
+  const orderBy =
+    sort === 'trending'
+      ? 'trending_score DESC, vote_count DESC, created_at DESC'
+      : 'vote_count DESC, created_at DESC';
   const query = `
     SELECT * FROM presets
-    WHERE status = 'approved' AND status != 'hidden'
-    ORDER BY vote_count DESC, created_at DESC
+    WHERE status = 'approved' AND status != 'hidden' AND deleted_at IS NULL
+    ORDER BY ${orderBy}
     LIMIT 10
   `;
   const result = await db.prepare(query).all<PresetRow>();
   return (result.results || []).map(rowToPreset);
 }
 
+/**
+ * Get approved presets that share dyes with a preset, most similar first
+ *
+ * Similarity is the Jaccard overlap of the dye sets (shared / union), computed
+ * from preset_dyes. Ties are broken by votes, then recency. Presets sharing no
+ * dyes are never returned.
+ */
+export async function getSimilarPresets(
+  db: D1Database,
+  presetId: string,
+  limit: number = 6
+): Promise<SimilarPreset[]> {
+  const query = `
+    WITH source AS (
+      SELECT dye_id FROM preset_dyes WHERE preset_id = ?
+    ),
+    overlap AS (
+      SELECT candidate.preset_id, COUNT(*) AS shared_dyes
+      FROM preset_dyes AS candidate
+      JOIN source ON source.dye_id = candidate.dye_id
+      WHERE candidate.preset_id != ?
+      GROUP BY candidate.preset_id
+    )
+    SELECT presets.*, overlap.shared_dyes,
+      CAST(overlap.shared_dyes AS REAL) / (
+        (SELECT COUNT(*) FROM source)
+        + (SELECT COUNT(*) FROM preset_dyes WHERE preset_dyes.preset_id = presets.id)
+        - overlap.shared_dyes
+      ) AS similarity
+    FROM overlap
+    JOIN presets ON presets.id = overlap.preset_id
+    WHERE presets.status = 'approved' AND presets.status != 'hidden' AND presets.deleted_at IS NULL
+    ORDER BY similarity DESC, presets.vote_count DESC, presets.created_at DESC
+    LIMIT ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(presetId, presetId, limit)
+    .all<PresetRow & { shared_dyes: number; similarity: number }>();
+
+  return (result.results || []).map((row) => ({
+    ...rowToPreset(row),
+    similarity: row.similarity,
+    shared_dyes: row.shared_dyes,
+  }));
+}
+
+/**
+ * Add remix lineage to a preset: its parent (if still approved and not
+ * deleted) and how many approved remixes it has
+ */
+export async function withPresetLineage(
+  db: D1Database,
+  preset: ExtendedPreset
+): Promise<PresetWithLineage> {
+  const query = `
+    SELECT
+      (SELECT COUNT(*) FROM presets
+       WHERE parent_id = ? AND status = 'approved' AND deleted_at IS NULL) AS remix_count,
+      parent.id AS parent_id, parent.name AS parent_name, parent.author_name AS parent_author_name
+    FROM (SELECT 1)
+    LEFT JOIN presets AS parent
+      ON parent.id = ? AND parent.status = 'approved' AND parent.deleted_at IS NULL
+  `;
+  const row = await db
+    .prepare(query)
+    .bind(preset.id, preset.parent_id ?? null)
+    .first<{
+      remix_count: number;
+      parent_id: string | null;
+      parent_name: string | null;
+      parent_author_name: string | null;
+    }>();
+
+  return {
+    ...preset,
+    parent: row?.parent_id
+      ? { id: row.parent_id, name: row.parent_name!, author_name: row.parent_author_name }
+      : null,
+    remix_count: row?.remix_count ?? 0,
+  };
+}
+
 /**
  * Get a single preset by ID
+ * Soft-deleted presets are not returned (see deletion-service getDeletedPresetById)
  */
 export async function getPresetById(
   db: D1Database,
   id: string
-): Promise<CommunityPreset | null> {
-  const query = 'SELECT * FROM presets WHERE id = ?';
+): Promise<ExtendedPreset | null> {
+  const query = 'SELECT * FROM presets WHERE id = ? AND deleted_at IS NULL';
   const row = await db.prepare(query).bind(id).first<PresetRow>();
   return row ? rowToPreset(row) : null;
 }
 
+/**
+ * Get several presets by ID (missing and soft-deleted IDs are left out)
+ */
+export async function getPresetsByIds(db: D1Database, ids: string[]): Promise<ExtendedPreset[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const placeholders = ids.map(() => '?').join(', ');
+  const query = `SELECT * FROM presets WHERE id IN (${placeholders}) AND deleted_at IS NULL`;
+  const result = await db.prepare(query).bind(...ids).all<PresetRow>();
+  return (result.results || []).map(rowToPreset);
+}
+
 /**
  * Check for duplicate preset by dye signature
  */
@@ -195,15 +521,17 @@ export async function findDuplicatePreset(
 }
 
 /**
- * Create a new preset
+ * Create a new preset and add it to the search and dye indexes
+ * XIVAuth users without a linked Discord account have a null authorDiscordId
  */
 export async function createPreset(
   db: D1Database,
-  submission: PresetSubmission,
-  authorDiscordId: string,
+  submission: ExtendedPresetSubmission,
+  authorDiscordId: string | null,
   authorName: string,
-  status: 'approved' | 'pending' = 'approved'
-): Promise<CommunityPreset> {
+  status: 'approved' | 'pending' = 'approved',
+  authorXivAuthId: string | null = null
+): Promise<ExtendedPreset> {
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
   const dyeSignature = generateDyeSignature(submission.dyes);
@@ -211,28 +539,42 @@ export async function createPreset(
   const query = `
     INSERT INTO presets (
       id, name, description, category_id, dyes, tags,
-      author_discord_id, author_name, vote_count, status, is_curated,
-      created_at, updated_at, dye_signature
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, 0, ?, ?, ?)
+      author_discord_id, author_xivauth_id, author_name, vote_count, status, is_curated,
+      created_at, updated_at, dye_signature, parent_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, 0, ?, ?, ?, ?)
   `;
 
-  await db
-    .prepare(query)
-    .bind(
+  await db.batch([
+    db
+      .prepare(query)
+      .bind(
+        id,
+        submission.name,
+        submission.description,
+        submission.category_id,
+        JSON.stringify(submission.dyes),
+        JSON.stringify(submission.tags),
+        authorDiscordId,
+        authorXivAuthId,
+        authorName,
+        status,
+        now,
+        now,
+        dyeSignature,
+        submission.parent_id ?? null
+      ),
+    ...presetIndexStatements(db, id),
+    recordRevisionStatement(
+      db,
       id,
-      submission.name,
-      submission.description,
-      submission.category_id,
-      JSON.stringify(submission.dyes),
-      JSON.stringify(submission.tags),
-      authorDiscordId,
-      authorName,
-      status,
-      now,
-      now,
-      dyeSignature
-    )
-    .run();
+      {
+        action: 'create',
+        changedFields: [...REVISION_FIELDS],
+        editor: { discordId: authorDiscordId, xivAuthId: authorXivAuthId },
+      },
+      now
+    ),
+  ]);
 
   return {
     id,
@@ -242,6 +584,7 @@ export async function createPreset(
     dyes: submission.dyes,
     tags: submission.tags,
     author_discord_id: authorDiscordId,
+    author_xivauth_id: authorXivAuthId,
     author_name: authorName,
     vote_count: 0,
     status,
@@ -249,6 +592,7 @@ export async function createPreset(
     created_at: now,
     updated_at: now,
     dye_signature: dyeSignature,
+    parent_id: submission.parent_id ?? null,
   };
 }
 
@@ -276,7 +620,7 @@ export async function updatePresetStatus(
 export async function getPendingPresets(db: D1Database): Promise<CommunityPreset[]> {
   const query = `
     SELECT * FROM presets
-    WHERE status = 'pending'
+    WHERE status = 'pending' AND deleted_at IS NULL
     ORDER BY created_at ASC
   `;
   const result = await db.prepare(query).all<PresetRow>();
@@ -286,18 +630,23 @@ export async function getPendingPresets(db: D1Database): Promise<CommunityPreset
 /**
  * Get all presets submitted by a specific user
  * Returns presets in all statuses (pending, approved, rejected)
+ * Matches either identity so linked Discord+XIVAuth accounts see all their presets
  * Sorted by creation date (newest first)
  */
 export async function getPresetsByUser(
   db: D1Database,
-  authorDiscordId: string
+  authorDiscordId: string | undefined,
+  authorXivAuthId?: string
 ): Promise<CommunityPreset[]> {
   const query = `
     SELECT * FROM presets
-    WHERE author_discord_id = ?
+    WHERE (author_discord_id = ? OR author_xivauth_id = ?) AND deleted_at IS NULL
     ORDER BY created_at DESC
   `;
-  const result = await db.prepare(query).bind(authorDiscordId).all<PresetRow>();
+  const result = await db
+    .prepare(query)
+    .bind(authorDiscordId ?? null, authorXivAuthId ?? null)
+    .all<PresetRow>();
   return (result.results || []).map(rowToPreset);
 }
 
@@ -321,17 +670,32 @@ export async function findDuplicatePresetExcluding(
 }
 
 /**
- * Update a preset with new values
+ * Update a preset with new values, refresh its index entries, and record a revision
  * Optionally stores previous values for moderation revert
+ * The revision lists the submitted fields whose values differ from the current row.
+ *
+ * @returns The updated preset, or null if it doesn't exist or is deleted
  */
 export async function updatePreset(
   db: D1Database,
   id: string,
   updates: PresetEditRequest,
   previousValues?: PresetPreviousValues | null,
-  newStatus?: 'approved' | 'pending'
+  newStatus?: 'approved' | 'pending',
+  editor?: RevisionEditor
 ): Promise<CommunityPreset | null> {
+  const current = await getPresetById(db, id);
+  if (!current) {
+    return null;
+  }
+
   const now = new Date().toISOString();
+  const changedFields = diffPresetContent(current, {
+    name: updates.name ?? current.name,
+    description: updates.description ?? current.description,
+    dyes: updates.dyes ?? current.dyes,
+    tags: updates.tags ?? current.tags,
+  });
 
   // Build dynamic UPDATE query based on provided fields
   const setClauses: string[] = ['updated_at = ?'];
@@ -379,17 +743,22 @@ export async function updatePreset(
     WHERE id = ?
   `;
 
-  await db.prepare(query).bind(...params).run();
+  await db.batch([
+    db.prepare(query).bind(...params),
+    ...presetIndexStatements(db, id),
+    recordRevisionStatement(db, id, { action: 'edit', changedFields, editor }, now),
+  ]);
   return getPresetById(db, id);
 }
 
 /**
  * Revert a preset to its previous values
- * Restores from previous_values and clears that column
+ * Restores from previous_values, clears that column, and records a revision
  */
 export async function revertPreset(
   db: D1Database,
-  id: string
+  id: string,
+  moderatorDiscordId?: string
 ): Promise<CommunityPreset | null> {
   // First get the current preset to retrieve previous_values
   const current = await getPresetById(db, id);
@@ -408,18 +777,80 @@ export async function revertPreset(
     WHERE id = ?
   `;
 
-  await db
-    .prepare(query)
-    .bind(
-      previous.name,
-      previous.description,
-      JSON.stringify(previous.dyes),
-      JSON.stringify(previous.tags),
-      dyeSignature,
-      now,
-      id
-    )
-    .run();
+  await db.batch([
+    db
+      .prepare(query)
+      .bind(
+        previous.name,
+        previous.description,
+        JSON.stringify(previous.dyes),
+        JSON.stringify(previous.tags),
+        dyeSignature,
+        now,
+        id
+      ),
+    ...presetIndexStatements(db, id),
+    recordRevisionStatement(
+      db,
+      id,
+      {
+        action: 'revert',
+        changedFields: diffPresetContent(current, previous),
+        editor: { discordId: moderatorDiscordId },
+      },
+      now
+    ),
+  ]);
 
   return getPresetById(db, id);
 }
+
+/**
+ * Restore a preset's content from one of its revisions
+ *
+ * Like revertPreset, the restored preset is approved and previous_values is
+ * cleared. The restore itself is recorded as a new revision, so history is
+ * never rewritten. Callers should check the revision's dyes for duplicates first.
+ */
+export async function restorePresetRevision(
+  db: D1Database,
+  current: CommunityPreset,
+  revision: PresetRevision,
+  moderatorDiscordId: string
+): Promise<CommunityPreset | null> {
+  const now = new Date().toISOString();
+
+  const query = `
+    UPDATE presets
+    SET name = ?, description = ?, dyes = ?, tags = ?, dye_signature = ?,
+        status = 'approved', previous_values = NULL, updated_at = ?
+    WHERE id = ?
+  `;
+
+  await db.batch([
+    db
+      .prepare(query)
+      .bind(
+        revision.name,
+        revision.description,
+        JSON.stringify(revision.dyes),
+        JSON.stringify(revision.tags),
+        generateDyeSignature(revision.dyes),
+        now,
+        current.id
+      ),
+    ...presetIndexStatements(db, current.id),
+    recordRevisionStatement(
+      db,
+      current.id,
+      {
+        action: 'restore',
+        changedFields: diffPresetContent(current, revision),
+        editor: { discordId: moderatorDiscordId },
+      },
+      now
+    ),
+  ]);
+
+  return getPresetById(db, current.id);
+}
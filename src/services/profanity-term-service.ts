@@ -0,0 +1,97 @@
+/**
+ * Profanity Term Service
+ * Blocked terms managed by moderators (migration 0023)
+ *
+ * These extend the word lists bundled in src/data/profanity; the moderation
+ * service merges both and recompiles its patterns when the stored terms change.
+ * Terms are stored lowercase, the same way the filter compares them.
+ */
+
+import type { ProfanityTerm, ProfanityTermRow } from '../types.js';
+import { profanityLists, type SupportedLocale } from '../data/profanity/index.js';
+
+/**
+ * List stored terms, optionally for one locale
+ */
+export async function getProfanityTerms(db: D1Database, locale?: SupportedLocale): Promise<ProfanityTerm[]> {
+  const result = locale
+    ? await db
+        .prepare('SELECT * FROM profanity_terms WHERE locale = ? ORDER BY term ASC')
+        .bind(locale)
+        .all<ProfanityTermRow>()
+    : await db.prepare('SELECT * FROM profanity_terms ORDER BY locale ASC, term ASC').all<ProfanityTermRow>();
+  return result.results || [];
+}
+
+/**
+ * Get stored terms grouped by locale, in the shape of the bundled word lists
+ * Rows for locales the filter no longer supports are ignored.
+ */
+export async function getStoredWordLists(db: D1Database): Promise<Partial<Record<SupportedLocale, string[]>>> {
+  const lists: Partial<Record<SupportedLocale, string[]>> = {};
+
+  for (const term of await getProfanityTerms(db)) {
+    const locale = term.locale as SupportedLocale;
+    if (!(locale in profanityLists)) continue;
+    (lists[locale] ??= []).push(term.term);
+  }
+
+  return lists;
+}
+
+/**
+ * Check whether a term is already blocked for a locale, either bundled or stored
+ */
+export async function isTermBlocked(db: D1Database, locale: SupportedLocale, term: string): Promise<boolean> {
+  const normalized = term.toLowerCase();
+  if (profanityLists[locale].some((word) => word.toLowerCase() === normalized)) {
+    return true;
+  }
+
+  const row = await db
+    .prepare('SELECT id FROM profanity_terms WHERE locale = ? AND term = ?')
+    .bind(locale, normalized)
+    .first<{ id: string }>();
+  return row !== null;
+}
+
+/**
+ * Add a blocked term
+ *
+ * @returns The new term, or null if it was already stored for the locale
+ */
+export async function addProfanityTerm(
+  db: D1Database,
+  locale: SupportedLocale,
+  term: string,
+  addedBy: string
+): Promise<ProfanityTerm | null> {
+  const row: ProfanityTermRow = {
+    id: crypto.randomUUID(),
+    locale,
+    term: term.toLowerCase(),
+    added_by: addedBy,
+    created_at: new Date().toISOString(),
+  };
+
+  const result = await db
+    .prepare(
+      `INSERT INTO profanity_terms (id, locale, term, added_by, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(locale, term) DO NOTHING`
+    )
+    .bind(row.id, row.locale, row.term, row.added_by, row.created_at)
+    .run();
+
+  return (result.meta?.changes ?? 0) > 0 ? row : null;
+}
+
+/**
+ * Remove a stored term (bundled terms can only be removed with a code change)
+ *
+ * @returns false if no stored term has that ID
+ */
+export async function removeProfanityTerm(db: D1Database, termId: string): Promise<boolean> {
+  const result = await db.prepare('DELETE FROM profanity_terms WHERE id = ?').bind(termId).run();
+  return (result.meta?.changes ?? 0) > 0;
+}
@@ -2,6 +2,7 @@
  * Rate Limit Service
  * Tracks submission limits per user per day
  * Limit: 10 submissions per user per day
+ * Comments have a separate limit: 30 posts and edits per user per day
  *
  * Also provides IP-based rate limiting for public endpoints
  * Limit: 100 requests per minute per IP (sliding window)
@@ -73,10 +74,14 @@ const DAILY_SUBMISSION_LIMIT = 10;
 /**
  * Check if a user can submit a preset
  * Returns rate limit status and remaining submissions
+ *
+ * Submissions under either identity count towards the same limit, so a linked
+ * Discord+XIVAuth account can't double its daily allowance
  */
 export async function checkSubmissionRateLimit(
   db: D1Database,
-  userDiscordId: string
+  userDiscordId: string | undefined,
+  userXivAuthId?: string
 ): Promise<RateLimitResult> {
   const today = getStartOfDayUTC();
   const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
@@ -85,14 +90,14 @@ export async function checkSubmissionRateLimit(
   const query = `
     SELECT COUNT(*) as count
     FROM presets
-    WHERE author_discord_id = ?
+    WHERE (author_discord_id = ? OR author_xivauth_id = ?)
       AND created_at >= ?
       AND created_at < ?
   `;
 
   const result = await db
     .prepare(query)
-    .bind(userDiscordId, today.toISOString(), tomorrow.toISOString())
+    .bind(userDiscordId ?? null, userXivAuthId ?? null, today.toISOString(), tomorrow.toISOString())
     .first<{ count: number }>();
 
   const submissionsToday = result?.count || 0;
@@ -111,15 +116,80 @@ export async function checkSubmissionRateLimit(
  */
 export async function getRemainingSubmissions(
   db: D1Database,
-  userDiscordId: string
+  userDiscordId: string | undefined,
+  userXivAuthId?: string
 ): Promise<{ remaining: number; resetAt: Date }> {
-  const result = await checkSubmissionRateLimit(db, userDiscordId);
+  const result = await checkSubmissionRateLimit(db, userDiscordId, userXivAuthId);
   return {
     remaining: result.remaining,
     resetAt: result.resetAt,
   };
 }
 
+// ============================================
+// D1-BASED COMMENT RATE LIMITING
+// ============================================
+
+/**
+ * Maximum comment posts and edits per user per day (separate from the submission limit)
+ */
+const DAILY_COMMENT_LIMIT = 30;
+
+/**
+ * Check if a user can post or edit a comment
+ * Like submissions, activity under either identity shares one limit. Counted from
+ * comment_activity (migration 0025), so deleting a comment doesn't give its slot back.
+ */
+export async function checkCommentRateLimit(
+  db: D1Database,
+  userDiscordId: string | undefined,
+  userXivAuthId?: string
+): Promise<RateLimitResult> {
+  const today = getStartOfDayUTC();
+  const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+
+  const query = `
+    SELECT COUNT(*) as count
+    FROM comment_activity
+    WHERE (author_discord_id = ? OR author_xivauth_id = ?)
+      AND created_at >= ?
+      AND created_at < ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(userDiscordId ?? null, userXivAuthId ?? null, today.toISOString(), tomorrow.toISOString())
+    .first<{ count: number }>();
+
+  const commentsToday = result?.count || 0;
+
+  return {
+    allowed: commentsToday < DAILY_COMMENT_LIMIT,
+    remaining: Math.max(0, DAILY_COMMENT_LIMIT - commentsToday),
+    resetAt: tomorrow,
+  };
+}
+
+/**
+ * Count a comment post or edit against the user's daily limit
+ * Called once the request is valid and before the body is moderated, so rejected
+ * attempts still count.
+ */
+export async function recordCommentActivity(
+  db: D1Database,
+  userDiscordId: string | undefined,
+  userXivAuthId: string | undefined,
+  action: 'create' | 'edit'
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO comment_activity (id, author_discord_id, author_xivauth_id, action, created_at)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .bind(crypto.randomUUID(), userDiscordId ?? null, userXivAuthId ?? null, action, new Date().toISOString())
+    .run();
+}
+
 /**
  * Get the start of the current day in UTC
  */
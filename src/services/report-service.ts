@@ -0,0 +1,236 @@
+/**
+ * Report Service
+ * User reports against presets and the moderator report queue (migration 0018)
+ *
+ * Once a preset has REPORT_FLAG_THRESHOLD open reports it is moved from
+ * 'approved' to 'flagged', which hides it from listings until a moderator
+ * reviews it. Only open reports count, so dismissed reports don't re-flag.
+ */
+
+import type {
+  Env,
+  CommunityPreset,
+  PresetReport,
+  PresetReportRow,
+  ReportCategory,
+  ReportFilters,
+  ReportListResponse,
+  ReportStatus,
+} from '../types.js';
+
+/**
+ * Report threshold used when REPORT_FLAG_THRESHOLD is not set
+ */
+export const DEFAULT_REPORT_FLAG_THRESHOLD = 3;
+
+/**
+ * moderator_discord_id recorded in moderation_log for automatic flags
+ */
+export const SYSTEM_MODERATOR_ID = 'system';
+
+/**
+ * Read the configured report threshold, falling back to the default for missing or invalid values
+ */
+export function getReportFlagThreshold(env: Pick<Env, 'REPORT_FLAG_THRESHOLD'>): number {
+  const configured = env.REPORT_FLAG_THRESHOLD ? Number(env.REPORT_FLAG_THRESHOLD) : NaN;
+  return Number.isInteger(configured) && configured >= 1 ? configured : DEFAULT_REPORT_FLAG_THRESHOLD;
+}
+
+/**
+ * Convert database row to PresetReport
+ */
+export function rowToReport(row: PresetReportRow): PresetReport {
+  return {
+    id: row.id,
+    preset_id: row.preset_id,
+    preset_name: row.preset_name ?? null,
+    reporter_key: row.reporter_key,
+    category: row.category as ReportCategory,
+    details: row.details,
+    status: row.status as ReportStatus,
+    created_at: row.created_at,
+    reviewed_at: row.reviewed_at,
+    reviewer_discord_id: row.reviewer_discord_id,
+    review_note: row.review_note,
+  };
+}
+
+/**
+ * Report a preset
+ *
+ * @param reporterKey - The reporter's user key (see getUserKey)
+ * @returns The new report, or null if this user already reported the preset
+ */
+export async function createReport(
+  db: D1Database,
+  presetId: string,
+  reporterKey: string,
+  category: ReportCategory,
+  details: string | null
+): Promise<PresetReport | null> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  const result = await db
+    .prepare(
+      `INSERT INTO preset_reports (id, preset_id, reporter_key, category, details, status, created_at)
+       VALUES (?, ?, ?, ?, ?, 'open', ?)
+       ON CONFLICT(preset_id, reporter_key) DO NOTHING`
+    )
+    .bind(id, presetId, reporterKey, category, details, now)
+    .run();
+
+  if ((result.meta?.changes ?? 0) === 0) {
+    return null;
+  }
+
+  return {
+    id,
+    preset_id: presetId,
+    preset_name: null,
+    reporter_key: reporterKey,
+    category,
+    details,
+    status: 'open',
+    created_at: now,
+    reviewed_at: null,
+    reviewer_discord_id: null,
+    review_note: null,
+  };
+}
+
+/**
+ * Count a preset's open reports (one per user)
+ */
+export async function countOpenReports(db: D1Database, presetId: string): Promise<number> {
+  const row = await db
+    .prepare("SELECT COUNT(*) AS count FROM preset_reports WHERE preset_id = ? AND status = 'open'")
+    .bind(presetId)
+    .first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+/**
+ * Flag an approved preset once it reaches the report threshold
+ *
+ * PRESETS-PERF-001: Using batch() for atomicity - the flag and its moderation
+ * log entry are written together. The entry is only written if this call's
+ * update flagged the preset, so concurrent reports log a single flag.
+ *
+ * @returns true if the preset was flagged by this call
+ */
+export async function flagIfReportThresholdReached(
+  db: D1Database,
+  preset: Pick<CommunityPreset, 'id' | 'status'>,
+  threshold: number
+): Promise<boolean> {
+  if (preset.status !== 'approved') {
+    return false;
+  }
+
+  const openReports = await countOpenReports(db, preset.id);
+  if (openReports < threshold) {
+    return false;
+  }
+
+  const now = new Date().toISOString();
+  const [flagResult] = await db.batch([
+    db
+      .prepare("UPDATE presets SET status = 'flagged', updated_at = ? WHERE id = ? AND status = 'approved'")
+      .bind(now, preset.id),
+    db
+      .prepare(
+        `INSERT INTO moderation_log (id, preset_id, moderator_discord_id, action, reason, created_at)
+         SELECT ?, ?, ?, ?, ?, ?
+         WHERE EXISTS (SELECT 1 FROM presets WHERE id = ? AND status = 'flagged' AND updated_at = ?)`
+      )
+      .bind(
+        crypto.randomUUID(),
+        preset.id,
+        SYSTEM_MODERATOR_ID,
+        'flag',
+        `Automatically flagged after ${openReports} user reports`,
+        now,
+        preset.id,
+        now
+      ),
+  ]);
+
+  return (flagResult?.meta?.changes ?? 0) > 0;
+}
+
+/**
+ * Get a report by ID
+ */
+export async function getReportById(db: D1Database, id: string): Promise<PresetReport | null> {
+  const row = await db
+    .prepare(
+      `SELECT r.*, p.name AS preset_name
+       FROM preset_reports r
+       LEFT JOIN presets p ON p.id = r.preset_id
+       WHERE r.id = ?`
+    )
+    .bind(id)
+    .first<PresetReportRow>();
+  return row ? rowToReport(row) : null;
+}
+
+/**
+ * List reports for the moderator queue, oldest first so the queue is worked in order
+ */
+export async function getReports(db: D1Database, filters: ReportFilters): Promise<ReportListResponse> {
+  const { status = 'open', page = 1, limit = 20 } = filters;
+
+  const whereClause = status === 'all' ? '' : 'WHERE r.status = ?';
+  const params: (string | number)[] = status === 'all' ? [] : [status];
+  const offset = (page - 1) * limit;
+
+  // PERFORMANCE: Window function returns the total alongside the page (see getPresets)
+  const query = `
+    SELECT r.*, p.name AS preset_name, COUNT(*) OVER() as _total
+    FROM preset_reports r
+    LEFT JOIN presets p ON p.id = r.preset_id
+    ${whereClause}
+    ORDER BY r.created_at ASC
+    LIMIT ? OFFSET ?
+  `;
+
+  const result = await db
+    .prepare(query)
+    .bind(...params, limit, offset)
+    .all<PresetReportRow & { _total: number }>();
+
+  const rows = result.results || [];
+  const total = rows.length > 0 ? rows[0]._total : 0;
+  const reports = rows.map(rowToReport);
+
+  return {
+    reports,
+    total,
+    page,
+    limit,
+    has_more: offset + reports.length < total,
+  };
+}
+
+/**
+ * Resolve (acted on) or dismiss (no action needed) an open report
+ */
+export async function reviewReport(
+  db: D1Database,
+  id: string,
+  status: Exclude<ReportStatus, 'open'>,
+  reviewerDiscordId: string,
+  note: string | null
+): Promise<PresetReport | null> {
+  await db
+    .prepare(
+      `UPDATE preset_reports
+       SET status = ?, reviewed_at = ?, reviewer_discord_id = ?, review_note = ?
+       WHERE id = ?`
+    )
+    .bind(status, new Date().toISOString(), reviewerDiscordId, note, id)
+    .run();
+
+  return getReportById(db, id);
+}
@@ -0,0 +1,120 @@
+/**
+ * Revision Service
+ * Records and reads preset revision history (migration 0012)
+ *
+ * A revision is written in the same batch as every content change - create,
+ * edit, revert, and restore - by snapshotting the preset row after the change.
+ */
+
+import type {
+  CommunityPreset,
+  PresetRevision,
+  PresetRevisionRow,
+  RevisionAction,
+  RevisionEditor,
+  RevisionField,
+} from '../types.js';
+
+/**
+ * Content fields tracked by revisions, in display order
+ */
+export const REVISION_FIELDS: readonly RevisionField[] = ['name', 'description', 'dyes', 'tags'];
+
+/**
+ * Convert database row to PresetRevision
+ */
+export function rowToRevision(row: PresetRevisionRow): PresetRevision {
+  return {
+    id: row.id,
+    preset_id: row.preset_id,
+    revision_number: row.revision_number,
+    action: row.action as RevisionAction,
+    name: row.name,
+    description: row.description,
+    dyes: JSON.parse(row.dyes),
+    tags: JSON.parse(row.tags),
+    changed_fields: JSON.parse(row.changed_fields),
+    editor_discord_id: row.editor_discord_id,
+    editor_xivauth_id: row.editor_xivauth_id,
+    moderation_status: row.moderation_status as PresetRevision['moderation_status'],
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * List the content fields that differ between two versions of a preset
+ */
+export function diffPresetContent(
+  before: Pick<CommunityPreset, RevisionField>,
+  after: Pick<CommunityPreset, RevisionField>
+): RevisionField[] {
+  return REVISION_FIELDS.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+}
+
+/**
+ * Statement that snapshots a preset's current row as its next revision
+ * Add it to the batch after the content write and index statements, so the
+ * snapshot sees the final (canonical) values and status.
+ */
+export function recordRevisionStatement(
+  db: D1Database,
+  presetId: string,
+  params: {
+    action: RevisionAction;
+    changedFields: RevisionField[];
+    editor?: RevisionEditor;
+  },
+  now: string = new Date().toISOString()
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO preset_revisions (
+        id, preset_id, revision_number, action, name, description, dyes, tags,
+        changed_fields, editor_discord_id, editor_xivauth_id, moderation_status, created_at
+      )
+      SELECT
+        ?, id,
+        (SELECT COALESCE(MAX(revision_number), 0) + 1 FROM preset_revisions WHERE preset_id = presets.id),
+        ?, name, description, dyes, tags, ?, ?, ?, status, ?
+      FROM presets WHERE id = ?`
+    )
+    .bind(
+      crypto.randomUUID(),
+      params.action,
+      JSON.stringify(params.changedFields),
+      params.editor?.discordId ?? null,
+      params.editor?.xivAuthId ?? null,
+      now,
+      presetId
+    );
+}
+
+/**
+ * Get a preset's revisions, newest first
+ */
+export async function getPresetRevisions(db: D1Database, presetId: string): Promise<PresetRevision[]> {
+  const query = `
+    SELECT * FROM preset_revisions
+    WHERE preset_id = ?
+    ORDER BY revision_number DESC
+  `;
+  const result = await db.prepare(query).bind(presetId).all<PresetRevisionRow>();
+  return (result.results || []).map(rowToRevision);
+}
+
+/**
+ * Get a single revision of a preset by its number
+ */
+export async function getPresetRevision(
+  db: D1Database,
+  presetId: string,
+  revisionNumber: number
+): Promise<PresetRevision | null> {
+  const row = await db
+    .prepare('SELECT * FROM preset_revisions WHERE preset_id = ? AND revision_number = ?')
+    .bind(presetId, revisionNumber)
+    .first<PresetRevisionRow>();
+  return row ? rowToRevision(row) : null;
+}
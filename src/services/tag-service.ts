@@ -0,0 +1,144 @@
+/**
+ * Tag Service
+ * Normalizes preset tags, lists and autocompletes tags, and merges aliases
+ *
+ * Tags are normalized in JS before storage (NFKC, trimmed, lowercased, inner
+ * whitespace collapsed); aliases are resolved in SQL when the preset's index
+ * entries are rebuilt (see preset-index-service tagIndexStatements).
+ */
+
+import type { TagSummary } from '../types.js';
+import { mergeTagIndexStatements } from './preset-index-service.js';
+
+/**
+ * Normalize a single tag
+ * "  Gothic  Knight " becomes "gothic knight"
+ */
+export function normalizeTag(tag: string): string {
+  return tag.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalize a preset's tags, dropping empty tags and duplicates (order preserved)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map(normalizeTag).filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Escape special LIKE pattern characters in user input
+ * Prevents pattern injection via wildcard characters (%, _, \)
+ */
+function escapeLikePattern(str: string): string {
+  return str.replace(/[%_\\]/g, '\\$&');
+}
+
+/**
+ * List tags used by approved presets, most used first
+ */
+export async function getTags(db: D1Database, limit: number = 100): Promise<TagSummary[]> {
+  const query = `
+    SELECT t.name, COUNT(*) AS preset_count
+    FROM tags t
+    JOIN preset_tags pt ON pt.tag = t.name
+    JOIN presets p ON p.id = pt.preset_id
+    WHERE p.status = 'approved'
+    GROUP BY t.name
+    ORDER BY preset_count DESC, t.name ASC
+    LIMIT ?
+  `;
+  const result = await db.prepare(query).bind(limit).all<TagSummary>();
+  return result.results || [];
+}
+
+/**
+ * Autocomplete tags by prefix, most used first
+ * Matches canonical tags and aliases (an alias match returns its canonical tag)
+ *
+ * @param prefix - Normalized prefix
+ */
+export async function autocompleteTags(
+  db: D1Database,
+  prefix: string,
+  limit: number = 10
+): Promise<TagSummary[]> {
+  const pattern = `${escapeLikePattern(prefix)}%`;
+  const query = `
+    SELECT t.name, COUNT(*) AS preset_count
+    FROM tags t
+    JOIN preset_tags pt ON pt.tag = t.name
+    JOIN presets p ON p.id = pt.preset_id
+    WHERE p.status = 'approved'
+      AND (
+        t.name LIKE ? ESCAPE '\\'
+        OR t.name IN (SELECT tag FROM tag_aliases WHERE alias LIKE ? ESCAPE '\\')
+      )
+    GROUP BY t.name
+    ORDER BY preset_count DESC, t.name ASC
+    LIMIT ?
+  `;
+  const result = await db.prepare(query).bind(pattern, pattern, limit).all<TagSummary>();
+  return result.results || [];
+}
+
+/**
+ * Resolve a tag to its canonical form (itself if it isn't an alias)
+ *
+ * @param tag - Normalized tag
+ */
+export async function resolveTag(db: D1Database, tag: string): Promise<string> {
+  const row = await db
+    .prepare('SELECT tag FROM tag_aliases WHERE alias = ?')
+    .bind(tag)
+    .first<{ tag: string }>();
+  return row?.tag ?? tag;
+}
+
+/**
+ * Make `alias` an alias of `tag` and merge every preset using it
+ *
+ * If `tag` is itself an alias, its canonical tag is used, and existing aliases
+ * of `alias` are re-pointed so aliases never chain. Affected presets have their
+ * tags JSON and index entries rebuilt in the same batch, by a fixed number of
+ * statements (see mergeTagIndexStatements) so popular tags merge too.
+ *
+ * @param alias - Normalized alias
+ * @param tag - Normalized target tag
+ * @returns The canonical tag and the number of presets merged, or null if
+ *          the alias would resolve to itself
+ */
+export async function mergeTagAlias(
+  db: D1Database,
+  alias: string,
+  tag: string
+): Promise<{ tag: string; presetsUpdated: number } | null> {
+  const canonical = await resolveTag(db, tag);
+  if (canonical === alias) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+
+  const aliasStatements = [
+    db.prepare('INSERT OR IGNORE INTO tags (name, created_at) VALUES (?, ?)').bind(canonical, now),
+    db
+      .prepare(
+        `INSERT INTO tag_aliases (alias, tag, created_at) VALUES (?, ?, ?)
+         ON CONFLICT(alias) DO UPDATE SET tag = excluded.tag`
+      )
+      .bind(alias, canonical, now),
+    db.prepare('UPDATE tag_aliases SET tag = ? WHERE tag = ?').bind(canonical, alias),
+  ];
+
+  // PRESETS-PERF-001: Using batch() for atomicity - the alias and the merged
+  // presets either both apply or neither does
+  const results = await db.batch([
+    ...aliasStatements,
+    ...mergeTagIndexStatements(db, alias, canonical),
+    db.prepare('DELETE FROM tags WHERE name = ?').bind(alias),
+  ]);
+
+  // The first merge statement canonicalizes the affected presets' tags
+  return { tag: canonical, presetsUpdated: results[aliasStatements.length]?.meta?.changes ?? 0 };
+}
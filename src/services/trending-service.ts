@@ -0,0 +1,68 @@
+/**
+ * Trending Service
+ * Maintains presets.trending_score, the time-decayed vote score behind sort=trending
+ *
+ * Each vote contributes 0.5^(age / half-life): a fresh vote counts 1, a vote one
+ * half-life old counts 0.5, and so on. Scores are recomputed from votes.created_at
+ * by the scheduled handler, so they can lag by up to one cron interval. Votes
+ * older than TRENDING_WINDOW_HALF_LIVES half-lives no longer count.
+ */
+
+import type { Env } from '../types.js';
+
+/**
+ * Half-life used when TRENDING_HALF_LIFE_HOURS is not set
+ */
+export const DEFAULT_TRENDING_HALF_LIFE_HOURS = 72;
+
+/**
+ * Read the configured half-life, falling back to the default for missing or invalid values
+ */
+export function getTrendingHalfLifeHours(env: Pick<Env, 'TRENDING_HALF_LIFE_HOURS'>): number {
+  const configured = env.TRENDING_HALF_LIFE_HOURS ? parseFloat(env.TRENDING_HALF_LIFE_HOURS) : NaN;
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TRENDING_HALF_LIFE_HOURS;
+}
+
+/**
+ * How many half-lives back votes count toward trending_score
+ * A vote this old weighs 0.5^10 (under 0.001), so it is dropped instead.
+ */
+export const TRENDING_WINDOW_HALF_LIVES = 10;
+
+/**
+ * Recompute trending_score for presets with votes inside the window
+ *
+ * Only votes from the last TRENDING_WINDOW_HALF_LIVES half-lives are summed, so
+ * the work tracks recent votes rather than every vote ever cast. A preset whose
+ * votes have all left the window (or been removed) is reset to 0 once and then
+ * skipped on later runs.
+ *
+ * 0.5^(days * 24 / halfLife) is evaluated as exp(decay * days) with
+ * decay = -ln(2) * 24 / halfLife, so SQLite only needs exp() and julianday().
+ *
+ * @returns Number of presets updated
+ */
+export async function refreshTrendingScores(
+  db: D1Database,
+  halfLifeHours: number = DEFAULT_TRENDING_HALF_LIFE_HOURS,
+  now: Date = new Date()
+): Promise<number> {
+  const decayPerDay = (-Math.LN2 * 24) / halfLifeHours;
+  const windowStart = new Date(
+    now.getTime() - TRENDING_WINDOW_HALF_LIVES * halfLifeHours * 60 * 60 * 1000
+  ).toISOString();
+
+  const result = await db
+    .prepare(
+      `UPDATE presets
+       SET trending_score = COALESCE((
+         SELECT SUM(exp(? * (julianday(?) - julianday(votes.created_at))))
+         FROM votes WHERE votes.preset_id = presets.id AND votes.created_at >= ?
+       ), 0)
+       WHERE trending_score != 0 OR id IN (SELECT preset_id FROM votes WHERE created_at >= ?)`
+    )
+    .bind(decayPerDay, now.toISOString(), windowStart, windowStart)
+    .run();
+
+  return result.meta.changes ?? 0;
+}
@@ -5,7 +5,17 @@
  * Provides:
  * - Generic string/array validation helpers
  * - Preset-specific validators (name, description, dyes, tags)
- * - Moderation-specific validators (status, reason)
+ * - Moderation-specific validators (status, reason, bulk preset IDs)
+ * - Ban validators (reason, duration)
+ * - Listing filter validators (dye IDs)
+ * - Tag validators (names, aliases)
+ * - Collection validators (name, description, preset order)
+ * - Comment validators (body, moderation status)
+ * - Report validators (category, details, review action)
+ * - Appeal validators (target type, message, review outcome)
+ * - Moderator validators (role, Discord ID)
+ * - Moderation policy validators (Perspective thresholds)
+ * - Profanity term validators (locale, term)
  * - Validation rule constants for consistent error messaging
  */
 
@@ -44,6 +54,113 @@ export const MODERATION_VALIDATION_RULES = {
     maxLength: 200,
   },
   validStatuses: ['approved', 'rejected', 'flagged', 'pending'] as const,
+  bulk: {
+    maxPresetIds: 100,
+  },
+} as const;
+
+/**
+ * Ban validation rules (matches the banned_users table documentation)
+ */
+export const BAN_VALIDATION_RULES = {
+  reason: {
+    minLength: 10,
+    maxLength: 500,
+  },
+  username: {
+    maxLength: 100,
+  },
+  validDurations: ['24h', '7d', '30d', 'permanent'] as const,
+} as const;
+
+/**
+ * Preset listing filter rules
+ */
+export const PRESET_FILTER_RULES = {
+  dyes: {
+    maxLength: 10,
+  },
+  validDyeMatchModes: ['all', 'any'] as const,
+} as const;
+
+/**
+ * Collection validation rules
+ */
+export const COLLECTION_VALIDATION_RULES = {
+  name: {
+    minLength: 1,
+    maxLength: 50,
+  },
+  description: {
+    maxLength: 200,
+  },
+  maxPresets: 100,
+  maxPerUser: 50,
+} as const;
+
+/**
+ * Comment validation rules
+ */
+export const COMMENT_VALIDATION_RULES = {
+  body: {
+    minLength: 1,
+    maxLength: 500,
+  },
+  moderationStatuses: ['visible', 'hidden'] as const,
+} as const;
+
+/**
+ * Report validation rules
+ */
+export const REPORT_VALIDATION_RULES = {
+  categories: ['offensive', 'spam', 'stolen', 'wrong_category'] as const,
+  details: {
+    maxLength: 500,
+  },
+  reviewStatuses: ['resolved', 'dismissed'] as const,
+} as const;
+
+/**
+ * Moderator management rules
+ */
+export const MODERATOR_VALIDATION_RULES = {
+  roles: ['reviewer', 'moderator', 'admin'] as const,
+  // Discord snowflakes are 17-19 digit numbers (as checked for MODERATOR_IDS)
+  discordIdPattern: /^\d{17,19}$/,
+} as const;
+
+/**
+ * Moderation policy rules
+ */
+export const MODERATION_POLICY_RULES = {
+  attributes: ['TOXICITY', 'SEVERE_TOXICITY', 'IDENTITY_ATTACK', 'INSULT', 'PROFANITY'] as const,
+  threshold: {
+    min: 0,
+    max: 1,
+  },
+} as const;
+
+/**
+ * Blocked profanity term rules
+ */
+export const PROFANITY_TERM_RULES = {
+  locales: ['en', 'ja', 'de', 'fr', 'ko', 'zh'] as const,
+  term: {
+    minLength: 2,
+    maxLength: 50,
+  },
+} as const;
+
+/**
+ * Appeal validation rules
+ */
+export const APPEAL_VALIDATION_RULES = {
+  targetTypes: ['preset', 'ban'] as const,
+  message: {
+    minLength: 10,
+    maxLength: 1000,
+  },
+  reviewStatuses: ['accepted', 'denied'] as const,
 } as const;
 
 // ============================================================================
@@ -301,3 +418,410 @@ export function validateModerationReason(reason: unknown): string | null {
 
   return null;
 }
+
+/**
+ * Validate the preset IDs for a bulk moderation action
+ *
+ * @param presetIds - The IDs to validate
+ * @returns Error message or null if valid
+ */
+export function validateBulkPresetIds(presetIds: unknown): string | null {
+  const { maxPresetIds } = MODERATION_VALIDATION_RULES.bulk;
+
+  if (!Array.isArray(presetIds) || presetIds.length === 0) {
+    return 'preset_ids must be a non-empty array';
+  }
+
+  if (presetIds.length > maxPresetIds) {
+    return `A bulk action can include at most ${maxPresetIds} presets`;
+  }
+
+  if (presetIds.some((id) => typeof id !== 'string' || id.trim() === '')) {
+    return 'Each preset ID must be a non-empty string';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Ban Validators
+// ============================================================================
+
+/**
+ * Validate a ban reason
+ *
+ * @param reason - The reason to validate
+ * @returns Error message or null if valid
+ */
+export function validateBanReason(reason: unknown): string | null {
+  const rules = BAN_VALIDATION_RULES.reason;
+
+  if (!reason || typeof reason !== 'string') {
+    return `Ban reason must be ${rules.minLength}-${rules.maxLength} characters`;
+  }
+
+  if (reason.length < rules.minLength || reason.length > rules.maxLength) {
+    return `Ban reason must be ${rules.minLength}-${rules.maxLength} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a ban duration (optional - omitted means permanent)
+ *
+ * @param duration - The duration to validate
+ * @returns Error message or null if valid
+ */
+export function validateBanDuration(duration: unknown): string | null {
+  if (duration === undefined) {
+    return null;
+  }
+
+  return validateEnum(duration, 'Duration', BAN_VALIDATION_RULES.validDurations);
+}
+
+// ============================================================================
+// Listing Filter Validators
+// ============================================================================
+
+/**
+ * Validate a ?dyes= filter (comma-separated dye IDs)
+ *
+ * @param value - The raw query parameter
+ * @returns Error message or null if valid
+ */
+export function validateDyeFilter(value: string): string | null {
+  const rules = PRESET_FILTER_RULES.dyes;
+  const ids = value.split(',').map((id) => id.trim());
+
+  if (ids.length > rules.maxLength) {
+    return `Dye filter accepts at most ${rules.maxLength} dye IDs`;
+  }
+
+  if (!ids.every((id) => /^\d+$/.test(id) && parseInt(id, 10) > 0)) {
+    return 'Dye filter must be a comma-separated list of dye IDs';
+  }
+
+  return null;
+}
+
+/**
+ * Validate a ?dye_match= mode (optional - omitted means 'all')
+ *
+ * @param mode - The mode to validate
+ * @returns Error message or null if valid
+ */
+export function validateDyeMatchMode(mode: unknown): string | null {
+  if (mode === undefined) {
+    return null;
+  }
+
+  return validateEnum(mode, 'Dye match mode', PRESET_FILTER_RULES.validDyeMatchModes);
+}
+
+// ============================================================================
+// Tag Validators
+// ============================================================================
+
+/**
+ * Validate a single tag name (for aliases and lookups)
+ * Checked after normalization, so whitespace-only tags are rejected
+ *
+ * @param tag - The normalized tag to validate
+ * @param fieldName - Human-readable field name for error messages
+ * @returns Error message or null if valid
+ */
+export function validateTagName(tag: string, fieldName: string = 'Tag'): string | null {
+  const maxLength = PRESET_VALIDATION_RULES.tags.itemMaxLength;
+
+  if (tag.length === 0 || tag.length > maxLength) {
+    return `${fieldName} must be 1-${maxLength} characters`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Collection Validators
+// ============================================================================
+
+/**
+ * Validate a collection name (checked after trimming)
+ *
+ * @param name - The name to validate
+ * @returns Error message or null if valid
+ */
+export function validateCollectionName(name: unknown): string | null {
+  const rules = COLLECTION_VALIDATION_RULES.name;
+
+  if (typeof name !== 'string' || name.length < rules.minLength || name.length > rules.maxLength) {
+    return `Collection name must be ${rules.minLength}-${rules.maxLength} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate an optional collection description (null clears it; empty strings are rejected)
+ *
+ * @param description - The description to validate
+ * @returns Error message or null if valid
+ */
+export function validateCollectionDescription(description: unknown): string | null {
+  if (description === undefined || description === null) {
+    return null;
+  }
+
+  return validateStringLength(description, 'Collection description', {
+    maxLength: COLLECTION_VALIDATION_RULES.description.maxLength,
+  });
+}
+
+/**
+ * Validate a new preset order: every preset currently in the collection, once each
+ *
+ * @param presetIds - The requested order
+ * @param currentIds - Preset IDs currently in the collection
+ * @returns Error message or null if valid
+ */
+export function validateCollectionOrder(presetIds: unknown, currentIds: string[]): string | null {
+  if (!Array.isArray(presetIds) || !presetIds.every((id) => typeof id === 'string')) {
+    return 'preset_ids must be an array of preset IDs';
+  }
+
+  const requested = new Set(presetIds);
+  if (
+    requested.size !== presetIds.length ||
+    requested.size !== currentIds.length ||
+    !currentIds.every((id) => requested.has(id))
+  ) {
+    return 'preset_ids must list every preset in the collection exactly once';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Comment Validators
+// ============================================================================
+
+/**
+ * Validate a comment body (callers trim it first)
+ *
+ * @param body - The body to validate
+ * @returns Error message or null if valid
+ */
+export function validateCommentBody(body: unknown): string | null {
+  const rules = COMMENT_VALIDATION_RULES.body;
+
+  if (typeof body !== 'string' || body.length < rules.minLength || body.length > rules.maxLength) {
+    return `Comment must be ${rules.minLength}-${rules.maxLength} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a status a moderator can set on a comment (approve or hide)
+ *
+ * @param status - The status to validate
+ * @returns Error message or null if valid
+ */
+export function validateCommentModerationStatus(status: unknown): string | null {
+  return validateEnum(status, 'Status', COMMENT_VALIDATION_RULES.moderationStatuses);
+}
+
+// ============================================================================
+// Report Validators
+// ============================================================================
+
+/**
+ * Validate a report category
+ *
+ * @param category - The category to validate
+ * @returns Error message or null if valid
+ */
+export function validateReportCategory(category: unknown): string | null {
+  return validateEnum(category, 'Category', REPORT_VALIDATION_RULES.categories);
+}
+
+/**
+ * Validate optional report details (empty is allowed)
+ *
+ * @param details - The details to validate
+ * @returns Error message or null if valid
+ */
+export function validateReportDetails(details: unknown): string | null {
+  if (details === undefined || details === null) {
+    return null;
+  }
+
+  if (typeof details !== 'string') {
+    return 'Details must be a string';
+  }
+
+  return validateStringLength(details, 'Details', {
+    maxLength: REPORT_VALIDATION_RULES.details.maxLength,
+    required: false,
+  });
+}
+
+/**
+ * Validate the outcome a moderator gives a report
+ *
+ * @param status - The status to validate
+ * @returns Error message or null if valid
+ */
+export function validateReportReviewStatus(status: unknown): string | null {
+  return validateEnum(status, 'Status', REPORT_VALIDATION_RULES.reviewStatuses);
+}
+
+// ============================================================================
+// Appeal Validators
+// ============================================================================
+
+/**
+ * Validate what an appeal is against
+ *
+ * @param targetType - The target type to validate
+ * @returns Error message or null if valid
+ */
+export function validateAppealTargetType(targetType: unknown): string | null {
+  return validateEnum(targetType, 'Type', APPEAL_VALIDATION_RULES.targetTypes);
+}
+
+/**
+ * Validate an appeal message
+ *
+ * @param message - The message to validate
+ * @returns Error message or null if valid
+ */
+export function validateAppealMessage(message: unknown): string | null {
+  const rules = APPEAL_VALIDATION_RULES.message;
+
+  if (typeof message !== 'string' || message.length < rules.minLength || message.length > rules.maxLength) {
+    return `Message must be ${rules.minLength}-${rules.maxLength} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the outcome a moderator gives an appeal
+ *
+ * @param status - The status to validate
+ * @returns Error message or null if valid
+ */
+export function validateAppealReviewStatus(status: unknown): string | null {
+  return validateEnum(status, 'Status', APPEAL_VALIDATION_RULES.reviewStatuses);
+}
+
+// ============================================================================
+// Moderator Validators
+// ============================================================================
+
+/**
+ * Validate a moderator role
+ *
+ * @param role - The role to validate
+ * @returns Error message or null if valid
+ */
+export function validateModeratorRole(role: unknown): string | null {
+  return validateEnum(role, 'Role', MODERATOR_VALIDATION_RULES.roles);
+}
+
+/**
+ * Validate a Discord user ID
+ *
+ * @param id - The ID to validate
+ * @returns Error message or null if valid
+ */
+export function validateDiscordId(id: unknown): string | null {
+  if (typeof id !== 'string' || !MODERATOR_VALIDATION_RULES.discordIdPattern.test(id)) {
+    return 'Discord ID must be a 17-19 digit number';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Moderation Policy Validators
+// ============================================================================
+
+/**
+ * Validate a moderation policy update
+ * Each attribute given must set both levels (null disables a level), and
+ * content must be held for review before it is rejected outright.
+ *
+ * @param attributes - Map of Perspective attribute to { pending, reject }
+ * @returns Error message or null if valid
+ */
+export function validateModerationPolicyUpdate(attributes: unknown): string | null {
+  const { min, max } = MODERATION_POLICY_RULES.threshold;
+
+  if (!attributes || typeof attributes !== 'object' || Array.isArray(attributes)) {
+    return 'attributes must be an object';
+  }
+
+  const entries = Object.entries(attributes as Record<string, unknown>);
+  if (entries.length === 0) {
+    return 'attributes must include at least one attribute';
+  }
+
+  for (const [attribute, thresholds] of entries) {
+    const attributeError = validateEnum(attribute, 'Attribute', MODERATION_POLICY_RULES.attributes);
+    if (attributeError) return attributeError;
+
+    if (!thresholds || typeof thresholds !== 'object') {
+      return `${attribute} must be an object with pending and reject thresholds`;
+    }
+
+    const { pending, reject } = thresholds as Record<string, unknown>;
+    for (const [level, value] of [
+      ['pending', pending],
+      ['reject', reject],
+    ] as const) {
+      if (value === null) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= min || value > max) {
+        return `${attribute} ${level} threshold must be null or a number above ${min} and at most ${max}`;
+      }
+    }
+
+    if (typeof pending === 'number' && typeof reject === 'number' && reject < pending) {
+      return `${attribute} reject threshold must not be below its pending threshold`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Profanity Term Validators
+// ============================================================================
+
+/**
+ * Validate a profanity list locale
+ *
+ * @param locale - The locale to validate
+ * @returns Error message or null if valid
+ */
+export function validateProfanityLocale(locale: unknown): string | null {
+  return validateEnum(locale, 'Locale', PROFANITY_TERM_RULES.locales);
+}
+
+/**
+ * Validate a blocked term (checked after trimming)
+ *
+ * @param term - The term to validate
+ * @returns Error message or null if valid
+ */
+export function validateProfanityTerm(term: unknown): string | null {
+  const rules = PROFANITY_TERM_RULES.term;
+
+  if (typeof term !== 'string' || term.length < rules.minLength || term.length > rules.maxLength) {
+    return `Term must be ${rules.minLength}-${rules.maxLength} characters`;
+  }
+
+  return null;
+}
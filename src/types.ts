@@ -5,6 +5,15 @@
  * project-specific types for the presets API worker.
  */
 
+import type {
+  AuthContext as SharedAuthContext,
+  CommunityPreset,
+  ModerationResult,
+  PresetFilters,
+  PresetListResponse,
+  PresetStatus,
+} from '@xivdyetools/types';
+
 // ============================================
 // RE-EXPORT SHARED TYPES
 // ============================================
@@ -34,7 +43,7 @@ export type {
  * @deprecated Import directly from '@xivdyetools/types' instead.
  * These re-exports will be removed in the next major version.
  */
-export type { AuthSource, AuthContext } from '@xivdyetools/types';
+export type { AuthSource } from '@xivdyetools/types';
 
 /**
  * @deprecated Import directly from '@xivdyetools/types' instead.
@@ -42,6 +51,146 @@ export type { AuthSource, AuthContext } from '@xivdyetools/types';
  */
 export type { ModerationResult, ModerationLogEntry, RateLimitResult } from '@xivdyetools/types';
 
+// ============================================
+// EXTENDED SHARED TYPES (Project-specific)
+// ============================================
+
+/**
+ * Auth context with XIVAuth identity support
+ *
+ * userDiscordId is set for Discord logins and for XIVAuth accounts with a linked
+ * Discord account. userXivAuthId is set for XIVAuth logins and for Discord logins
+ * with a linked XIVAuth account. At least one is set for authenticated users.
+ */
+export interface AuthContext extends SharedAuthContext {
+  userXivAuthId?: string;
+  /**
+   * Moderator role, once resolved by resolveModeratorRole (null: not a moderator)
+   * Until then isModerator only reflects the MODERATOR_IDS bootstrap list.
+   */
+  moderatorRole?: ModeratorRole | null;
+}
+
+/**
+ * Community preset with worker-specific fields not (yet) in the shared type
+ */
+export interface ExtendedPreset extends CommunityPreset {
+  author_xivauth_id?: string | null;
+  /** Preset this one was remixed from */
+  parent_id?: string | null;
+  /** Highlighted matches, only present on search results requested with highlight */
+  search_highlight?: PresetSearchHighlight;
+}
+
+/**
+ * Submission body with an optional remix parent
+ */
+export interface ExtendedPresetSubmission extends PresetSubmission {
+  /** ID of the approved preset this one remixes */
+  parent_id?: string;
+}
+
+/**
+ * Credit shown for a remix's parent
+ */
+export interface PresetParentSummary {
+  id: string;
+  name: string;
+  author_name: string | null;
+}
+
+/**
+ * A single preset with its remix lineage (GET /api/v1/presets/:id)
+ */
+export interface PresetWithLineage extends ExtendedPreset {
+  /** The parent, or null if this isn't a remix or the parent is no longer visible */
+  parent: PresetParentSummary | null;
+  /** Approved remixes of this preset */
+  remix_count: number;
+}
+
+/**
+ * A soft-deleted preset awaiting purge
+ */
+export interface DeletedPreset extends ExtendedPreset {
+  deleted_at: string;
+  /** When the preset will be purged; the author can restore it until then */
+  restore_until: string;
+  /** Deleted by a moderator, so the author cannot restore it */
+  deleted_by_moderator: boolean;
+}
+
+/**
+ * Preset sort orders - the shared ones plus 'relevance' for full-text searches
+ * and 'trending' for the time-decayed vote score
+ */
+export type PresetSort = NonNullable<PresetFilters['sort']> | 'relevance' | 'trending';
+
+/**
+ * Preset list filters with worker-specific options
+ */
+export interface ExtendedPresetFilters extends Omit<PresetFilters, 'sort'> {
+  /** Defaults to 'relevance' when searching, otherwise 'popular' */
+  sort?: PresetSort;
+  /** Include highlighted match snippets in search results */
+  highlight?: boolean;
+  /** Keyset cursor from a previous page; replaces page-based offsets */
+  cursor?: PresetCursor;
+  /** Only presets containing these dye IDs (see dye_match) */
+  dyes?: number[];
+  /** 'all' (default) requires every listed dye, 'any' requires at least one */
+  dye_match?: DyeMatchMode;
+  /** Only presets with this tag (normalized; aliases resolve to their tag) */
+  tag?: string;
+  /** Only remixes of this preset */
+  parent_id?: string;
+}
+
+export type DyeMatchMode = 'all' | 'any';
+
+/**
+ * A preset ranked by dye overlap with another preset
+ */
+export interface SimilarPreset extends ExtendedPreset {
+  /** Jaccard overlap of the two dye sets (0-1] */
+  similarity: number;
+  /** Number of dyes both presets use */
+  shared_dyes: number;
+}
+
+/**
+ * Sort orders that support keyset cursors
+ * Relevance ranks depend on index statistics, so they can't be resumed reliably.
+ */
+export type CursorPresetSort = Exclude<PresetSort, 'relevance'>;
+
+/**
+ * Decoded keyset cursor - the sort it belongs to and the sort key values
+ * of the last preset on the previous page
+ */
+export interface PresetCursor {
+  sort: CursorPresetSort;
+  values: (string | number)[];
+}
+
+/**
+ * Preset list response with keyset pagination
+ */
+export interface ExtendedPresetListResponse extends Omit<PresetListResponse, 'total'> {
+  /** NULL for cursor requests, which skip the count */
+  total: number | null;
+  /** Opaque cursor for the next page (NULL on the last page or for relevance sort) */
+  next_cursor: string | null;
+}
+
+/**
+ * Search match highlights - HTML-escaped text with matches wrapped in <mark>
+ */
+export interface PresetSearchHighlight {
+  name: string;
+  description: string;
+}
+
 // ============================================
 // CLOUDFLARE BINDINGS (Project-specific)
 // ============================================
@@ -62,7 +211,7 @@ export interface Env {
   // Secrets (set via wrangler secret put)
   BOT_API_SECRET: string;
   BOT_SIGNING_SECRET?: string; // HMAC signing key for bot request verification
-  MODERATOR_IDS: string;
+  MODERATOR_IDS: string; // Bootstrap admins; other moderators live in the moderators table
   PERSPECTIVE_API_KEY?: string;
   MODERATION_WEBHOOK_URL?: string;
   OWNER_DISCORD_ID?: string;
@@ -74,6 +223,15 @@ export interface Env {
   // Discord bot webhook for notifications
   DISCORD_BOT_WEBHOOK_URL?: string;
   INTERNAL_WEBHOOK_SECRET?: string;
+
+  // Trending sort: hours for a vote's weight to halve (default 72)
+  TRENDING_HALF_LIFE_HOURS?: string;
+
+  // Days a deleted preset can be restored before it is purged (default 30)
+  PRESET_RESTORE_WINDOW_DAYS?: string;
+
+  // Open user reports that move an approved preset to 'flagged' (default 3)
+  REPORT_FLAG_THRESHOLD?: string;
 }
 
 // ============================================
@@ -88,6 +246,7 @@ export interface PresetRow {
   dyes: string; // JSON string
   tags: string; // JSON string
   author_discord_id: string | null;
+  author_xivauth_id?: string | null;
   author_name: string | null;
   vote_count: number;
   status: string;
@@ -96,6 +255,11 @@ export interface PresetRow {
   updated_at: string;
   dye_signature: string | null;
   previous_values: string | null; // JSON string of PresetPreviousValues
+  pre_ban_status?: string | null; // Status to restore when the author is unbanned
+  trending_score?: number; // Time-decayed vote score (see trending-service)
+  deleted_at?: string | null; // Set while soft-deleted (see deletion-service)
+  deleted_by_moderator?: number; // SQLite boolean (0 or 1)
+  parent_id?: string | null; // Preset this one was remixed from
 }
 
 export interface CategoryRow {
@@ -112,3 +276,515 @@ export interface VoteRow {
   user_discord_id: string;
   created_at: string;
 }
+
+export interface PresetRevisionRow {
+  id: string;
+  preset_id: string;
+  revision_number: number;
+  action: string;
+  name: string;
+  description: string;
+  dyes: string; // JSON string
+  tags: string; // JSON string
+  changed_fields: string; // JSON string
+  editor_discord_id: string | null;
+  editor_xivauth_id: string | null;
+  moderation_status: string;
+  created_at: string;
+}
+
+export interface CollectionRow {
+  id: string;
+  owner_discord_id: string;
+  name: string;
+  description: string | null;
+  is_public: number; // SQLite boolean (0 or 1)
+  created_at: string;
+  updated_at: string;
+  preset_count?: number; // Computed by list queries
+}
+
+export interface PresetCommentRow {
+  id: string;
+  preset_id: string;
+  author_discord_id: string | null;
+  author_xivauth_id: string | null;
+  author_name: string | null;
+  body: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  edited_at: string | null;
+}
+
+export interface PresetReportRow {
+  id: string;
+  preset_id: string;
+  reporter_key: string;
+  category: string;
+  details: string | null;
+  status: string;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewer_discord_id: string | null;
+  review_note: string | null;
+  preset_name?: string | null; // Joined by list queries
+}
+
+export interface ModerationClaimRow {
+  preset_id: string;
+  moderator_discord_id: string;
+  claimed_at: string;
+  expires_at: string;
+}
+
+export interface AppealRow {
+  id: string;
+  target_type: string;
+  target_id: string;
+  appellant_discord_id: string | null;
+  appellant_xivauth_id: string | null;
+  appellant_name: string;
+  message: string;
+  status: string;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewer_discord_id: string | null;
+  review_reason: string | null;
+}
+
+export interface ModerationPolicyRow {
+  attribute: string;
+  pending_threshold: number | null;
+  reject_threshold: number | null;
+  updated_at: string;
+  updated_by: string;
+}
+
+export interface ProfanityTermRow {
+  id: string;
+  locale: string;
+  term: string;
+  added_by: string;
+  created_at: string;
+}
+
+export interface ModeratorRow {
+  discord_id: string;
+  role: string;
+  added_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BannedUserRow {
+  id: string;
+  discord_id: string | null;
+  xivauth_id: string | null;
+  username: string;
+  moderator_discord_id: string;
+  reason: string;
+  banned_at: string;
+  unbanned_at: string | null;
+  unban_moderator_discord_id: string | null;
+  expires_at: string | null;
+}
+
+// ============================================
+// REVISION TYPES (Project-specific)
+// ============================================
+
+/**
+ * What produced a revision - 'baseline' marks content that predates revision history
+ */
+export type RevisionAction = 'baseline' | 'create' | 'edit' | 'revert' | 'restore';
+
+export type RevisionField = 'name' | 'description' | 'dyes' | 'tags';
+
+/**
+ * A snapshot of a preset's content after a change
+ */
+export interface PresetRevision {
+  id: string;
+  preset_id: string;
+  revision_number: number;
+  action: RevisionAction;
+  name: string;
+  description: string;
+  dyes: number[];
+  tags: string[];
+  changed_fields: RevisionField[];
+  editor_discord_id: string | null;
+  editor_xivauth_id: string | null;
+  /** Preset status after the change (the moderation outcome) */
+  moderation_status: PresetStatus;
+  created_at: string;
+}
+
+/**
+ * Who made a change (author for create/edit, moderator for revert/restore)
+ */
+export interface RevisionEditor {
+  discordId?: string | null;
+  xivAuthId?: string | null;
+}
+
+// ============================================
+// TAG TYPES (Project-specific)
+// ============================================
+
+/**
+ * A tag with the number of approved presets using it
+ */
+export interface TagSummary {
+  name: string;
+  preset_count: number;
+}
+
+// ============================================
+// COLLECTION TYPES (Project-specific)
+// ============================================
+
+/**
+ * A user's named list of presets
+ */
+export interface Collection {
+  id: string;
+  owner_discord_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  /** Number of visible (approved, not deleted) presets */
+  preset_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A collection with its visible presets in display order
+ */
+export interface CollectionWithPresets extends Collection {
+  presets: ExtendedPreset[];
+}
+
+export interface CollectionCreateRequest {
+  name: string;
+  description?: string | null;
+  is_public?: boolean;
+}
+
+export interface CollectionUpdateRequest {
+  name?: string;
+  description?: string | null;
+  is_public?: boolean;
+}
+
+// ============================================
+// BOOKMARK TYPES (Project-specific)
+// ============================================
+
+/**
+ * A preset in the current user's bookmarks
+ */
+export interface BookmarkedPreset extends ExtendedPreset {
+  bookmarked_at: string;
+}
+
+export interface BookmarkListResponse {
+  presets: BookmarkedPreset[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+// ============================================
+// COMMENT TYPES (Project-specific)
+// ============================================
+
+/**
+ * 'pending' comments were flagged by moderation and are only shown to their author
+ */
+export type CommentStatus = 'visible' | 'pending' | 'hidden';
+
+export interface PresetComment {
+  id: string;
+  preset_id: string;
+  author_discord_id: string | null;
+  author_xivauth_id: string | null;
+  author_name: string | null;
+  body: string;
+  status: CommentStatus;
+  created_at: string;
+  updated_at: string;
+  /** NULL unless the author edited the comment */
+  edited_at: string | null;
+}
+
+export interface CommentListResponse {
+  comments: PresetComment[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+// ============================================
+// REPORT TYPES (Project-specific)
+// ============================================
+
+export type ReportCategory = 'offensive' | 'spam' | 'stolen' | 'wrong_category';
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+/**
+ * A user report against a preset
+ */
+export interface PresetReport {
+  id: string;
+  preset_id: string;
+  /** Name of the reported preset, for the moderator queue */
+  preset_name: string | null;
+  reporter_key: string;
+  category: ReportCategory;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewer_discord_id: string | null;
+  review_note: string | null;
+}
+
+export interface ReportFilters {
+  /** 'open' (default), a review outcome, or 'all' */
+  status?: ReportStatus | 'all';
+  page?: number;
+  limit?: number;
+}
+
+export interface ReportListResponse {
+  reports: PresetReport[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+// ============================================
+// APPEAL TYPES (Project-specific)
+// ============================================
+
+export type AppealTargetType = 'preset' | 'ban';
+
+export type AppealStatus = 'open' | 'accepted' | 'denied';
+
+/**
+ * An appeal against a rejected preset or an active ban
+ * target_id is the preset ID or the ban ID, depending on target_type
+ */
+export interface Appeal {
+  id: string;
+  target_type: AppealTargetType;
+  target_id: string;
+  appellant_discord_id: string | null;
+  appellant_xivauth_id: string | null;
+  appellant_name: string;
+  message: string;
+  status: AppealStatus;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewer_discord_id: string | null;
+  review_reason: string | null;
+}
+
+export interface AppealFilters {
+  /** 'open' (default), a review outcome, or 'all' */
+  status?: AppealStatus | 'all';
+  page?: number;
+  limit?: number;
+}
+
+export interface AppealListResponse {
+  appeals: Appeal[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+// ============================================
+// MODERATION POLICY TYPES (Project-specific)
+// ============================================
+
+export type PerspectiveAttribute = 'TOXICITY' | 'SEVERE_TOXICITY' | 'IDENTITY_ATTACK' | 'INSULT' | 'PROFANITY';
+
+/**
+ * Perspective scores (0-1) at which content is held for review or rejected outright
+ * null disables that level for the attribute
+ */
+export interface AttributeThresholds {
+  pending: number | null;
+  reject: number | null;
+}
+
+export interface ModerationPolicy {
+  attributes: Record<PerspectiveAttribute, AttributeThresholds>;
+  /** Last change to any attribute (null while every attribute uses the defaults) */
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+/**
+ * What to do with content that failed moderation
+ */
+export type ModerationAction = 'pending' | 'reject';
+
+/**
+ * Text normalization applied by the local filter before matching, in order
+ * (see normalization-service)
+ */
+export type NormalizationStage = 'none' | 'unicode' | 'confusables' | 'separators' | 'repeats';
+
+/**
+ * Fields moderateContent checks ('content' = Perspective flagged the fields together
+ * but none of them on its own)
+ */
+export type ModeratedField = 'name' | 'description' | 'tags' | 'author_name' | 'content';
+
+/**
+ * Moderation result with the action the policy calls for (set when passed is false)
+ * and, for local filter matches, the normalization stage that produced the match
+ */
+export interface ExtendedModerationResult extends Omit<ModerationResult, 'flaggedField'> {
+  flaggedField?: ModeratedField;
+  action?: ModerationAction;
+  normalization?: NormalizationStage;
+}
+
+// ============================================
+// PROFANITY TERM TYPES (Project-specific)
+// ============================================
+
+/**
+ * A blocked term added through the API, checked alongside the bundled word lists
+ */
+export type ProfanityTerm = ProfanityTermRow;
+
+// ============================================
+// MODERATOR ROLE TYPES (Project-specific)
+// ============================================
+
+export type ModeratorRole = 'reviewer' | 'moderator' | 'admin';
+
+/**
+ * Actions a moderator role can be allowed to take
+ * Routes not tied to one of these (queues, history, claims) are open to every role
+ */
+export type ModeratorPermission =
+  | 'approve'
+  | 'reject'
+  | 'revert'
+  | 'ban'
+  | 'purge'
+  | 'manage_categories'
+  | 'manage_policy'
+  | 'manage_moderators';
+
+/**
+ * A moderator managed through the API (MODERATOR_IDS admins are not listed)
+ */
+export interface Moderator {
+  discord_id: string;
+  role: ModeratorRole;
+  permissions: ModeratorPermission[];
+  added_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================
+// MODERATION CLAIM TYPES (Project-specific)
+// ============================================
+
+/**
+ * A moderator's temporary lock on a pending preset
+ */
+export type ModerationClaim = ModerationClaimRow;
+
+/**
+ * A pending preset with the active claim on it, if any (GET /moderation/pending)
+ */
+export interface PendingPreset extends CommunityPreset {
+  claim: ModerationClaim | null;
+}
+
+/**
+ * Outcome of a claim attempt - on failure, claim is the other moderator's active claim
+ */
+export interface ClaimResult {
+  claimed: boolean;
+  claim: ModerationClaim;
+}
+
+// ============================================
+// BULK MODERATION TYPES (Project-specific)
+// ============================================
+
+/**
+ * Why a preset in a bulk status change was skipped
+ */
+export type BulkStatusSkipReason = 'not_found' | 'unchanged' | 'claimed';
+
+/**
+ * Per-preset outcome of PATCH /moderation/bulk/status
+ */
+export interface BulkStatusResult {
+  preset_id: string;
+  success: boolean;
+  /** Status before the change (updated presets only) */
+  previous_status?: PresetStatus;
+  error?: BulkStatusSkipReason;
+  /** The other moderator's claim, when error is 'claimed' */
+  claim?: ModerationClaim;
+}
+
+// ============================================
+// BAN TYPES (Project-specific)
+// ============================================
+
+/**
+ * A ban record as returned by the moderation API
+ */
+export interface UserBan {
+  id: string;
+  discord_id: string | null;
+  xivauth_id: string | null;
+  username: string;
+  moderator_discord_id: string;
+  reason: string;
+  banned_at: string;
+  unbanned_at: string | null;
+  unban_moderator_discord_id: string | null;
+  /** NULL for permanent bans */
+  expires_at: string | null;
+  is_active: boolean;
+  /** Seconds until an active temporary ban expires (NULL if permanent or inactive) */
+  remaining_seconds: number | null;
+}
+
+export type BanDuration = '24h' | '7d' | '30d' | 'permanent';
+
+export interface BanFilters {
+  /** 'active' (default) lists only current bans, 'all' includes lifted bans */
+  status?: 'active' | 'all';
+  page?: number;
+  limit?: number;
+}
+
+export interface BanListResponse {
+  bans: UserBan[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
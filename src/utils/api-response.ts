@@ -19,6 +19,7 @@
  */
 
 import type { Context } from 'hono';
+import type { ExtendedModerationResult } from '../types.js';
 
 // ============================================
 // ERROR CODES
@@ -40,6 +41,7 @@ export const ErrorCode = {
   DUPLICATE_RESOURCE: 'DUPLICATE_RESOURCE',
   RATE_LIMITED: 'RATE_LIMITED',
   USER_BANNED: 'USER_BANNED',
+  CONTENT_FLAGGED: 'CONTENT_FLAGGED',
 
   // Server errors (5xx)
   INTERNAL_ERROR: 'INTERNAL_ERROR',
@@ -171,6 +173,18 @@ export function duplicateResponse(c: AnyContext, message: string): Response {
   return errorResponse(c, ErrorCode.DUPLICATE_RESOURCE, message, 409);
 }
 
+/**
+ * 422 Unprocessable Entity - Content refused by moderation
+ */
+export function contentFlaggedResponse(
+  c: AnyContext,
+  result: Pick<ExtendedModerationResult, 'flaggedField' | 'flaggedReason'>
+): Response {
+  const field = result.flaggedField ? ` (${result.flaggedField})` : '';
+  const reason = result.flaggedReason ?? 'Content flagged';
+  return errorResponse(c, ErrorCode.CONTENT_FLAGGED, `Content was rejected by moderation${field}: ${reason}`, 422);
+}
+
 /**
  * 500 Internal Server Error
  */
@@ -20,7 +20,7 @@ export interface EnvValidationResult {
  * - API_VERSION: API version string
  * - CORS_ORIGIN: Allowed CORS origin
  * - BOT_API_SECRET: Secret for bot authentication
- * - MODERATOR_IDS: Comma-separated Discord user IDs for moderators
+ * - MODERATOR_IDS: Comma-separated Discord user IDs of bootstrap admins (other moderators are in D1)
  * - DB: D1 database binding
  */
 export function validateEnv(env: Env): EnvValidationResult {
@@ -79,6 +79,30 @@ export function validateEnv(env: Env): EnvValidationResult {
     }
   }
 
+  // Validate TRENDING_HALF_LIFE_HOURS if present (positive number of hours)
+  if (env.TRENDING_HALF_LIFE_HOURS !== undefined) {
+    const hours = Number(env.TRENDING_HALF_LIFE_HOURS);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      errors.push(`Invalid TRENDING_HALF_LIFE_HOURS: ${env.TRENDING_HALF_LIFE_HOURS}`);
+    }
+  }
+
+  // Validate PRESET_RESTORE_WINDOW_DAYS if present (positive number of days)
+  if (env.PRESET_RESTORE_WINDOW_DAYS !== undefined) {
+    const days = Number(env.PRESET_RESTORE_WINDOW_DAYS);
+    if (!Number.isFinite(days) || days <= 0) {
+      errors.push(`Invalid PRESET_RESTORE_WINDOW_DAYS: ${env.PRESET_RESTORE_WINDOW_DAYS}`);
+    }
+  }
+
+  // Validate REPORT_FLAG_THRESHOLD if present (positive whole number of reports)
+  if (env.REPORT_FLAG_THRESHOLD !== undefined) {
+    const threshold = Number(env.REPORT_FLAG_THRESHOLD);
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      errors.push(`Invalid REPORT_FLAG_THRESHOLD: ${env.REPORT_FLAG_THRESHOLD}`);
+    }
+  }
+
   // Check D1 database binding
   if (!env.DB) {
     errors.push('Missing required D1 database binding: DB');
@@ -0,0 +1,202 @@
+/**
+ * Appeals Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { appealsRouter } from '../../src/handlers/appeals';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext } from '../../src/types';
+import { createMockEnv, createMockD1Database, createMockPresetRow, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+describe('AppealsHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    const headersFor = (userId: string) => ({
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer test-bot-secret',
+        'X-User-Discord-ID': userId,
+        'X-User-Discord-Name': 'Author',
+    });
+
+    const banRow = {
+        id: 'ban-1',
+        discord_id: 'author-1',
+        xivauth_id: null,
+        username: 'Author',
+        moderator_discord_id: '123456789',
+        reason: 'Repeated spam submissions',
+        banned_at: '2025-01-01T00:00:00Z',
+        unbanned_at: null,
+        unban_moderator_discord_id: null,
+        expires_at: null,
+    };
+
+    const appeal = (body: Record<string, unknown>, userId = 'author-1') =>
+        app.request(
+            '/api/v1/appeals',
+            { method: 'POST', headers: headersFor(userId), body: JSON.stringify(body) },
+            env
+        );
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/appeals', appealsRouter);
+
+        vi.clearAllMocks();
+    });
+
+    describe('POST /api/v1/appeals', () => {
+        it('should let the author appeal a rejected preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-1', status: 'rejected', author_discord_id: 'author-1' });
+                }
+                if (query.includes('SELECT 1 FROM appeals')) return null;
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await appeal({ type: 'preset', preset_id: 'preset-1', message: 'This palette is my own work' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { appeal: { target_type: string; target_id: string; status: string } };
+            expect(body.appeal).toMatchObject({ target_type: 'preset', target_id: 'preset-1', status: 'open' });
+        });
+
+        it("should not allow appealing someone else's preset", async () => {
+            mockDb._setupMock(() =>
+                createMockPresetRow({ id: 'preset-1', status: 'rejected', author_discord_id: 'author-1' })
+            );
+
+            const res = await appeal({ type: 'preset', preset_id: 'preset-1', message: 'This palette is my own work' }, 'other');
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should only allow appealing rejected presets', async () => {
+            mockDb._setupMock(() =>
+                createMockPresetRow({ id: 'preset-1', status: 'approved', author_discord_id: 'author-1' })
+            );
+
+            const res = await appeal({ type: 'preset', preset_id: 'preset-1', message: 'This palette is my own work' });
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should let a banned user appeal their active ban', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM banned_users')) return banRow;
+                if (query.includes('SELECT 1 FROM appeals')) return null;
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await appeal({ type: 'ban', message: 'I did not submit those presets' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { appeal: { target_type: string; target_id: string } };
+            expect(body.appeal).toMatchObject({ target_type: 'ban', target_id: 'ban-1' });
+        });
+
+        it('should log the submission', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM banned_users')) return banRow;
+                if (query.includes('SELECT 1 FROM appeals WHERE target_type')) return null;
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await appeal({ type: 'ban', message: 'I did not submit those presets' });
+
+            expect(res.status).toBe(201);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toEqual(
+                expect.arrayContaining(['appeal_submit', 'author-1'])
+            );
+        });
+
+        it('should return 404 when there is no active ban to appeal', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await appeal({ type: 'ban', message: 'I did not submit those presets' });
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 409 when the decision was already appealed', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM banned_users')) return banRow;
+                if (query.includes('SELECT 1 FROM appeals')) return { 1: 1 };
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await appeal({ type: 'ban', message: 'I did not submit those presets' });
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO appeals'))).toBe(false);
+        });
+
+        it('should only count denied preset appeals filed since the latest rejection', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-1', status: 'rejected', author_discord_id: 'author-1' });
+                }
+                if (query.includes('SELECT 1 FROM appeals')) return null;
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await appeal({ type: 'preset', preset_id: 'preset-1', message: 'Rejected again after my edit' });
+
+            expect(res.status).toBe(201);
+            const check = mockDb._queries.find((q) => q.includes('SELECT 1 FROM appeals'));
+            expect(check).toContain("status = 'denied'");
+            expect(check).toContain("FROM moderation_log WHERE preset_id = appeals.target_id AND action = 'reject'");
+        });
+
+        it('should validate the type and message', async () => {
+            const badType = await appeal({ type: 'comment', message: 'This palette is my own work' });
+            const shortMessage = await appeal({ type: 'ban', message: 'pls' });
+
+            expect(badType.status).toBe(400);
+            expect(shortMessage.status).toBe(400);
+        });
+    });
+
+    describe('GET /api/v1/appeals', () => {
+        it("should list the user's appeals", async () => {
+            mockDb._setupMock(() => [
+                {
+                    id: 'appeal-1',
+                    target_type: 'ban',
+                    target_id: 'ban-1',
+                    appellant_discord_id: 'author-1',
+                    appellant_xivauth_id: null,
+                    appellant_name: 'Author',
+                    message: 'I did not submit those presets',
+                    status: 'denied',
+                    created_at: '2025-01-02T00:00:00Z',
+                    reviewed_at: '2025-01-03T00:00:00Z',
+                    reviewer_discord_id: '123456789',
+                    review_reason: 'Submissions came from this account',
+                },
+            ]);
+
+            const res = await app.request('/api/v1/appeals', { headers: headersFor('author-1') }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { appeals: Array<{ status: string }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.appeals[0].status).toBe('denied');
+            expect(mockDb._bindings[0][0]).toBe('author-1');
+        });
+    });
+});
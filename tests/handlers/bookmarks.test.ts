@@ -0,0 +1,227 @@
+/**
+ * Bookmarks Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { bookmarksRouter } from '../../src/handlers/bookmarks';
+import { addBookmark, getBookmarkedStatus } from '../../src/services/bookmark-service';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext } from '../../src/types';
+import {
+    createMockEnv,
+    createMockD1Database,
+    createMockPresetRow,
+    resetCounters,
+} from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+describe('BookmarksHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    const authHeaders = {
+        Authorization: 'Bearer test-bot-secret',
+        'X-User-Discord-ID': 'user-456',
+    };
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/bookmarks', bookmarksRouter);
+
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // POST /api/v1/bookmarks/:presetId
+    // ============================================
+
+    describe('POST /api/v1/bookmarks/:presetId', () => {
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/bookmarks/preset-1', { method: 'POST' }, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should bookmark an approved preset without touching votes', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM presets WHERE id = ?')) {
+                    return createMockPresetRow({ id: 'preset-1', status: 'approved' });
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await app.request('/api/v1/bookmarks/preset-1', { method: 'POST', headers: authHeaders }, env);
+
+            expect(res.status).toBe(201);
+            const insertIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO bookmarks'));
+            expect(mockDb._bindings[insertIndex].slice(0, 2)).toEqual(['user-456', 'preset-1']);
+            expect(mockDb._queries.some((q) => q.includes('vote_count'))).toBe(false);
+            expect(mockDb._queries.some((q) => q.includes('votes'))).toBe(false);
+        });
+
+        it('should return 404 for a preset that is not approved', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM presets WHERE id = ?')) {
+                    return createMockPresetRow({ id: 'preset-1', status: 'pending' });
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await app.request('/api/v1/bookmarks/preset-1', { method: 'POST', headers: authHeaders }, env);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 409 when already bookmarked', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM presets WHERE id = ?')) {
+                    return createMockPresetRow({ id: 'preset-1', status: 'approved' });
+                }
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            const res = await app.request('/api/v1/bookmarks/preset-1', { method: 'POST', headers: authHeaders }, env);
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/bookmarks/:presetId
+    // ============================================
+
+    describe('DELETE /api/v1/bookmarks/:presetId', () => {
+        it('should remove a bookmark', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const res = await app.request('/api/v1/bookmarks/preset-1', { method: 'DELETE', headers: authHeaders }, env);
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries[0]).toContain('DELETE FROM bookmarks WHERE user_key IN (?) AND preset_id = ?');
+        });
+
+        it('should return 404 when the preset is not bookmarked', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const res = await app.request('/api/v1/bookmarks/preset-1', { method: 'DELETE', headers: authHeaders }, env);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/bookmarks
+    // ============================================
+
+    describe('GET /api/v1/bookmarks', () => {
+        it('should list bookmarked presets with pagination', async () => {
+            mockDb._setupMock(() => [
+                { ...createMockPresetRow({ id: 'preset-1' }), bookmarked_at: '2025-02-01T00:00:00Z', _total: 3 },
+                { ...createMockPresetRow({ id: 'preset-2' }), bookmarked_at: '2025-01-01T00:00:00Z', _total: 3 },
+            ]);
+
+            const res = await app.request('/api/v1/bookmarks?limit=2', { headers: authHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as {
+                presets: Array<{ id: string; bookmarked_at: string }>;
+                total: number;
+                has_more: boolean;
+            };
+            expect(body.presets.map((p) => p.id)).toEqual(['preset-1', 'preset-2']);
+            expect(body.presets[0].bookmarked_at).toBe('2025-02-01T00:00:00Z');
+            expect(body.total).toBe(3);
+            expect(body.has_more).toBe(true);
+            expect(mockDb._queries[0]).toContain("p.status = 'approved' AND p.deleted_at IS NULL");
+            expect(mockDb._bindings[0]).toEqual(['user-456', 2, 0]);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/bookmarks/check
+    // ============================================
+
+    describe('GET /api/v1/bookmarks/check', () => {
+        it('should map every requested preset to its bookmark status', async () => {
+            mockDb._setupMock(() => [{ preset_id: 'preset-2' }]);
+
+            const res = await app.request(
+                '/api/v1/bookmarks/check?preset_ids=preset-1,preset-2,preset-1',
+                { headers: authHeaders },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { bookmarked: Record<string, boolean> };
+            expect(body.bookmarked).toEqual({ 'preset-1': false, 'preset-2': true });
+            expect(mockDb._queries).toHaveLength(1);
+            expect(mockDb._bindings[0]).toEqual(['user-456', 'preset-1', 'preset-2']);
+        });
+
+        it('should require preset_ids', async () => {
+            const res = await app.request('/api/v1/bookmarks/check', { headers: authHeaders }, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should stay within the D1 parameter limit at the cap', async () => {
+            mockDb._setupMock(() => [{ preset_id: 'preset-99' }]);
+            const ids = Array.from({ length: 100 }, (_, i) => `preset-${i}`).join(',');
+
+            const res = await app.request(`/api/v1/bookmarks/check?preset_ids=${ids}`, { headers: authHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { bookmarked: Record<string, boolean> };
+            expect(Object.keys(body.bookmarked)).toHaveLength(100);
+            expect(body.bookmarked['preset-99']).toBe(true);
+            expect(mockDb._queries).toHaveLength(2);
+            expect(mockDb._bindings.every((b) => b.length <= 100)).toBe(true);
+        });
+
+        it('should cap the number of preset_ids', async () => {
+            const ids = Array.from({ length: 101 }, (_, i) => `preset-${i}`).join(',');
+
+            const res = await app.request(`/api/v1/bookmarks/check?preset_ids=${ids}`, { headers: authHeaders }, env);
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // Linked Discord+XIVAuth accounts
+    // ============================================
+
+    describe('Linked accounts', () => {
+        const linkedKeys = ['user-456', 'xivauth:xiv-1'];
+
+        it('should not bookmark a preset already bookmarked under the other key', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const added = await addBookmark(mockDb as unknown as D1Database, linkedKeys, 'preset-1');
+
+            expect(added).toBe(false);
+            expect(mockDb._queries[0]).toContain('user_key IN (?, ?)');
+            expect(mockDb._bindings[0]).toEqual(['user-456', 'preset-1', expect.any(String), ...linkedKeys, 'preset-1']);
+        });
+
+        it('should check bookmarks under both keys and stay within the parameter limit', async () => {
+            mockDb._setupMock(() => []);
+            const ids = Array.from({ length: 100 }, (_, i) => `preset-${i}`);
+
+            await getBookmarkedStatus(mockDb as unknown as D1Database, linkedKeys, ids);
+
+            expect(mockDb._bindings.every((b) => b.length <= 100)).toBe(true);
+            expect(mockDb._bindings.every((b) => b[0] === 'user-456' && b[1] === 'xivauth:xiv-1')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,392 @@
+/**
+ * Collections Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { collectionsRouter } from '../../src/handlers/collections';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext } from '../../src/types';
+import { _resetPatternsForTesting, _setTestPatterns } from '../../src/services/moderation-service';
+import { createMockEnv, createMockD1Database, createMockPresetRow, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+describe('CollectionsHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    const ownerHeaders = {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer test-bot-secret',
+        'X-User-Discord-ID': 'owner-1',
+    };
+
+    const otherHeaders = { ...ownerHeaders, 'X-User-Discord-ID': 'other-user' };
+
+    const collectionRow = (overrides: Record<string, unknown> = {}) => ({
+        id: 'collection-1',
+        owner_discord_id: 'owner-1',
+        name: 'Dark Knight glam',
+        description: null,
+        is_public: 1,
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+        preset_count: 2,
+        ...overrides,
+    });
+
+    /**
+     * Route mock results by query: the collection lookup, the preset list, ban
+     * checks (never banned), and everything else
+     */
+    const setupCollection = (
+        row: Record<string, unknown> | null,
+        presets: unknown[] = [],
+        fallback: unknown = { success: true, meta: { changes: 1 } }
+    ) => {
+        mockDb._setupMock((query) => {
+            if (query.includes('banned_users')) return null;
+            if (query.includes('FROM collections c')) return row;
+            if (query.includes('SELECT p.* FROM collection_presets')) return presets;
+            return fallback;
+        });
+    };
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/collections', collectionsRouter);
+
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // GET /api/v1/collections/:id
+    // ============================================
+
+    describe('GET /api/v1/collections/:id', () => {
+        it('should return a public collection with its presets', async () => {
+            setupCollection(collectionRow(), [createMockPresetRow({ id: 'preset-1' })]);
+
+            const res = await app.request('/api/v1/collections/collection-1', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { name: string; is_public: boolean; presets: Array<{ id: string }> };
+            expect(body.name).toBe('Dark Knight glam');
+            expect(body.is_public).toBe(true);
+            expect(body.presets[0].id).toBe('preset-1');
+        });
+
+        it('should only read visible presets', async () => {
+            setupCollection(collectionRow());
+
+            await app.request('/api/v1/collections/collection-1', {}, env);
+
+            const presetQuery = mockDb._queries.find((q) => q.includes('SELECT p.* FROM collection_presets'));
+            expect(presetQuery).toContain("p.status = 'approved' AND p.deleted_at IS NULL");
+            expect(presetQuery).toContain('ORDER BY cp.position ASC');
+        });
+
+        it('should hide a private collection from other users', async () => {
+            setupCollection(collectionRow({ is_public: 0 }));
+
+            const res = await app.request('/api/v1/collections/collection-1', { headers: otherHeaders }, env);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should show a private collection to its owner', async () => {
+            setupCollection(collectionRow({ is_public: 0 }));
+
+            const res = await app.request('/api/v1/collections/collection-1', { headers: ownerHeaders }, env);
+
+            expect(res.status).toBe(200);
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/collections
+    // ============================================
+
+    describe('POST /api/v1/collections', () => {
+        it('should require authentication', async () => {
+            const res = await app.request(
+                '/api/v1/collections',
+                { method: 'POST', body: JSON.stringify({ name: 'Summer event' }) },
+                env
+            );
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should create a private collection by default', async () => {
+            setupCollection(null, [], { count: 0 });
+
+            const res = await app.request(
+                '/api/v1/collections',
+                { method: 'POST', headers: ownerHeaders, body: JSON.stringify({ name: '  Summer event ' }) },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { collection: { name: string; is_public: boolean; owner_discord_id: string } };
+            expect(body.collection).toMatchObject({ name: 'Summer event', is_public: false, owner_discord_id: 'owner-1' });
+        });
+
+        it('should validate the name', async () => {
+            setupCollection(null, [], { count: 0 });
+
+            const res = await app.request(
+                '/api/v1/collections',
+                { method: 'POST', headers: ownerHeaders, body: JSON.stringify({ name: '   ' }) },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should refuse a name or description that fails moderation', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            setupCollection(null, [], { count: 0 });
+
+            try {
+                const res = await app.request(
+                    '/api/v1/collections',
+                    {
+                        method: 'POST',
+                        headers: ownerHeaders,
+                        body: JSON.stringify({ name: 'Summer event', description: 'Full of badword', is_public: true }),
+                    },
+                    env
+                );
+
+                expect(res.status).toBe(422);
+                const body = await res.json() as { error: string; message: string };
+                expect(body.error).toBe('CONTENT_FLAGGED');
+                expect(body.message).toContain('description');
+                expect(mockDb._queries.some((q) => q.includes('INSERT INTO collections'))).toBe(false);
+            } finally {
+                _resetPatternsForTesting();
+            }
+        });
+
+        it('should enforce the per-user collection limit', async () => {
+            setupCollection(null, [], { count: 50 });
+
+            const res = await app.request(
+                '/api/v1/collections',
+                { method: 'POST', headers: ownerHeaders, body: JSON.stringify({ name: 'One too many' }) },
+                env
+            );
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    // ============================================
+    // PATCH / DELETE /api/v1/collections/:id
+    // ============================================
+
+    describe('PATCH /api/v1/collections/:id', () => {
+        it('should rename and change visibility for the owner', async () => {
+            setupCollection(collectionRow());
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1',
+                {
+                    method: 'PATCH',
+                    headers: ownerHeaders,
+                    body: JSON.stringify({ name: 'Renamed', is_public: false }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const updateIndex = mockDb._queries.findIndex((q) => q.includes('UPDATE collections SET'));
+            expect(mockDb._queries[updateIndex]).toContain('name = ?');
+            expect(mockDb._queries[updateIndex]).toContain('is_public = ?');
+            expect(mockDb._bindings[updateIndex]).toContain('Renamed');
+            expect(mockDb._bindings[updateIndex]).toContain(0);
+        });
+
+        it('should refuse a rename that fails moderation', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            setupCollection(collectionRow());
+
+            try {
+                const res = await app.request(
+                    '/api/v1/collections/collection-1',
+                    { method: 'PATCH', headers: ownerHeaders, body: JSON.stringify({ name: 'Badword glam' }) },
+                    env
+                );
+
+                expect(res.status).toBe(422);
+                expect(mockDb._queries.some((q) => q.includes('UPDATE collections SET'))).toBe(false);
+            } finally {
+                _resetPatternsForTesting();
+            }
+        });
+
+        it('should reject other users', async () => {
+            setupCollection(collectionRow());
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1',
+                { method: 'PATCH', headers: otherHeaders, body: JSON.stringify({ name: 'Mine now' }) },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+    describe('DELETE /api/v1/collections/:id', () => {
+        it('should delete the collection and its membership rows', async () => {
+            setupCollection(collectionRow());
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1',
+                { method: 'DELETE', headers: ownerHeaders },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM collection_presets WHERE collection_id'))).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM collections WHERE id'))).toBe(true);
+        });
+    });
+
+    // ============================================
+    // Collection presets
+    // ============================================
+
+    describe('POST /api/v1/collections/:id/presets', () => {
+        it('should append an approved preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('FROM collections c')) return collectionRow();
+                if (query.includes('FROM presets WHERE id = ?')) return createMockPresetRow({ id: 'preset-9', status: 'approved' });
+                if (query.includes('COUNT(*) AS count')) return { count: 3 };
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/presets',
+                { method: 'POST', headers: ownerHeaders, body: JSON.stringify({ preset_id: 'preset-9' }) },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const insert = mockDb._queries.find((q) => q.includes('INSERT INTO collection_presets'));
+            expect(insert).toContain('COALESCE(MAX(position) + 1, 0)');
+        });
+
+        it('should not add a preset that is not approved', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('FROM collections c')) return collectionRow();
+                if (query.includes('FROM presets WHERE id = ?')) return createMockPresetRow({ id: 'preset-9', status: 'pending' });
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/presets',
+                { method: 'POST', headers: ownerHeaders, body: JSON.stringify({ preset_id: 'preset-9' }) },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 409 when the preset is already in the collection', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('FROM collections c')) return collectionRow();
+                if (query.includes('FROM presets WHERE id = ?')) return createMockPresetRow({ id: 'preset-9', status: 'approved' });
+                if (query.includes('COUNT(*) AS count')) return { count: 3 };
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/presets',
+                { method: 'POST', headers: ownerHeaders, body: JSON.stringify({ preset_id: 'preset-9' }) },
+                env
+            );
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    describe('PUT /api/v1/collections/:id/presets', () => {
+        it('should reorder the visible presets', async () => {
+            setupCollection(collectionRow(), [
+                createMockPresetRow({ id: 'preset-1' }),
+                createMockPresetRow({ id: 'preset-2' }),
+            ]);
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/presets',
+                { method: 'PUT', headers: ownerHeaders, body: JSON.stringify({ preset_ids: ['preset-2', 'preset-1'] }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const positionUpdates = mockDb._queries
+                .map((q, i) => ({ q, b: mockDb._bindings[i] }))
+                .filter(({ q }) => q.includes('SET position = ? WHERE'));
+            expect(positionUpdates.map(({ b }) => b)).toEqual([
+                [0, 'collection-1', 'preset-2'],
+                [1, 'collection-1', 'preset-1'],
+            ]);
+        });
+
+        it('should reject an order that does not match the collection', async () => {
+            setupCollection(collectionRow(), [
+                createMockPresetRow({ id: 'preset-1' }),
+                createMockPresetRow({ id: 'preset-2' }),
+            ]);
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/presets',
+                { method: 'PUT', headers: ownerHeaders, body: JSON.stringify({ preset_ids: ['preset-1', 'preset-1'] }) },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    describe('DELETE /api/v1/collections/:id/presets/:presetId', () => {
+        it('should remove a preset', async () => {
+            setupCollection(collectionRow());
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/presets/preset-1',
+                { method: 'DELETE', headers: ownerHeaders },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should return 404 when the preset is not in the collection', async () => {
+            setupCollection(collectionRow(), [], { success: true, meta: { changes: 0 } });
+
+            const res = await app.request(
+                '/api/v1/collections/collection-1/presets/preset-1',
+                { method: 'DELETE', headers: ownerHeaders },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,205 @@
+/**
+ * Comments Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { commentsRouter } from '../../src/handlers/comments';
+import { authMiddleware } from '../../src/middleware/auth';
+import { _resetPatternsForTesting, _setTestPatterns } from '../../src/services/moderation-service';
+import type { Env, AuthContext } from '../../src/types';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+describe('CommentsHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    const headersFor = (userId: string) => ({
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer test-bot-secret',
+        'X-User-Discord-ID': userId,
+    });
+
+    const commentRow = (overrides: Record<string, unknown> = {}) => ({
+        id: 'comment-1',
+        preset_id: 'preset-123',
+        author_discord_id: 'commenter-1',
+        author_xivauth_id: null,
+        author_name: 'Commenter',
+        body: 'Works great',
+        status: 'visible',
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+        edited_at: null,
+        ...overrides,
+    });
+
+    /**
+     * Serve the comment for lookups, nobody is banned, and writes succeed
+     */
+    const setupComment = (row: Record<string, unknown> | null) => {
+        mockDb._setupMock((query) => {
+            if (query.includes('banned_users')) return null;
+            if (query.includes('FROM preset_comments')) return row;
+            return { success: true };
+        });
+    };
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/comments', commentsRouter);
+
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        _resetPatternsForTesting();
+    });
+
+    // ============================================
+    // PATCH /api/v1/comments/:id
+    // ============================================
+
+    describe('PATCH /api/v1/comments/:id', () => {
+        it('should let the author edit and re-moderate the body', async () => {
+            setupComment(commentRow());
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'PATCH', headers: headersFor('commenter-1'), body: JSON.stringify({ body: ' Edited ' }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const updateIndex = mockDb._queries.findIndex((q) => q.includes('UPDATE preset_comments'));
+            expect(mockDb._queries[updateIndex]).toContain('edited_at = ?');
+            expect(mockDb._bindings[updateIndex].slice(0, 2)).toEqual(['Edited', 'visible']);
+        });
+
+        it('should hold a flagged edit for moderation', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            setupComment(commentRow());
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'PATCH', headers: headersFor('commenter-1'), body: JSON.stringify({ body: 'badword' }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { moderation_status: string };
+            expect(body.moderation_status).toBe('pending');
+        });
+
+        it('should count edits towards the daily comment limit', async () => {
+            setupComment(commentRow());
+
+            await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'PATCH', headers: headersFor('commenter-1'), body: JSON.stringify({ body: 'Edited' }) },
+                env
+            );
+
+            const activityIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO comment_activity'));
+            expect(activityIndex).toBeGreaterThan(-1);
+            expect(mockDb._bindings[activityIndex]).toContain('edit');
+        });
+
+        it('should enforce the daily comment limit on edits', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('FROM comment_activity')) return { count: 30 };
+                if (query.includes('FROM preset_comments')) return commentRow();
+                return { success: true };
+            });
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'PATCH', headers: headersFor('commenter-1'), body: JSON.stringify({ body: 'Edited' }) },
+                env
+            );
+
+            expect(res.status).toBe(429);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE preset_comments'))).toBe(false);
+        });
+
+        it('should reject edits by other users', async () => {
+            setupComment(commentRow());
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'PATCH', headers: headersFor('someone-else'), body: JSON.stringify({ body: 'Mine now' }) },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should not let authors edit a hidden comment', async () => {
+            setupComment(commentRow({ status: 'hidden' }));
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'PATCH', headers: headersFor('commenter-1'), body: JSON.stringify({ body: 'Try again' }) },
+                env
+            );
+
+            expect(res.status).toBe(403);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE preset_comments'))).toBe(false);
+        });
+
+        it('should return 404 for a missing comment', async () => {
+            setupComment(null);
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'PATCH', headers: headersFor('commenter-1'), body: JSON.stringify({ body: 'Edited' }) },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/comments/:id
+    // ============================================
+
+    describe('DELETE /api/v1/comments/:id', () => {
+        it('should let the author delete their comment', async () => {
+            setupComment(commentRow());
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'DELETE', headers: headersFor('commenter-1') },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM preset_comments WHERE id = ?'))).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('moderation_log'))).toBe(false);
+        });
+
+        it('should reject deletes by other users', async () => {
+            setupComment(commentRow());
+
+            const res = await app.request(
+                '/api/v1/comments/comment-1',
+                { method: 'DELETE', headers: headersFor('someone-else') },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+    });
+});
@@ -152,7 +152,7 @@ describe('ModerationHandler', () => {
     describe('PATCH /api/v1/moderation/:presetId/status', () => {
         it('should approve preset', async () => {
             const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -176,7 +176,7 @@ describe('ModerationHandler', () => {
 
         it('should reject preset with reason', async () => {
             const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -201,7 +201,7 @@ describe('ModerationHandler', () => {
 
         it('should flag preset', async () => {
             const mockRow = createMockPresetRow({ id: 'preset-123', status: 'approved' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -298,7 +298,7 @@ describe('ModerationHandler', () => {
 
         it('should log moderation action', async () => {
             const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -352,7 +352,7 @@ describe('ModerationHandler', () => {
                 id: 'preset-123',
                 previous_values: JSON.stringify(previousValues),
             });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/revert',
@@ -379,7 +379,7 @@ describe('ModerationHandler', () => {
                 id: 'preset-123',
                 previous_values: null,
             });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/revert',
@@ -402,7 +402,7 @@ describe('ModerationHandler', () => {
 
         it('should return 400 for invalid JSON body', async () => {
             const mockRow = createMockPresetRow({ previous_values: '{}' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             const res = await app.request(
                 '/api/v1/moderation/preset-123/revert',
@@ -483,7 +483,7 @@ describe('ModerationHandler', () => {
 
         it('should require reason of 10-200 characters', async () => {
             const mockRow = createMockPresetRow({ previous_values: '{}' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             // Too short
             const res1 = await app.request(
@@ -533,7 +533,7 @@ describe('ModerationHandler', () => {
                 id: 'preset-123',
                 previous_values: JSON.stringify(previousValues),
             });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             await app.request(
                 '/api/v1/moderation/preset-123/revert',
@@ -691,7 +691,7 @@ describe('ModerationHandler', () => {
     describe('getActionFromStatusChange', () => {
         it('should log approve action for pending->approved', async () => {
             const mockRow = createMockPresetRow({ status: 'pending' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -712,7 +712,7 @@ describe('ModerationHandler', () => {
 
         it('should log unflag action for flagged->approved', async () => {
             const mockRow = createMockPresetRow({ status: 'flagged' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -733,7 +733,7 @@ describe('ModerationHandler', () => {
 
         it('should log reject action for any->rejected', async () => {
             const mockRow = createMockPresetRow({ status: 'pending' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -754,7 +754,7 @@ describe('ModerationHandler', () => {
 
         it('should log flag action for any->flagged', async () => {
             const mockRow = createMockPresetRow({ status: 'approved' });
-            mockDb._setupMock(() => mockRow);
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? null : mockRow));
 
             await app.request(
                 '/api/v1/moderation/preset-123/status',
@@ -773,4 +773,1494 @@ describe('ModerationHandler', () => {
             expect(mockDb._bindings.some((b) => b.includes('flag'))).toBe(true);
         });
     });
+
+    // ============================================
+    // User Bans
+    // ============================================
+
+    describe('User Bans', () => {
+        const modHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const activeBanRow = {
+            id: 'ban-1',
+            discord_id: '111222333',
+            xivauth_id: null,
+            username: 'Spammer',
+            moderator_discord_id: '123456789',
+            reason: 'Repeated spam submissions',
+            banned_at: '2025-12-01T00:00:00.000Z',
+            unbanned_at: null,
+            unban_moderator_discord_id: null,
+            expires_at: null,
+        };
+
+        it('should require moderator privileges to list bans', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': 'not-a-moderator',
+                    },
+                },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should list active bans', async () => {
+            mockDb._setupMock(() => [{ ...activeBanRow, _total: 1 }]);
+
+            const res = await app.request('/api/v1/moderation/bans', { headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { bans: Array<{ id: string; is_active: boolean }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.bans[0].is_active).toBe(true);
+        });
+
+        it('should return a user ban history', async () => {
+            mockDb._setupMock(() => [activeBanRow]);
+
+            const res = await app.request('/api/v1/moderation/bans/111222333', { headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { is_banned: boolean; history: unknown[] };
+            expect(body.is_banned).toBe(true);
+            expect(body.history).toHaveLength(1);
+        });
+
+        it('should ban a user and hide their presets', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('expires_at <= ?')) return [];
+                if (query.includes('FROM banned_users')) return null;
+                if (query.includes('SELECT author_name')) return { author_name: 'Spammer' };
+                return { success: true, meta: { changes: 4 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ discord_id: '111222333', reason: 'Repeated spam submissions' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { success: boolean; ban: { username: string; is_active: boolean } };
+            expect(body.success).toBe(true);
+            expect(body.ban.username).toBe('Spammer');
+            expect(body.ban.is_active).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO banned_users'))).toBe(true);
+        });
+
+        it('should return 409 if the user is already banned', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('expires_at <= ?')) return [];
+                return activeBanRow;
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ discord_id: '111222333', reason: 'Repeated spam submissions' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should issue a temporary ban with an expiry', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('expires_at <= ?')) return [];
+                if (query.includes('FROM banned_users')) return null;
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({
+                        discord_id: '111222333',
+                        username: 'Spammer',
+                        reason: 'Repeated spam submissions',
+                        duration: '24h',
+                    }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { ban: { expires_at: string | null; remaining_seconds: number | null } };
+            expect(body.ban.expires_at).not.toBeNull();
+            expect(body.ban.remaining_seconds).toBe(24 * 60 * 60);
+        });
+
+        it('should return 400 for an invalid ban duration', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({
+                        discord_id: '111222333',
+                        reason: 'Repeated spam submissions',
+                        duration: '1y',
+                    }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should ban an XIVAuth user', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('expires_at <= ?')) return [];
+                if (query.includes('FROM banned_users')) return null;
+                if (query.includes('SELECT author_name')) return null;
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ xivauth_id: 'xiv-uuid-1', reason: 'Repeated spam submissions' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { ban: { discord_id: string | null; xivauth_id: string; username: string } };
+            expect(body.ban.discord_id).toBeNull();
+            expect(body.ban.xivauth_id).toBe('xiv-uuid-1');
+            expect(body.ban.username).toBe('xiv-uuid-1');
+        });
+
+        it('should return 400 when no user identity is given', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ reason: 'Repeated spam submissions' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should return 400 for a short ban reason', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ discord_id: '111222333', reason: 'spam' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should not allow moderators to ban themselves', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ discord_id: '123456789', reason: 'Testing self ban' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should unban a user and restore their presets', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM banned_users')) return activeBanRow;
+                return { success: true, meta: { changes: 4 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/bans/111222333',
+                { method: 'DELETE', headers: modHeaders },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { ban: { is_active: boolean; unban_moderator_discord_id: string } };
+            expect(body.ban.is_active).toBe(false);
+            expect(body.ban.unban_moderator_discord_id).toBe('123456789');
+        });
+
+        it('should return 404 when unbanning a user without an active ban', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request(
+                '/api/v1/moderation/bans/111222333',
+                { method: 'DELETE', headers: modHeaders },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // Tag Aliases
+    // ============================================
+
+    describe('POST /api/v1/moderation/tags/aliases', () => {
+        const modHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        it('should require moderator privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/tags/aliases',
+                {
+                    method: 'POST',
+                    headers: { ...modHeaders, 'X-User-Discord-ID': '111111111' },
+                    body: JSON.stringify({ alias: 'goth', tag: 'gothic' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should merge a normalized alias into its tag', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM tag_aliases WHERE alias = ?')) return null;
+                if (query.includes('SELECT preset_id FROM preset_tags')) return [{ preset_id: 'preset-1' }];
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/tags/aliases',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ alias: ' Goth ', tag: 'Gothic' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { alias: string; tag: string; presets_updated: number };
+            expect(body).toMatchObject({ alias: 'goth', tag: 'gothic', presets_updated: 1 });
+        });
+
+        it('should reject a missing tag', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/tags/aliases',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ alias: 'goth' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject aliasing a tag to itself', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request(
+                '/api/v1/moderation/tags/aliases',
+                {
+                    method: 'POST',
+                    headers: modHeaders,
+                    body: JSON.stringify({ alias: 'Gothic', tag: 'gothic ' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // PATCH /api/v1/moderation/:presetId/revisions/:revision/restore
+    // ============================================
+
+    describe('PATCH /api/v1/moderation/:presetId/revisions/:revision/restore', () => {
+        const revisionRow = {
+            id: 'rev-1',
+            preset_id: 'preset-123',
+            revision_number: 1,
+            action: 'create',
+            name: 'Original Name',
+            description: 'Original Description',
+            dyes: '[7,8,9]',
+            tags: '["original"]',
+            changed_fields: '["name","description","dyes","tags"]',
+            editor_discord_id: 'user-1',
+            editor_xivauth_id: null,
+            moderation_status: 'approved',
+            created_at: '2025-01-01T00:00:00Z',
+        };
+
+        const restore = (
+            revision: string | number = 1,
+            headers: Record<string, string> = {},
+            extra: Record<string, unknown> = {}
+        ) =>
+            app.request(
+                `/api/v1/moderation/preset-123/revisions/${revision}/restore`,
+                {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                        ...headers,
+                    },
+                    body: JSON.stringify({ reason: 'Restoring the original approved content', ...extra }),
+                },
+                env
+            );
+
+        const otherClaim = {
+            preset_id: 'preset-123',
+            moderator_discord_id: '555555555',
+            claimed_at: '2025-01-01T00:00:00Z',
+            expires_at: '2099-01-01T00:00:00Z',
+        };
+
+        it('should require moderator privileges', async () => {
+            const res = await restore(1, { 'X-User-Discord-ID': 'not-a-moderator' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should reject a non-numeric revision', async () => {
+            const res = await restore('latest');
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should restore the revision and log the action', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('moderation_claims')) return null;
+                if (query.includes('FROM preset_revisions')) return revisionRow;
+                if (query.includes('WHERE dye_signature = ?')) return null;
+                return createMockPresetRow({ id: 'preset-123' });
+            });
+
+            const res = await restore(1);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { success: boolean; message: string };
+            expect(body.success).toBe(true);
+            expect(body.message).toBe('Preset restored to revision 1');
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO preset_revisions'))).toBe(true);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('restore');
+        });
+
+        it('should return 404 if the revision does not exist', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('moderation_claims')) return null;
+                if (query.includes('FROM preset_revisions')) return null;
+                return createMockPresetRow({ id: 'preset-123' });
+            });
+
+            const res = await restore(9);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 409 if another preset now uses the revision dyes', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('moderation_claims')) return null;
+                if (query.includes('FROM preset_revisions')) return revisionRow;
+                if (query.includes('WHERE dye_signature = ?')) return createMockPresetRow({ id: 'preset-999', name: 'Copycat' });
+                return createMockPresetRow({ id: 'preset-123' });
+            });
+
+            const res = await restore(1);
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO preset_revisions'))).toBe(false);
+        });
+
+        it("should refuse a restore on another moderator's claim", async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('moderation_claims')) return otherClaim;
+                if (query.includes('FROM preset_revisions')) return revisionRow;
+                if (query.includes('WHERE dye_signature = ?')) return null;
+                return createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            });
+
+            const res = await restore(1);
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+        });
+
+        it('should allow a forced restore and release the claim', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('DELETE FROM moderation_claims')) return { success: true, meta: { changes: 1 } };
+                if (query.includes('moderation_claims')) return otherClaim;
+                if (query.includes('FROM preset_revisions')) return revisionRow;
+                if (query.includes('WHERE dye_signature = ?')) return null;
+                return createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            });
+
+            const res = await restore(1, {}, { force: true });
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM moderation_claims'))).toBe(true);
+        });
+    });
+
+    // ============================================
+    // DELETE /api/v1/moderation/:presetId/purge
+    // ============================================
+
+    describe('DELETE /api/v1/moderation/:presetId/purge', () => {
+        const purge = (userId = '123456789', body: unknown = { reason: 'Removing spam preset permanently' }) =>
+            app.request(
+                '/api/v1/moderation/preset-123/purge',
+                {
+                    method: 'DELETE',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': userId,
+                    },
+                    body: JSON.stringify(body),
+                },
+                env
+            );
+
+        it('should require moderator privileges', async () => {
+            const res = await purge('not-a-moderator');
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should require a reason', async () => {
+            const res = await purge('123456789', {});
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should purge a soft-deleted preset and keep its moderation log', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('deleted_at IS NOT NULL')) {
+                    return { ...createMockPresetRow({ id: 'preset-123' }), deleted_at: '2025-01-01T00:00:00Z' };
+                }
+                if (query.includes('FROM presets')) return null;
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await purge();
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM presets WHERE id = ?'))).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM moderation_log'))).toBe(false);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('purge');
+        });
+
+        it('should return 404 if the preset does not exist', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await purge();
+
+            expect(res.status).toBe(404);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM presets'))).toBe(false);
+        });
+    });
+
+    // ============================================
+    // Comment moderation
+    // ============================================
+
+    describe('Comment moderation', () => {
+        const modHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const commentRow = (overrides: Record<string, unknown> = {}) => ({
+            id: 'comment-1',
+            preset_id: 'preset-123',
+            author_discord_id: 'commenter-1',
+            author_xivauth_id: null,
+            author_name: 'Commenter',
+            body: 'Flagged comment',
+            status: 'pending',
+            created_at: '2025-01-01T00:00:00Z',
+            updated_at: '2025-01-01T00:00:00Z',
+            edited_at: null,
+            ...overrides,
+        });
+
+        it('should list pending comments', async () => {
+            mockDb._setupMock(() => [commentRow()]);
+
+            const res = await app.request('/api/v1/moderation/comments/pending', { headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { comments: Array<{ id: string }>; total: number };
+            expect(body.total).toBe(1);
+            expect(mockDb._queries[0]).toContain("status = 'pending'");
+        });
+
+        it('should require moderator privileges', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/comments/pending',
+                { headers: { ...modHeaders, 'X-User-Discord-ID': 'not-a-moderator' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should hide a comment and log it against the preset and comment', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_comments')) return commentRow({ status: 'hidden' });
+                return { success: true };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/comments/comment-1/status',
+                {
+                    method: 'PATCH',
+                    headers: modHeaders,
+                    body: JSON.stringify({ status: 'hidden', reason: 'Harassing the preset author' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._queries[logIndex]).toContain('comment_id');
+            expect(mockDb._bindings[logIndex].slice(1, 6)).toEqual([
+                'preset-123',
+                'comment-1',
+                '123456789',
+                'comment_hide',
+                'Harassing the preset author',
+            ]);
+        });
+
+        it('should require a reason to hide a comment', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/comments/comment-1/status',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'hidden' }) },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should approve a pending comment without a reason', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_comments')) return commentRow({ status: 'visible' });
+                return { success: true };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/comments/comment-1/status',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'visible' }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('comment_approve');
+        });
+
+        it('should reject statuses moderators cannot set', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/comments/comment-1/status',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'pending' }) },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should delete a comment and log it', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_comments')) return commentRow();
+                return { success: true };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/comments/comment-1',
+                { method: 'DELETE', headers: modHeaders, body: JSON.stringify({ reason: 'Spam link in comment' }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM preset_comments WHERE id = ?'))).toBe(true);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('comment_delete');
+        });
+
+        it('should return 404 for a missing comment', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request(
+                '/api/v1/moderation/comments/comment-1',
+                { method: 'DELETE', headers: modHeaders, body: JSON.stringify({ reason: 'Spam link in comment' }) },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // User reports
+    // ============================================
+
+    describe('User reports', () => {
+        const modHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const reportRow = (overrides: Record<string, unknown> = {}) => ({
+            id: 'report-1',
+            preset_id: 'preset-123',
+            preset_name: 'Reported Palette',
+            reporter_key: 'reporter-1',
+            category: 'spam',
+            details: null,
+            status: 'open',
+            created_at: '2025-01-01T00:00:00Z',
+            reviewed_at: null,
+            reviewer_discord_id: null,
+            review_note: null,
+            ...overrides,
+        });
+
+        it('should list open reports', async () => {
+            mockDb._setupMock(() => [{ ...reportRow(), _total: 1 }]);
+
+            const res = await app.request('/api/v1/moderation/reports', { headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { reports: Array<{ preset_name: string }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.reports[0].preset_name).toBe('Reported Palette');
+            expect(mockDb._bindings[0][0]).toBe('open');
+        });
+
+        it('should reject an unknown status filter', async () => {
+            const res = await app.request('/api/v1/moderation/reports?status=closed', { headers: modHeaders }, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should dismiss an open report and log it', async () => {
+            let reviewed = false;
+            mockDb._setupMock((query) => {
+                if (query.includes('UPDATE preset_reports')) {
+                    reviewed = true;
+                    return { success: true };
+                }
+                if (query.includes('FROM preset_reports')) {
+                    return reviewed ? reportRow({ status: 'dismissed' }) : reportRow();
+                }
+                return { success: true };
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/reports/report-1',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'dismissed', note: 'Not spam' }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { report: { status: string } };
+            expect(body.report.status).toBe('dismissed');
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('report_dismiss');
+            expect(mockDb._bindings[logIndex]).toContain('preset-123');
+        });
+
+        it('should return 409 for a report that was already reviewed', async () => {
+            mockDb._setupMock(() => reportRow({ status: 'resolved' }));
+
+            const res = await app.request(
+                '/api/v1/moderation/reports/report-1',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'dismissed' }) },
+                env
+            );
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should validate the review status', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/reports/report-1',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'open' }) },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+
+    // ============================================
+    // Queue claims
+    // ============================================
+
+    describe('Moderation claims', () => {
+        const modHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const otherClaim = {
+            preset_id: 'preset-123',
+            moderator_discord_id: '555555555',
+            claimed_at: '2025-01-01T00:00:00Z',
+            expires_at: '2099-01-01T00:00:00Z',
+        };
+
+        it('should claim a pending preset', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            mockDb._setupMock((query) =>
+                query.includes('moderation_claims') ? { success: true, meta: { changes: 1 } } : mockRow
+            );
+
+            const res = await app.request('/api/v1/moderation/preset-123/claim', { method: 'POST', headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { claim: { moderator_discord_id: string } };
+            expect(body.claim.moderator_discord_id).toBe('123456789');
+        });
+
+        it('should return 409 when another moderator holds the claim', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO moderation_claims')) return { success: true, meta: { changes: 0 } };
+                if (query.includes('moderation_claims')) return otherClaim;
+                return mockRow;
+            });
+
+            const res = await app.request('/api/v1/moderation/preset-123/claim', { method: 'POST', headers: modHeaders }, env);
+
+            expect(res.status).toBe(409);
+            const body = await res.json() as { claim: { moderator_discord_id: string } };
+            expect(body.claim.moderator_discord_id).toBe('555555555');
+        });
+
+        it('should not claim a preset that is not pending', async () => {
+            mockDb._setupMock(() => createMockPresetRow({ id: 'preset-123', status: 'approved' }));
+
+            const res = await app.request('/api/v1/moderation/preset-123/claim', { method: 'POST', headers: modHeaders }, env);
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO moderation_claims'))).toBe(false);
+        });
+
+        it('should show who holds each claim in the pending list', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('moderation_claims')
+                    ? [otherClaim]
+                    : [
+                          createMockPresetRow({ id: 'preset-123', status: 'pending' }),
+                          createMockPresetRow({ id: 'preset-456', status: 'pending' }),
+                      ]
+            );
+
+            const res = await app.request('/api/v1/moderation/pending', { headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: Array<{ id: string; claim: unknown }> };
+            expect(body.presets.find((p) => p.id === 'preset-123')?.claim).toEqual(otherClaim);
+            expect(body.presets.find((p) => p.id === 'preset-456')?.claim).toBeNull();
+        });
+
+        it("should refuse a status change on another moderator's claim", async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? otherClaim : mockRow));
+
+            const res = await app.request(
+                '/api/v1/moderation/preset-123/status',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'approved' }) },
+                env
+            );
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+        });
+
+        it('should allow a forced status change and release the claim', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            mockDb._setupMock((query) => (query.includes('moderation_claims') ? otherClaim : mockRow));
+
+            const res = await app.request(
+                '/api/v1/moderation/preset-123/status',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify({ status: 'approved', force: true }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM moderation_claims'))).toBe(true);
+        });
+
+        it('should release your own claim', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('DELETE')
+                    ? { success: true, meta: { changes: 1 } }
+                    : { ...otherClaim, moderator_discord_id: '123456789' }
+            );
+
+            const res = await app.request('/api/v1/moderation/preset-123/claim', { method: 'DELETE', headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+        });
+
+        it("should require force to release another moderator's claim", async () => {
+            mockDb._setupMock((query) => (query.includes('DELETE') ? { success: true, meta: { changes: 1 } } : otherClaim));
+
+            const refused = await app.request('/api/v1/moderation/preset-123/claim', { method: 'DELETE', headers: modHeaders }, env);
+            const forced = await app.request(
+                '/api/v1/moderation/preset-123/claim?force=true',
+                { method: 'DELETE', headers: modHeaders },
+                env
+            );
+
+            expect(refused.status).toBe(409);
+            expect(forced.status).toBe(200);
+        });
+    });
+
+
+    // ============================================
+    // PATCH /api/v1/moderation/bulk/status
+    // ============================================
+
+    describe('PATCH /api/v1/moderation/bulk/status', () => {
+        const modHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const bulkRequest = (body: Record<string, unknown>) =>
+            app.request(
+                '/api/v1/moderation/bulk/status',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify(body) },
+                env
+            );
+
+        it('should update every preset in one batch and log each one', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM presets WHERE id IN')) {
+                    return [
+                        createMockPresetRow({ id: 'p1', status: 'pending' }),
+                        createMockPresetRow({ id: 'p2', status: 'flagged' }),
+                    ];
+                }
+                if (query.includes('FROM moderation_claims')) return [];
+                return { success: true };
+            });
+
+            const res = await bulkRequest({ preset_ids: ['p1', 'p2'], status: 'rejected', reason: 'Spam wave cleanup' });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { updated: number; results: Array<{ preset_id: string; success: boolean }> };
+            expect(body.updated).toBe(2);
+            expect(body.results.every((r) => r.success)).toBe(true);
+            const logBindings = mockDb._bindings.filter((_, i) => mockDb._queries[i].includes('INSERT INTO moderation_log'));
+            expect(logBindings).toHaveLength(2);
+            expect(logBindings[0]).toContain('reject');
+            expect(logBindings[0]).toContain('Spam wave cleanup');
+        });
+
+        it('should report missing, unchanged, and claimed presets without updating them', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM presets WHERE id IN')) {
+                    return [
+                        createMockPresetRow({ id: 'p1', status: 'pending' }),
+                        createMockPresetRow({ id: 'p2', status: 'rejected' }),
+                        createMockPresetRow({ id: 'p3', status: 'pending' }),
+                    ];
+                }
+                if (query.includes('FROM moderation_claims')) {
+                    return [{ preset_id: 'p3', moderator_discord_id: '555555555', claimed_at: '2025-01-01T00:00:00Z', expires_at: '2099-01-01T00:00:00Z' }];
+                }
+                return { success: true };
+            });
+
+            const res = await bulkRequest({
+                preset_ids: ['p1', 'p2', 'p3', 'missing'],
+                status: 'rejected',
+                reason: 'Spam wave cleanup',
+            });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { updated: number; skipped: number; results: Array<{ preset_id: string; error?: string }> };
+            expect(body.updated).toBe(1);
+            expect(body.skipped).toBe(3);
+            expect(body.results.map((r) => r.error)).toEqual([undefined, 'unchanged', 'claimed', 'not_found']);
+            const updates = mockDb._bindings.filter((_, i) => mockDb._queries[i].startsWith('UPDATE presets'));
+            expect(updates).toHaveLength(1);
+            expect(updates[0]).toContain('p1');
+        });
+
+        it('should ignore claims when forced', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('FROM presets WHERE id IN')
+                    ? [createMockPresetRow({ id: 'p3', status: 'pending' })]
+                    : { success: true }
+            );
+
+            const res = await bulkRequest({ preset_ids: ['p3'], status: 'approved', reason: 'Reviewed by the team', force: true });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { updated: number };
+            expect(body.updated).toBe(1);
+            expect(mockDb._queries.some((q) => q.includes('FROM moderation_claims WHERE expires_at'))).toBe(false);
+        });
+
+        it('should require a reason', async () => {
+            const res = await bulkRequest({ preset_ids: ['p1'], status: 'rejected' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject an empty or oversized ID list', async () => {
+            const empty = await bulkRequest({ preset_ids: [], status: 'rejected', reason: 'Spam wave cleanup' });
+            const tooMany = await bulkRequest({
+                preset_ids: Array.from({ length: 101 }, (_, i) => `p${i}`),
+                status: 'rejected',
+                reason: 'Spam wave cleanup',
+            });
+
+            expect(empty.status).toBe(400);
+            expect(tooMany.status).toBe(400);
+        });
+    });
+
+
+    // ============================================
+    // Appeals
+    // ============================================
+
+    describe('Appeals', () => {
+        const modHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const appealRow = (overrides: Record<string, unknown> = {}) => ({
+            id: 'appeal-1',
+            target_type: 'preset',
+            target_id: 'preset-123',
+            appellant_discord_id: 'author-1',
+            appellant_xivauth_id: null,
+            appellant_name: 'Author',
+            message: 'This palette is my own work',
+            status: 'open',
+            created_at: '2025-01-01T00:00:00Z',
+            reviewed_at: null,
+            reviewer_discord_id: null,
+            review_reason: null,
+            ...overrides,
+        });
+
+        const reviewAppeal = (body: Record<string, unknown>) =>
+            app.request(
+                '/api/v1/moderation/appeals/appeal-1',
+                { method: 'PATCH', headers: modHeaders, body: JSON.stringify(body) },
+                env
+            );
+
+        it('should list open appeals', async () => {
+            mockDb._setupMock(() => [{ ...appealRow(), _total: 1 }]);
+
+            const res = await app.request('/api/v1/moderation/appeals', { headers: modHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { appeals: unknown[]; total: number };
+            expect(body.total).toBe(1);
+            expect(mockDb._bindings[0][0]).toBe('open');
+        });
+
+        it('should re-approve the preset when a preset appeal is accepted', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM appeals')) return appealRow();
+                if (query.includes('SELECT * FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-123', status: 'rejected' });
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await reviewAppeal({ status: 'accepted', reason: 'Original work confirmed' });
+
+            expect(res.status).toBe(200);
+            const update = mockDb._queries.find((q) => q.includes('UPDATE presets'));
+            expect(update).toContain("SET status = 'approved'");
+            expect(update).toContain("status = 'rejected'");
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('appeal_accept');
+            expect(mockDb._bindings[logIndex]).toContain('appeal-1');
+            const appealUpdate = mockDb._queries.find((q) => q.includes('UPDATE appeals'));
+            expect(appealUpdate).toContain("status = 'open'");
+        });
+
+        it('should return 409 when the appealed preset is no longer rejected', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM appeals')) return appealRow();
+                if (query.includes('SELECT * FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-123', status: 'pending' });
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await reviewAppeal({ status: 'accepted', reason: 'Original work confirmed' });
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE appeals'))).toBe(false);
+        });
+
+        it('should return 409 when another moderator decided the appeal first', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM appeals')) return appealRow();
+                if (query.includes('SELECT * FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-123', status: 'rejected' });
+                }
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            const res = await reviewAppeal({ status: 'accepted', reason: 'Original work confirmed' });
+
+            expect(res.status).toBe(409);
+            // The approval and log entry only apply while the appeal is still open
+            const openCheck = "FROM appeals WHERE id = ? AND status = 'open'";
+            expect(mockDb._queries.find((q) => q.includes('UPDATE presets'))).toContain(openCheck);
+            expect(mockDb._queries.find((q) => q.includes('INSERT INTO moderation_log'))).toContain(openCheck);
+        });
+
+        it('should log a denied preset appeal without changing the preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM appeals')) return appealRow();
+                if (query.includes('SELECT * FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-123', status: 'rejected' });
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await reviewAppeal({ status: 'denied', reason: 'Copied from another author' });
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('appeal_deny');
+        });
+
+        it('should lift the ban when a ban appeal is accepted', async () => {
+            const banRow = {
+                id: 'ban-1',
+                discord_id: 'author-1',
+                xivauth_id: null,
+                username: 'Author',
+                moderator_discord_id: '555555555',
+                reason: 'Repeated spam submissions',
+                banned_at: '2025-01-01T00:00:00Z',
+                unbanned_at: null,
+                unban_moderator_discord_id: null,
+                expires_at: null,
+            };
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM appeals')) return appealRow({ target_type: 'ban', target_id: 'ban-1' });
+                if (query.includes('SELECT * FROM banned_users')) return banRow;
+                return { success: true, meta: { changes: 2 } };
+            });
+
+            const res = await reviewAppeal({ status: 'accepted', reason: 'Account was compromised' });
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { ban: { unban_moderator_discord_id: string } };
+            expect(body.ban.unban_moderator_discord_id).toBe('123456789');
+            const banUpdate = mockDb._queries.find((q) => q.includes('UPDATE banned_users'));
+            expect(banUpdate).toContain("FROM appeals WHERE id = ? AND status = 'open'");
+        });
+
+        it('should log ban appeal decisions without a preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('SELECT * FROM appeals')) return appealRow({ target_type: 'ban', target_id: 'ban-1' });
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const res = await reviewAppeal({ status: 'denied', reason: 'Spam confirmed' });
+
+            expect(res.status).toBe(200);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('appeal_deny');
+            expect(mockDb._bindings[logIndex][1]).toBeNull();
+            expect(mockDb._queries.some((q) => q.includes('UPDATE banned_users'))).toBe(false);
+        });
+
+        it('should return 409 for an appeal that was already reviewed', async () => {
+            mockDb._setupMock(() => appealRow({ status: 'denied' }));
+
+            const res = await reviewAppeal({ status: 'accepted', reason: 'Original work confirmed' });
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should require a reason', async () => {
+            const res = await reviewAppeal({ status: 'denied' });
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+
+    // ============================================
+    // Moderator roles
+    // ============================================
+
+    describe('Moderator roles', () => {
+        const headersFor = (userId: string) => ({
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': userId,
+        });
+
+        const moderatorRow = (overrides: Record<string, unknown> = {}) => ({
+            discord_id: '111111111111111111',
+            role: 'reviewer',
+            added_by: '123456789',
+            created_at: '2025-01-01T00:00:00Z',
+            updated_at: '2025-01-01T00:00:00Z',
+            ...overrides,
+        });
+
+        it('should let a reviewer approve a preset', async () => {
+            const mockRow = createMockPresetRow({ id: 'preset-123', status: 'pending' });
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM moderators')) return { role: 'reviewer' };
+                if (query.includes('moderation_claims')) return null;
+                return mockRow;
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/preset-123/status',
+                { method: 'PATCH', headers: headersFor('111111111111111111'), body: JSON.stringify({ status: 'approved' }) },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should not let a reviewer ban users', async () => {
+            mockDb._setupMock((query) => (query.includes('FROM moderators') ? { role: 'reviewer' } : null));
+
+            const res = await app.request(
+                '/api/v1/moderation/bans',
+                {
+                    method: 'POST',
+                    headers: headersFor('111111111111111111'),
+                    body: JSON.stringify({ discord_id: '222222222222222222', reason: 'Repeated spam submissions' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(403);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO banned_users'))).toBe(false);
+        });
+
+        it('should add a moderator', async () => {
+            let added = false;
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO moderators')) {
+                    added = true;
+                    return { success: true };
+                }
+                if (query.includes('FROM moderators')) return added ? moderatorRow({ role: 'moderator' }) : null;
+                return null;
+            });
+
+            const res = await app.request(
+                '/api/v1/moderation/moderators/111111111111111111',
+                { method: 'PUT', headers: headersFor('123456789'), body: JSON.stringify({ role: 'moderator' }) },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { moderator: { role: string; permissions: string[] } };
+            expect(body.moderator.role).toBe('moderator');
+            expect(body.moderator.permissions).toContain('ban');
+        });
+
+        it('should validate the role and Discord ID', async () => {
+            const badRole = await app.request(
+                '/api/v1/moderation/moderators/111111111111111111',
+                { method: 'PUT', headers: headersFor('123456789'), body: JSON.stringify({ role: 'owner' }) },
+                env
+            );
+            const badId = await app.request(
+                '/api/v1/moderation/moderators/not-an-id',
+                { method: 'PUT', headers: headersFor('123456789'), body: JSON.stringify({ role: 'reviewer' }) },
+                env
+            );
+
+            expect(badRole.status).toBe(400);
+            expect(badId.status).toBe(400);
+        });
+
+        it('should only let admins manage moderators', async () => {
+            mockDb._setupMock(() => ({ role: 'moderator' }));
+
+            const res = await app.request(
+                '/api/v1/moderation/moderators',
+                { headers: headersFor('111111111111111111') },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should remove a moderator', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const res = await app.request(
+                '/api/v1/moderation/moderators/111111111111111111',
+                { method: 'DELETE', headers: headersFor('123456789') },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._bindings[0]).toEqual(['111111111111111111']);
+        });
+
+        it('should return 404 when removing someone who is not a moderator', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const res = await app.request(
+                '/api/v1/moderation/moderators/111111111111111111',
+                { method: 'DELETE', headers: headersFor('123456789') },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+
+        it("should report the caller's role and permissions", async () => {
+            const res = await app.request('/api/v1/moderation/moderators/me', { headers: headersFor('123456789') }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { role: string; permissions: string[] };
+            expect(body.role).toBe('admin');
+            expect(body.permissions).toContain('manage_moderators');
+        });
+    });
+
+
+    // ============================================
+    // Moderation Policy
+    // ============================================
+
+    describe('Moderation policy', () => {
+        const headers = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        it('should return the default policy when nothing is stored', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/moderation/policy', { headers }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body.policy.attributes.TOXICITY).toEqual({ pending: 0.7, reject: null });
+        });
+
+        it('should update attribute thresholds', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request(
+                '/api/v1/moderation/policy',
+                {
+                    method: 'PUT',
+                    headers,
+                    body: JSON.stringify({ attributes: { SEVERE_TOXICITY: { pending: 0.5, reject: 0.9 } } }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO moderation_policy'))).toBe(true);
+            expect(mockDb._bindings.some((b) => b.includes('SEVERE_TOXICITY') && b.includes(0.9))).toBe(true);
+        });
+
+        it('should reject a reject threshold below the pending threshold', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/policy',
+                {
+                    method: 'PUT',
+                    headers,
+                    body: JSON.stringify({ attributes: { INSULT: { pending: 0.8, reject: 0.6 } } }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO moderation_policy'))).toBe(false);
+        });
+
+        it('should reject unknown attributes', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/policy',
+                {
+                    method: 'PUT',
+                    headers,
+                    body: JSON.stringify({ attributes: { SPAM: { pending: 0.5, reject: null } } }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should not let a reviewer change the policy', async () => {
+            mockDb._setupMock((query) => (query.includes('FROM moderators') ? { role: 'reviewer' } : null));
+
+            const res = await app.request(
+                '/api/v1/moderation/policy',
+                {
+                    method: 'PUT',
+                    headers: { ...headers, 'X-User-Discord-ID': '111111111111111111' },
+                    body: JSON.stringify({ attributes: { INSULT: { pending: 0.5, reject: null } } }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+    });
+
+
+    // ============================================
+    // Profanity Terms
+    // ============================================
+
+    describe('Profanity terms', () => {
+        const headers = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': '123456789',
+        };
+
+        const termRow = {
+            id: 'term-1',
+            locale: 'en',
+            term: 'gilslop',
+            added_by: '123456789',
+            created_at: '2026-01-01T00:00:00.000Z',
+        };
+
+        it('should list stored and bundled terms for a locale', async () => {
+            mockDb._setupMock(() => [termRow]);
+
+            const res = await app.request('/api/v1/moderation/profanity?locale=en', { headers }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json();
+            expect(body.terms).toHaveLength(1);
+            expect(body.bundled).toEqual({ en: expect.arrayContaining(['ai slop']) });
+            expect(mockDb._bindings[0]).toEqual(['en']);
+        });
+
+        it('should reject unknown locales', async () => {
+            const res = await app.request('/api/v1/moderation/profanity?locale=xx', { headers }, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should add a term in lowercase', async () => {
+            mockDb._setupMock((query) =>
+                query.includes('INSERT INTO profanity_terms') ? { success: true, meta: { changes: 1 } } : null
+            );
+
+            const res = await app.request(
+                '/api/v1/moderation/profanity',
+                { method: 'POST', headers, body: JSON.stringify({ locale: 'en', term: '  GilSlop ' }) },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json();
+            expect(body.term).toMatchObject({ locale: 'en', term: 'gilslop', added_by: '123456789' });
+        });
+
+        it('should return 409 for a term that is already bundled', async () => {
+            const res = await app.request(
+                '/api/v1/moderation/profanity',
+                { method: 'POST', headers, body: JSON.stringify({ locale: 'en', term: 'AI Slop' }) },
+                env
+            );
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO profanity_terms'))).toBe(false);
+        });
+
+        it('should return 404 when removing an unknown term', async () => {
+            mockDb._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const res = await app.request('/api/v1/moderation/profanity/missing', { method: 'DELETE', headers }, env);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should not let a reviewer add terms', async () => {
+            mockDb._setupMock((query) => (query.includes('FROM moderators') ? { role: 'reviewer' } : null));
+
+            const res = await app.request(
+                '/api/v1/moderation/profanity',
+                {
+                    method: 'POST',
+                    headers: { ...headers, 'X-User-Discord-ID': '111111111111111111' },
+                    body: JSON.stringify({ locale: 'en', term: 'gilslop' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+    });
 });
@@ -6,6 +6,8 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { Hono } from 'hono';
 import { presetsRouter, resetCategoryCache } from '../../src/handlers/presets';
 import { authMiddleware } from '../../src/middleware/auth';
+import { encodePresetCursor } from '../../src/services/preset-service';
+import { _resetPatternsForTesting, _setTestPatterns } from '../../src/services/moderation-service';
 import type { Env, AuthContext, CommunityPreset } from '../../src/types';
 import {
     createMockEnv,
@@ -81,7 +83,7 @@ describe('PresetsHandler', () => {
 
             await app.request('/api/v1/presets?search=sunset', {}, env);
 
-            expect(mockDb._bindings.some((b) => b.includes('%sunset%'))).toBe(true);
+            expect(mockDb._bindings.some((b) => b.includes('"sunset"*'))).toBe(true);
         });
 
         it('should filter by is_curated', async () => {
@@ -104,6 +106,64 @@ describe('PresetsHandler', () => {
             expect(body.limit).toBe(10);
         });
 
+        it('should filter by contained dyes', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/presets?dyes=5738,13115&dye_match=any', {}, env);
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries[0]).toContain('FROM preset_dyes');
+            expect(mockDb._bindings[0]).toEqual(expect.arrayContaining([5738, 13115]));
+        });
+
+        it('should filter by normalized tag', async () => {
+            mockDb._setupMock(() => []);
+
+            await app.request('/api/v1/presets?tag=%20Gothic%20', {}, env);
+
+            expect(mockDb._queries[0]).toContain('FROM preset_tags');
+            expect(mockDb._bindings[0]).toContain('gothic');
+        });
+
+        it('should reject malformed dye filters', async () => {
+            const res = await app.request('/api/v1/presets?dyes=5738,abc', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject unknown dye match modes', async () => {
+            const res = await app.request('/api/v1/presets?dyes=5738&dye_match=some', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should paginate with a cursor', async () => {
+            mockDb._setupMock(() => []);
+            const cursor = encodePresetCursor({ sort: 'recent', values: ['2025-01-01T00:00:00Z', 'preset-1'] });
+
+            const res = await app.request(`/api/v1/presets?cursor=${cursor}`, {}, env);
+            const body = await res.json() as { total: number | null; next_cursor: string | null };
+
+            expect(res.status).toBe(200);
+            expect(body.total).toBeNull();
+            expect(body.next_cursor).toBeNull();
+            expect(mockDb._queries[0]).toContain('(created_at, id) < (?, ?)');
+        });
+
+        it('should reject an invalid cursor', async () => {
+            const res = await app.request('/api/v1/presets?cursor=garbage', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject a cursor issued for a different sort', async () => {
+            const cursor = encodePresetCursor({ sort: 'recent', values: ['2025-01-01T00:00:00Z', 'preset-1'] });
+
+            const res = await app.request(`/api/v1/presets?sort=name&cursor=${cursor}`, {}, env);
+
+            expect(res.status).toBe(400);
+        });
+
         it('should cap limit at 100', async () => {
             // Return empty array - the limit cap assertion doesn't need actual data
             mockDb._setupMock(() => []);
@@ -132,6 +192,15 @@ describe('PresetsHandler', () => {
 
             expect(body.presets).toHaveLength(10);
         });
+
+        it('should support the trending sort', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/presets/featured?sort=trending', {}, env);
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries[0]).toContain('trending_score DESC');
+        });
     });
 
     // ============================================
@@ -281,6 +350,134 @@ describe('PresetsHandler', () => {
         });
     });
 
+    // ============================================
+    // GET /api/v1/presets/:id/similar
+    // ============================================
+
+    describe('GET /api/v1/presets/:id/similar', () => {
+        it('should return presets ranked by dye overlap', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('WITH source')) {
+                    return [{ ...createMockPresetRow({ id: 'preset-456' }), shared_dyes: 2, similarity: 0.5 }];
+                }
+                return createMockPresetRow({ id: 'preset-123' });
+            });
+
+            const res = await app.request('/api/v1/presets/preset-123/similar', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: Array<{ id: string; similarity: number; shared_dyes: number }> };
+            expect(body.presets).toHaveLength(1);
+            expect(body.presets[0]).toMatchObject({ id: 'preset-456', similarity: 0.5, shared_dyes: 2 });
+        });
+
+        it('should cap the limit at 20', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('WITH source')) return [];
+                return createMockPresetRow({ id: 'preset-123' });
+            });
+
+            await app.request('/api/v1/presets/preset-123/similar?limit=500', {}, env);
+
+            const index = mockDb._queries.findIndex((q) => q.includes('WITH source'));
+            expect(mockDb._bindings[index]).toEqual(['preset-123', 'preset-123', 20]);
+        });
+
+        it('should return 404 if preset not found', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request('/api/v1/presets/nonexistent/similar', {}, env);
+
+            expect(res.status).toBe(404);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/presets/:id/revisions
+    // ============================================
+
+    describe('GET /api/v1/presets/:id/revisions', () => {
+        const revisionRow = {
+            id: 'rev-1',
+            preset_id: 'preset-123',
+            revision_number: 1,
+            action: 'create',
+            name: 'Test Preset',
+            description: 'A test preset description',
+            dyes: '[1,2,3]',
+            tags: '["test"]',
+            changed_fields: '["name","description","dyes","tags"]',
+            editor_discord_id: '123',
+            editor_xivauth_id: null,
+            moderation_status: 'approved',
+            created_at: '2025-01-01T00:00:00Z',
+        };
+
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/presets/preset-123/revisions', {}, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should return revisions to the owner', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_revisions')) return [revisionRow];
+                return createMockPresetRow({ id: 'preset-123', author_discord_id: '123' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { revisions: Array<{ revision_number: number; changed_fields: string[] }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.revisions[0].revision_number).toBe(1);
+            expect(body.revisions[0].changed_fields).toEqual(['name', 'description', 'dyes', 'tags']);
+        });
+
+        it('should return revisions to a moderator', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_revisions')) return [];
+                return createMockPresetRow({ id: 'preset-123', author_discord_id: 'other-user' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123456789' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+        });
+
+        it('should return 403 for other users', async () => {
+            mockDb._setupMock(() => createMockPresetRow({ id: 'preset-123', author_discord_id: 'other-user' }));
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should return 404 if preset not found', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request(
+                '/api/v1/presets/nonexistent/revisions',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(404);
+        });
+    });
+
     // ============================================
     // POST /api/v1/presets
     // ============================================
@@ -704,6 +901,7 @@ describe('PresetsHandler', () => {
             expect(res.status).toBe(200);
             const body = await res.json() as { success: boolean };
             expect(body.success).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM presets_fts'))).toBe(true);
         });
 
         it('should allow moderator to delete any preset', async () => {
@@ -769,11 +967,10 @@ describe('PresetsHandler', () => {
         });
 
         // ============================================
-        // PRESETS-MED-001: Cascade Delete Integration Tests
+        // Soft delete
         // ============================================
-        // These tests verify that deleting a preset also deletes its associated votes
 
-        it('should cascade delete votes when deleting a preset', async () => {
+        it('should soft-delete the preset and keep its votes', async () => {
             const mockRow = createMockPresetRow({
                 id: 'preset-with-votes',
                 author_discord_id: '123',
@@ -793,29 +990,23 @@ describe('PresetsHandler', () => {
             );
 
             expect(res.status).toBe(200);
-
-            // Verify both delete queries were executed (CASCADE DELETE behavior)
-            const voteDeleteQuery = mockDb._queries.find(q =>
-                q.includes('DELETE FROM votes WHERE preset_id')
-            );
-            const presetDeleteQuery = mockDb._queries.find(q =>
-                q.includes('DELETE FROM presets WHERE id')
-            );
-
-            expect(voteDeleteQuery).toBeDefined();
-            expect(presetDeleteQuery).toBeDefined();
+            const softDelete = mockDb._queries.find((q) => q.includes('SET deleted_at = ?'));
+            expect(softDelete).toContain('dye_signature = NULL');
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM votes'))).toBe(false);
+            expect(mockDb._queries.some((q) => q.includes('DELETE FROM presets WHERE id'))).toBe(false);
         });
 
-        it('should bind the correct preset ID to both cascade delete queries', async () => {
-            const presetId = 'specific-preset-id';
+        it('should tell the owner how long the preset can be restored', async () => {
             const mockRow = createMockPresetRow({
-                id: presetId,
+                id: 'preset-123',
                 author_discord_id: '123',
             });
             mockDb._setupMock(() => mockRow);
+            env = createMockEnv({ DB: mockDb as unknown as D1Database, PRESET_RESTORE_WINDOW_DAYS: '7' });
 
-            await app.request(
-                `/api/v1/presets/${presetId}`,
+            const before = Date.now();
+            const res = await app.request(
+                '/api/v1/presets/preset-123',
                 {
                     method: 'DELETE',
                     headers: {
@@ -826,51 +1017,161 @@ describe('PresetsHandler', () => {
                 env
             );
 
-            // Find bindings that include the preset ID
-            // Both the vote delete and preset delete should bind the same ID
-            const presetIdBindings = mockDb._bindings.filter(b =>
-                b.includes(presetId)
-            );
-
-            // Should have at least 2 bindings with the preset ID:
-            // 1. DELETE FROM votes WHERE preset_id = ?
-            // 2. DELETE FROM presets WHERE id = ?
-            expect(presetIdBindings.length).toBeGreaterThanOrEqual(2);
+            const body = await res.json() as { restore_until: string };
+            const restoreUntil = new Date(body.restore_until).getTime();
+            expect(restoreUntil).toBeGreaterThanOrEqual(before + 7 * 24 * 60 * 60 * 1000);
+            expect(restoreUntil).toBeLessThan(before + 8 * 24 * 60 * 60 * 1000);
         });
 
-        it('should execute delete operations in correct order (votes first, then preset)', async () => {
+        it('should mark and log a moderator deleting another user\'s preset', async () => {
             const mockRow = createMockPresetRow({
-                id: 'order-test-preset',
-                author_discord_id: '123',
+                id: 'preset-123',
+                author_discord_id: 'other-user',
             });
             mockDb._setupMock(() => mockRow);
 
             await app.request(
-                '/api/v1/presets/order-test-preset',
+                '/api/v1/presets/preset-123',
                 {
                     method: 'DELETE',
                     headers: {
                         Authorization: 'Bearer test-bot-secret',
-                        'X-User-Discord-ID': '123',
+                        'X-User-Discord-ID': '123456789',
                     },
                 },
                 env
             );
 
-            // Find indices of delete queries
-            const voteDeleteIndex = mockDb._queries.findIndex(q =>
-                q.includes('DELETE FROM votes')
-            );
-            const presetDeleteIndex = mockDb._queries.findIndex(q =>
-                q.includes('DELETE FROM presets WHERE id')
+            const softDeleteIndex = mockDb._queries.findIndex((q) => q.includes('SET deleted_at = ?'));
+            expect(mockDb._bindings[softDeleteIndex][1]).toBe(1);
+            const logIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(mockDb._bindings[logIndex]).toContain('delete');
+        });
+    });
+
+    // ============================================
+    // POST /api/v1/presets/:id/restore
+    // ============================================
+
+    describe('POST /api/v1/presets/:id/restore', () => {
+        const deletedRow = (overrides: Record<string, unknown> = {}) => ({
+            ...createMockPresetRow({ id: 'preset-123', author_discord_id: '123' }),
+            deleted_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+            deleted_by_moderator: 0,
+            ...overrides,
+        });
+
+        const restore = (userId = '123') =>
+            app.request(
+                '/api/v1/presets/preset-123/restore',
+                {
+                    method: 'POST',
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': userId,
+                    },
+                },
+                env
             );
 
-            // Both queries should exist
-            expect(voteDeleteIndex).toBeGreaterThan(-1);
-            expect(presetDeleteIndex).toBeGreaterThan(-1);
+        it('should restore the owner\'s deleted preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('deleted_at IS NOT NULL')) return deletedRow();
+                if (query.includes('WHERE dye_signature = ?')) return null;
+                return createMockPresetRow({ id: 'preset-123', author_discord_id: '123' });
+            });
+
+            const res = await restore();
 
-            // Votes should be deleted before preset (to maintain referential integrity)
-            expect(voteDeleteIndex).toBeLessThan(presetDeleteIndex);
+            expect(res.status).toBe(200);
+            const restoreIndex = mockDb._queries.findIndex((q) => q.includes('SET deleted_at = NULL'));
+            expect(restoreIndex).toBeGreaterThan(-1);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO presets_fts'))).toBe(true);
+        });
+
+        it('should return 404 if the preset is not deleted', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await restore();
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should return 403 for other users', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                return deletedRow();
+            });
+
+            const res = await restore('someone-else');
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should return 403 if a moderator deleted the preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                return deletedRow({ deleted_by_moderator: 1 });
+            });
+
+            const res = await restore();
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should return 409 once the restore window has passed', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                return deletedRow({ deleted_at: '2020-01-01T00:00:00.000Z' });
+            });
+
+            const res = await restore();
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should return 409 if the dye combination was reused', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('WHERE dye_signature = ?')) {
+                    return createMockPresetRow({ id: 'preset-999' });
+                }
+                return deletedRow();
+            });
+
+            const res = await restore();
+
+            expect(res.status).toBe(409);
+            expect(mockDb._queries.some((q) => q.includes('SET deleted_at = NULL'))).toBe(false);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/presets/mine/deleted
+    // ============================================
+
+    describe('GET /api/v1/presets/mine/deleted', () => {
+        it('should list restorable presets with their deadlines', async () => {
+            mockDb._setupMock(() => [
+                {
+                    ...createMockPresetRow({ id: 'preset-123', author_discord_id: '123' }),
+                    deleted_at: '2025-01-01T00:00:00.000Z',
+                    deleted_by_moderator: 0,
+                },
+            ]);
+
+            const res = await app.request(
+                '/api/v1/presets/mine/deleted',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': '123' } },
+                env
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: Array<{ restore_until: string }>; restore_window_days: number };
+            expect(body.restore_window_days).toBe(30);
+            expect(body.presets[0].restore_until).toBe('2025-01-31T00:00:00.000Z');
+            expect(mockDb._queries[0]).toContain('deleted_by_moderator = 0');
         });
     });
 
@@ -1710,6 +2011,34 @@ describe('PresetsHandler', () => {
             expect(body.success).toBe(true);
         });
 
+        it('should refuse a display name that fails moderation', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            mockDb._setupMock(() => ({ changes: 5 }));
+
+            try {
+                const res = await app.request(
+                    '/api/v1/presets/refresh-author',
+                    {
+                        method: 'PATCH',
+                        headers: {
+                            Authorization: 'Bearer test-bot-secret',
+                            'X-User-Discord-ID': '123',
+                            'X-User-Discord-Name': 'B4dw0rd',
+                        },
+                    },
+                    env
+                );
+
+                expect(res.status).toBe(422);
+                const body = await res.json() as { error: string; message: string };
+                expect(body.error).toBe('CONTENT_FLAGGED');
+                expect(body.message).toContain('author_name');
+                expect(mockDb._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+            } finally {
+                _resetPatternsForTesting();
+            }
+        });
+
         it('should require user context', async () => {
             // Auth without user ID header
             const res = await app.request(
@@ -1727,4 +2056,378 @@ describe('PresetsHandler', () => {
             expect(res.status).toBe(400);
         });
     });
+
+    // ============================================
+    // Remix lineage
+    // ============================================
+
+    describe('Remix lineage', () => {
+        it('should include the parent and remix count on a single preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('remix_count')) {
+                    return {
+                        remix_count: 3,
+                        parent_id: 'preset-parent',
+                        parent_name: 'Original Palette',
+                        parent_author_name: 'OriginalAuthor',
+                    };
+                }
+                return { ...createMockPresetRow({ id: 'preset-123' }), parent_id: 'preset-parent' };
+            });
+
+            const res = await app.request('/api/v1/presets/preset-123', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { parent_id: string; parent: unknown; remix_count: number };
+            expect(body.parent_id).toBe('preset-parent');
+            expect(body.parent).toEqual({ id: 'preset-parent', name: 'Original Palette', author_name: 'OriginalAuthor' });
+            expect(body.remix_count).toBe(3);
+        });
+
+        it('should return a null parent when the parent is not visible', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('remix_count')) {
+                    return { remix_count: 0, parent_id: null, parent_name: null, parent_author_name: null };
+                }
+                return createMockPresetRow({ id: 'preset-123' });
+            });
+
+            const res = await app.request('/api/v1/presets/preset-123', {}, env);
+
+            const body = await res.json() as { parent: unknown; remix_count: number };
+            expect(body.parent).toBeNull();
+            expect(body.remix_count).toBe(0);
+        });
+
+        it('should list remixes of a preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('parent_id = ?')) {
+                    return [{ ...createMockPresetRow({ id: 'remix-1' }), _total: 1 }];
+                }
+                return createMockPresetRow({ id: 'preset-123' });
+            });
+
+            const res = await app.request('/api/v1/presets/preset-123/remixes?sort=recent', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { presets: Array<{ id: string }> };
+            expect(body.presets[0].id).toBe('remix-1');
+            const listIndex = mockDb._queries.findIndex((q) => q.includes('parent_id = ?'));
+            expect(mockDb._bindings[listIndex]).toContain('preset-123');
+            expect(mockDb._queries[listIndex]).toContain('created_at DESC');
+        });
+
+        it('should return 404 for remixes of a missing preset', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await app.request('/api/v1/presets/nonexistent/remixes', {}, env);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should reject a submission whose parent is not an approved preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('categories')) {
+                    return [{ id: 'aesthetics' }, { id: 'jobs' }, { id: 'community' }];
+                }
+                if (query.includes('FROM presets WHERE id = ?')) {
+                    return createMockPresetRow({ id: 'preset-parent', status: 'pending' });
+                }
+                return { count: 0 };
+            });
+
+            const res = await app.request(
+                '/api/v1/presets',
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123',
+                    },
+                    body: JSON.stringify({ ...createMockSubmission(), parent_id: 'preset-parent' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+            const body = await res.json() as { message: string };
+            expect(body.message).toBe('Parent preset not found');
+        });
+    });
+
+    // ============================================
+    // Comments
+    // ============================================
+
+    describe('Comments', () => {
+        const authHeaders = {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-bot-secret',
+            'X-User-Discord-ID': 'commenter-1',
+            'X-User-Discord-Name': 'Commenter',
+        };
+
+        const commentRow = (overrides: Record<string, unknown> = {}) => ({
+            id: 'comment-1',
+            preset_id: 'preset-123',
+            author_discord_id: 'commenter-1',
+            author_xivauth_id: null,
+            author_name: 'Commenter',
+            body: 'Works great with the Augmented Neo-Ishgardian set',
+            status: 'visible',
+            created_at: '2025-01-01T00:00:00Z',
+            updated_at: '2025-01-01T00:00:00Z',
+            edited_at: null,
+            _total: 1,
+            ...overrides,
+        });
+
+        afterEach(() => {
+            _resetPatternsForTesting();
+        });
+
+        it('should list visible comments plus the viewer\'s pending ones', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('FROM preset_comments')) return [commentRow()];
+                return createMockPresetRow({ id: 'preset-123', status: 'approved' });
+            });
+
+            const res = await app.request('/api/v1/presets/preset-123/comments?limit=10', { headers: authHeaders }, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { comments: Array<{ id: string }>; total: number; limit: number };
+            expect(body.comments[0].id).toBe('comment-1');
+            expect(body.total).toBe(1);
+            expect(body.limit).toBe(10);
+            const index = mockDb._queries.findIndex((q) => q.includes('FROM preset_comments'));
+            expect(mockDb._queries[index]).toContain("status = 'visible' OR (status = 'pending'");
+            expect(mockDb._bindings[index]).toEqual(['preset-123', 'commenter-1', null, 10, 0]);
+        });
+
+        it('should return 404 for comments on a preset that is not approved', async () => {
+            mockDb._setupMock(() => createMockPresetRow({ id: 'preset-123', status: 'pending' }));
+
+            const res = await app.request('/api/v1/presets/preset-123/comments', {}, env);
+
+            expect(res.status).toBe(404);
+        });
+
+        it('should post a clean comment as visible', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('COUNT(*) as count')) return { count: 0 };
+                if (query.includes('INSERT INTO preset_comments')) return { success: true };
+                return createMockPresetRow({ id: 'preset-123', status: 'approved' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/comments',
+                { method: 'POST', headers: authHeaders, body: JSON.stringify({ body: '  Works great  ' }) },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as {
+                comment: { body: string; status: string; author_name: string };
+                moderation_status: string;
+                remaining_comments: number;
+            };
+            expect(body.comment).toMatchObject({ body: 'Works great', status: 'visible', author_name: 'Commenter' });
+            expect(body.moderation_status).toBe('visible');
+            expect(body.remaining_comments).toBe(29);
+            const countQuery = mockDb._queries.find((q) => q.includes('COUNT(*) as count'));
+            expect(countQuery).toContain('FROM comment_activity');
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO comment_activity'))).toBe(true);
+        });
+
+        it('should hold a flagged comment for moderation', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('COUNT(*) as count')) return { count: 0 };
+                if (query.includes('INSERT INTO preset_comments')) return { success: true };
+                return createMockPresetRow({ id: 'preset-123', status: 'approved' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/comments',
+                { method: 'POST', headers: authHeaders, body: JSON.stringify({ body: 'what a badword palette' }) },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { comment: { status: string }; moderation_status: string };
+            expect(body.comment.status).toBe('pending');
+            expect(body.moderation_status).toBe('pending');
+        });
+
+        it('should hold a comment for moderation when the author name is flagged', async () => {
+            _setTestPatterns([/\bbadword\b/i]);
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('COUNT(*) as count')) return { count: 0 };
+                if (query.includes('INSERT INTO preset_comments')) return { success: true };
+                return createMockPresetRow({ id: 'preset-123', status: 'approved' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/comments',
+                {
+                    method: 'POST',
+                    headers: { ...authHeaders, 'X-User-Discord-Name': 'B4dw0rd' },
+                    body: JSON.stringify({ body: 'Works great' }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { moderation_status: string };
+            expect(body.moderation_status).toBe('pending');
+        });
+
+        it('should reject comments from banned users', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return { id: 'ban-1', reason: 'Spam' };
+                return createMockPresetRow({ id: 'preset-123', status: 'approved' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/comments',
+                { method: 'POST', headers: authHeaders, body: JSON.stringify({ body: 'Nice' }) },
+                env
+            );
+
+            expect(res.status).toBe(403);
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO preset_comments'))).toBe(false);
+        });
+
+        it('should enforce the daily comment limit', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('COUNT(*) as count')) return { count: 30 };
+                return createMockPresetRow({ id: 'preset-123', status: 'approved' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/comments',
+                { method: 'POST', headers: authHeaders, body: JSON.stringify({ body: 'Nice' }) },
+                env
+            );
+
+            expect(res.status).toBe(429);
+        });
+
+        it('should validate the comment body', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('COUNT(*) as count')) return { count: 0 };
+                return createMockPresetRow({ id: 'preset-123', status: 'approved' });
+            });
+
+            const res = await app.request(
+                '/api/v1/presets/preset-123/comments',
+                { method: 'POST', headers: authHeaders, body: JSON.stringify({ body: 'x'.repeat(501) }) },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+    });
+
+    // ============================================
+    // Reports
+    // ============================================
+
+    describe('POST /api/v1/presets/:id/report', () => {
+        const report = (body: unknown, userId = 'reporter-1') =>
+            app.request(
+                '/api/v1/presets/preset-123/report',
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': userId,
+                    },
+                    body: JSON.stringify(body),
+                },
+                env
+            );
+
+        it('should record a report', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('INSERT INTO preset_reports')) return { success: true, meta: { changes: 1 } };
+                if (query.includes('COUNT(*) AS count')) return { count: 1 };
+                return createMockPresetRow({ id: 'preset-123', author_discord_id: 'author-1', status: 'approved' });
+            });
+
+            const res = await report({ category: 'spam', details: 'Same palette posted ten times' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { report: { category: string; status: string }; preset_flagged: boolean };
+            expect(body.report).toMatchObject({ category: 'spam', status: 'open' });
+            expect(body.preset_flagged).toBe(false);
+        });
+
+        it('should flag the preset once the threshold is reached', async () => {
+            env = createMockEnv({ DB: mockDb as unknown as D1Database, REPORT_FLAG_THRESHOLD: '2' });
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('INSERT INTO preset_reports')) return { success: true, meta: { changes: 1 } };
+                if (query.includes('COUNT(*) AS count')) return { count: 2 };
+                if (query.includes('FROM presets')) {
+                    return createMockPresetRow({ id: 'preset-123', author_discord_id: 'author-1', status: 'approved' });
+                }
+                if (query.includes('UPDATE presets')) return { success: true, meta: { changes: 1 } };
+                return { success: true };
+            });
+
+            const res = await report({ category: 'offensive' });
+
+            expect(res.status).toBe(201);
+            const body = await res.json() as { preset_flagged: boolean };
+            expect(body.preset_flagged).toBe(true);
+            expect(mockDb._queries.some((q) => q.includes("SET status = 'flagged'"))).toBe(true);
+        });
+
+        it('should return 409 for a second report by the same user', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                if (query.includes('INSERT INTO preset_reports')) return { success: true, meta: { changes: 0 } };
+                return createMockPresetRow({ id: 'preset-123', author_discord_id: 'author-1', status: 'approved' });
+            });
+
+            const res = await report({ category: 'spam' });
+
+            expect(res.status).toBe(409);
+        });
+
+        it('should validate the category', async () => {
+            const res = await report({ category: 'boring' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should not let authors report their own preset', async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('banned_users')) return null;
+                return createMockPresetRow({ id: 'preset-123', author_discord_id: 'reporter-1', status: 'approved' });
+            });
+
+            const res = await report({ category: 'wrong_category' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should return 404 for a missing preset', async () => {
+            mockDb._setupMock(() => null);
+
+            const res = await report({ category: 'spam' });
+
+            expect(res.status).toBe(404);
+        });
+    });
 });
@@ -0,0 +1,110 @@
+/**
+ * Tags Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { tagsRouter } from '../../src/handlers/tags';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext, TagSummary } from '../../src/types';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+describe('TagsHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/tags', tagsRouter);
+
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // GET /api/v1/tags
+    // ============================================
+
+    describe('GET /api/v1/tags', () => {
+        it('should return tags with approved preset counts', async () => {
+            mockDb._setupMock(() => [
+                { name: 'gothic', preset_count: 12 },
+                { name: 'pastel', preset_count: 4 },
+            ]);
+
+            const res = await app.request('/api/v1/tags', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { tags: TagSummary[] };
+            expect(body.tags).toEqual([
+                { name: 'gothic', preset_count: 12 },
+                { name: 'pastel', preset_count: 4 },
+            ]);
+            expect(mockDb._queries[0]).toContain("p.status = 'approved'");
+        });
+
+        it('should set cache headers', async () => {
+            mockDb._setupMock(() => []);
+
+            const res = await app.request('/api/v1/tags', {}, env);
+
+            expect(res.headers.get('Cache-Control')).toContain('s-maxage=60');
+        });
+
+        it('should cap the limit at 200', async () => {
+            mockDb._setupMock(() => []);
+
+            await app.request('/api/v1/tags?limit=1000', {}, env);
+
+            expect(mockDb._bindings[0]).toEqual([200]);
+        });
+    });
+
+    // ============================================
+    // GET /api/v1/tags/autocomplete
+    // ============================================
+
+    describe('GET /api/v1/tags/autocomplete', () => {
+        it('should match normalized prefixes', async () => {
+            mockDb._setupMock(() => [{ name: 'gothic', preset_count: 12 }]);
+
+            const res = await app.request('/api/v1/tags/autocomplete?q=%20GoT', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { tags: TagSummary[] };
+            expect(body.tags[0].name).toBe('gothic');
+            expect(mockDb._bindings[0]).toEqual(['got%', 'got%', 10]);
+        });
+
+        it('should include alias matches', async () => {
+            mockDb._setupMock(() => []);
+
+            await app.request('/api/v1/tags/autocomplete?q=goth', {}, env);
+
+            expect(mockDb._queries[0]).toContain('FROM tag_aliases WHERE alias LIKE ?');
+        });
+
+        it('should escape LIKE wildcards in the prefix', async () => {
+            mockDb._setupMock(() => []);
+
+            await app.request('/api/v1/tags/autocomplete?q=50%25_off', {}, env);
+
+            expect(mockDb._bindings[0][0]).toBe('50\\%\\_off%');
+        });
+
+        it('should reject an empty query', async () => {
+            const res = await app.request('/api/v1/tags/autocomplete?q=%20%20', {}, env);
+
+            expect(res.status).toBe(400);
+        });
+    });
+});
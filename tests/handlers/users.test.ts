@@ -0,0 +1,70 @@
+/**
+ * Users Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { usersRouter } from '../../src/handlers/users';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext } from '../../src/types';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+describe('UsersHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        resetCounters();
+        mockDb = createMockD1Database();
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/users', usersRouter);
+
+        vi.clearAllMocks();
+    });
+
+    describe('GET /api/v1/users/:id/collections', () => {
+        it('should list only public collections to visitors', async () => {
+            mockDb._setupMock(() => [
+                {
+                    id: 'collection-1',
+                    owner_discord_id: 'owner-1',
+                    name: 'Summer event',
+                    description: null,
+                    is_public: 1,
+                    created_at: '2025-01-01T00:00:00Z',
+                    updated_at: '2025-01-01T00:00:00Z',
+                    preset_count: 4,
+                },
+            ]);
+
+            const res = await app.request('/api/v1/users/owner-1/collections', {}, env);
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { collections: Array<{ name: string; preset_count: number }>; total: number };
+            expect(body.total).toBe(1);
+            expect(body.collections[0]).toMatchObject({ name: 'Summer event', preset_count: 4 });
+            expect(mockDb._queries[0]).toContain('c.is_public = 1');
+        });
+
+        it('should include private collections for the owner', async () => {
+            mockDb._setupMock(() => []);
+
+            await app.request(
+                '/api/v1/users/owner-1/collections',
+                { headers: { Authorization: 'Bearer test-bot-secret', 'X-User-Discord-ID': 'owner-1' } },
+                env
+            );
+
+            expect(mockDb._queries[0]).not.toContain('c.is_public = 1');
+            expect(mockDb._bindings[0]).toEqual(['owner-1']);
+        });
+    });
+});
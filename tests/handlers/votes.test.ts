@@ -53,7 +53,7 @@ describe('VotesHandler', () => {
                 return { success: true };
             });
 
-            const result = await addVote(mockDb, 'preset-123', 'user-456');
+            const result = await addVote(mockDb, 'preset-123', ['user-456']);
 
             expect(result.success).toBe(true);
             expect(result.new_vote_count).toBe(1);
@@ -73,7 +73,7 @@ describe('VotesHandler', () => {
                 return null;
             });
 
-            const result = await addVote(mockDb, 'preset-123', 'user-456');
+            const result = await addVote(mockDb, 'preset-123', ['user-456']);
 
             expect(result.success).toBe(false);
             expect(result.already_voted).toBe(true);
@@ -88,11 +88,30 @@ describe('VotesHandler', () => {
                 return null;
             });
 
-            const result = await addVote(mockDb, 'preset-123', 'user-456');
+            const result = await addVote(mockDb, 'preset-123', ['user-456']);
 
             expect(result.success).toBe(false);
             expect(result.error).toBe('Failed to add vote');
         });
+
+        it("should count a vote under a linked account's other key as a duplicate", async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('INSERT INTO votes')) {
+                    return { success: true, meta: { changes: 0 } };
+                }
+                if (query.includes('vote_count FROM presets')) {
+                    return { vote_count: 5 };
+                }
+                return null;
+            });
+
+            const result = await addVote(mockDb, 'preset-123', ['111', 'xivauth:xiv-1']);
+
+            expect(result.already_voted).toBe(true);
+            const insertIndex = mockDb._queries.findIndex((q) => q.includes('INSERT INTO votes'));
+            expect(mockDb._queries[insertIndex]).toContain('user_discord_id IN (?, ?)');
+            expect(mockDb._bindings[insertIndex]).toEqual(['preset-123', '111', expect.any(String), 'preset-123', '111', 'xivauth:xiv-1']);
+        });
     });
 
     // ============================================
@@ -113,7 +132,7 @@ describe('VotesHandler', () => {
                 return { success: true };
             });
 
-            const result = await removeVote(mockDb, 'preset-123', 'user-456');
+            const result = await removeVote(mockDb, 'preset-123', ['user-456']);
 
             expect(result.success).toBe(true);
             expect(result.new_vote_count).toBe(4);
@@ -132,7 +151,7 @@ describe('VotesHandler', () => {
                 return null;
             });
 
-            const result = await removeVote(mockDb, 'preset-123', 'user-456');
+            const result = await removeVote(mockDb, 'preset-123', ['user-456']);
 
             expect(result.success).toBe(false);
             expect(result.already_voted).toBe(false);
@@ -147,11 +166,29 @@ describe('VotesHandler', () => {
                 return null;
             });
 
-            const result = await removeVote(mockDb, 'preset-123', 'user-456');
+            const result = await removeVote(mockDb, 'preset-123', ['user-456']);
 
             expect(result.success).toBe(false);
             expect(result.error).toBe('Failed to remove vote');
         });
+
+        it("should remove a vote stored under a linked account's other key", async () => {
+            mockDb._setupMock((query) => {
+                if (query.includes('DELETE FROM votes')) {
+                    return { success: true, meta: { changes: 1 } };
+                }
+                if (query.includes('UPDATE presets')) {
+                    return { vote_count: 4 };
+                }
+                return { success: true };
+            });
+
+            const result = await removeVote(mockDb, 'preset-123', ['111', 'xivauth:xiv-1']);
+
+            expect(result.success).toBe(true);
+            expect(mockDb._queries[0]).toContain('user_discord_id IN (?, ?)');
+            expect(mockDb._bindings[0]).toEqual(['preset-123', 'preset-123', '111', 'xivauth:xiv-1']);
+        });
     });
 
     // ============================================
@@ -485,7 +522,7 @@ describe('VotesHandler', () => {
                 return { success: true };
             });
 
-            await addVote(mockDb, 'preset-123', 'user-456');
+            await addVote(mockDb, 'preset-123', ['user-456']);
 
             // Should have INSERT vote and UPDATE preset with vote_count + 1
             expect(mockDb._queries.some((q) => q.includes('INSERT INTO votes'))).toBe(true);
@@ -503,7 +540,7 @@ describe('VotesHandler', () => {
                 return { success: true };
             });
 
-            await removeVote(mockDb, 'preset-123', 'user-456');
+            await removeVote(mockDb, 'preset-123', ['user-456']);
 
             // Should have DELETE vote and UPDATE preset with vote_count - 1
             expect(mockDb._queries.some((q) => q.includes('DELETE FROM votes'))).toBe(true);
@@ -521,7 +558,7 @@ describe('VotesHandler', () => {
                 return { success: true };
             });
 
-            await removeVote(mockDb, 'preset-123', 'user-456');
+            await removeVote(mockDb, 'preset-123', ['user-456']);
 
             expect(mockDb._queries.some((q) => q.includes('MAX(0, vote_count - 1)'))).toBe(true);
         });
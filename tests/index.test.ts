@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import app from '../src/index';
+import { app } from '../src/index';
 import type { Env } from '../src/types';
 import { createMockEnv } from './test-utils';
 
@@ -9,9 +9,13 @@ import {
     requireAuth,
     requireModerator,
     requireUserContext,
+    authContextFromJWT,
+    isPresetAuthor,
+    getUserKey,
+    getUserKeys,
 } from '../../src/middleware/auth';
 import type { Env, AuthContext } from '../../src/types';
-import { createMockEnv, createTestJWT, createExpiredJWT } from '../test-utils';
+import { createMockEnv, createMockD1Database, createTestJWT, createExpiredJWT } from '../test-utils';
 
 type Variables = {
     auth: AuthContext;
@@ -40,12 +44,19 @@ describe('AuthMiddleware', () => {
         });
 
         // Moderator route
-        app.get('/test/moderator', (c) => {
-            const modError = requireModerator(c);
+        app.get('/test/moderator', async (c) => {
+            const modError = await requireModerator(c);
             if (modError) return modError;
             return c.json({ success: true });
         });
 
+        // Route needing a permission
+        app.get('/test/ban', async (c) => {
+            const modError = await requireModerator(c, 'ban');
+            if (modError) return modError;
+            return c.json({ role: c.get('auth').moderatorRole });
+        });
+
         // User context route
         app.get('/test/user-context', (c) => {
             const userError = requireUserContext(c);
@@ -450,6 +461,64 @@ describe('AuthMiddleware', () => {
             const body = await res.json() as { error: string };
             expect(body.error).toBe('Forbidden');
         });
+
+        it('should treat MODERATOR_IDS users as admins without a lookup', async () => {
+            const mockDb = createMockD1Database();
+            const res = await app.request(
+                '/test/ban',
+                {
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789', // In MODERATOR_IDS
+                    },
+                },
+                createMockEnv({ DB: mockDb as unknown as D1Database })
+            );
+
+            expect(res.status).toBe(200);
+            const body = await res.json() as { role: string };
+            expect(body.role).toBe('admin');
+            expect(mockDb._queries).toHaveLength(0);
+        });
+
+        it('should allow moderators from the moderators table', async () => {
+            const mockDb = createMockD1Database();
+            mockDb._setupMock(() => ({ role: 'reviewer' }));
+
+            const res = await app.request(
+                '/test/moderator',
+                {
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '999999999',
+                    },
+                },
+                createMockEnv({ DB: mockDb as unknown as D1Database })
+            );
+
+            expect(res.status).toBe(200);
+            expect(mockDb._queries[0]).toContain('FROM moderators');
+        });
+
+        it("should reject actions the moderator's role doesn't permit", async () => {
+            const mockDb = createMockD1Database();
+            mockDb._setupMock(() => ({ role: 'reviewer' }));
+
+            const res = await app.request(
+                '/test/ban',
+                {
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '999999999',
+                    },
+                },
+                createMockEnv({ DB: mockDb as unknown as D1Database })
+            );
+
+            expect(res.status).toBe(403);
+            const body = await res.json() as { message: string };
+            expect(body.message).toContain('ban');
+        });
     });
 
     // ============================================
@@ -917,4 +986,102 @@ describe('AuthMiddleware', () => {
             expect(body.isAuthenticated).toBe(false);
         });
     });
+
+    // ============================================
+    // XIVAuth Identities
+    // ============================================
+
+    describe('authContextFromJWT', () => {
+        const basePayload = { iat: 0, exp: 0, username: 'User', global_name: 'Display Name' };
+
+        it('should map Discord logins to userDiscordId', () => {
+            const auth = authContextFromJWT({ ...basePayload, sub: '123456789' }, '123456789');
+
+            expect(auth.userDiscordId).toBe('123456789');
+            expect(auth.userXivAuthId).toBeUndefined();
+            expect(auth.isModerator).toBe(true);
+            expect(auth.authSource).toBe('web');
+            expect(auth.userName).toBe('Display Name');
+        });
+
+        it('should carry a linked XIVAuth ID on Discord logins', () => {
+            const auth = authContextFromJWT(
+                { ...basePayload, sub: '123456789', xivauth_id: 'xiv-uuid-1' },
+                ''
+            );
+
+            expect(auth.userDiscordId).toBe('123456789');
+            expect(auth.userXivAuthId).toBe('xiv-uuid-1');
+        });
+
+        it('should map XIVAuth logins to userXivAuthId', () => {
+            const auth = authContextFromJWT(
+                { ...basePayload, sub: 'xiv-uuid-1', provider: 'xivauth' },
+                '123456789'
+            );
+
+            expect(auth.isAuthenticated).toBe(true);
+            expect(auth.userXivAuthId).toBe('xiv-uuid-1');
+            expect(auth.userDiscordId).toBeUndefined();
+            expect(auth.isModerator).toBe(false);
+        });
+
+        it('should use the linked Discord ID for XIVAuth logins', () => {
+            const auth = authContextFromJWT(
+                { ...basePayload, sub: 'xiv-uuid-1', provider: 'xivauth', discord_id: '123456789' },
+                '123456789'
+            );
+
+            expect(auth.userXivAuthId).toBe('xiv-uuid-1');
+            expect(auth.userDiscordId).toBe('123456789');
+            expect(auth.isModerator).toBe(true);
+        });
+    });
+
+    describe('isPresetAuthor', () => {
+        const preset = { author_discord_id: '111', author_xivauth_id: 'xiv-1' };
+
+        it('should match on Discord ID', () => {
+            expect(isPresetAuthor({ isAuthenticated: true, isModerator: false, authSource: 'bot', userDiscordId: '111' }, preset)).toBe(true);
+        });
+
+        it('should match on XIVAuth ID', () => {
+            expect(isPresetAuthor({ isAuthenticated: true, isModerator: false, authSource: 'web', userXivAuthId: 'xiv-1' }, preset)).toBe(true);
+        });
+
+        it('should not match other users', () => {
+            expect(isPresetAuthor({ isAuthenticated: true, isModerator: false, authSource: 'web', userDiscordId: '222', userXivAuthId: 'xiv-2' }, preset)).toBe(false);
+        });
+
+        it('should not treat missing IDs as a match', () => {
+            expect(isPresetAuthor(
+                { isAuthenticated: true, isModerator: false, authSource: 'web' },
+                { author_discord_id: null, author_xivauth_id: null }
+            )).toBe(false);
+        });
+    });
+
+    describe('getUserKey', () => {
+        it('should prefer the Discord ID', () => {
+            expect(getUserKey({ isAuthenticated: true, isModerator: false, authSource: 'web', userDiscordId: '111', userXivAuthId: 'xiv-1' })).toBe('111');
+        });
+
+        it('should prefix XIVAuth-only users', () => {
+            expect(getUserKey({ isAuthenticated: true, isModerator: false, authSource: 'web', userXivAuthId: 'xiv-1' })).toBe('xivauth:xiv-1');
+        });
+
+        it('should return undefined without an identity', () => {
+            expect(getUserKey({ isAuthenticated: false, isModerator: false, authSource: 'none' })).toBeUndefined();
+        });
+    });
+
+    describe('getUserKeys', () => {
+        it('should return both keys for a linked account, Discord first', () => {
+            expect(getUserKeys({ isAuthenticated: true, isModerator: false, authSource: 'web', userDiscordId: '111', userXivAuthId: 'xiv-1' })).toEqual(['111', 'xivauth:xiv-1']);
+        });
+
+        it('should return no keys without an identity', () => {
+            expect(getUserKeys({ isAuthenticated: false, isModerator: false, authSource: 'none' })).toEqual([]);
+        });
+    });
 });
@@ -341,6 +341,22 @@ describe('BanCheckMiddleware', () => {
             const banQuery = mockDb._queries.find((q) => q.includes('banned_users'));
             expect(banQuery).toContain('LIMIT 1');
         });
+
+        it('should ignore temporary bans whose expiry has passed', async () => {
+            await app.request(
+                '/test/action',
+                {
+                    headers: {
+                        Authorization: 'Bearer test-bot-secret',
+                        'X-User-Discord-ID': '123456789',
+                    },
+                },
+                env
+            );
+
+            const banQuery = mockDb._queries.find((q) => q.includes('banned_users'));
+            expect(banQuery).toContain('expires_at IS NULL OR expires_at > ?');
+        });
     });
 
     // ============================================
@@ -0,0 +1,369 @@
+/**
+ * Ban Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    rowToBan,
+    getActiveBan,
+    getLatestAuthorName,
+    banUser,
+    unbanUser,
+    getBans,
+    getUserBanHistory,
+    getBanExpiry,
+    releaseExpiredBans,
+    RELEASE_SWEEP_LIMIT,
+} from '../../src/services/ban-service';
+import type { BannedUserRow } from '../../src/types';
+import { createMockD1Database } from '../test-utils';
+
+function createBanRow(overrides: Partial<BannedUserRow> = {}): BannedUserRow {
+    return {
+        id: 'ban-1',
+        discord_id: '111222333',
+        xivauth_id: null,
+        username: 'Spammer',
+        moderator_discord_id: '123456789',
+        reason: 'Repeated spam submissions',
+        banned_at: '2025-12-01T00:00:00.000Z',
+        unbanned_at: null,
+        unban_moderator_discord_id: null,
+        expires_at: null,
+        ...overrides,
+    };
+}
+
+describe('BanService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // rowToBan
+    // ============================================
+
+    describe('rowToBan', () => {
+        it('should mark bans without unbanned_at as active', () => {
+            const ban = rowToBan(createBanRow());
+            expect(ban.is_active).toBe(true);
+        });
+
+        it('should mark lifted bans as inactive', () => {
+            const ban = rowToBan(
+                createBanRow({
+                    unbanned_at: '2025-12-02T00:00:00.000Z',
+                    unban_moderator_discord_id: '987654321',
+                })
+            );
+            expect(ban.is_active).toBe(false);
+            expect(ban.unban_moderator_discord_id).toBe('987654321');
+        });
+
+        it('should report no remaining time for permanent bans', () => {
+            const ban = rowToBan(createBanRow());
+            expect(ban.remaining_seconds).toBeNull();
+        });
+
+        it('should report remaining time for temporary bans', () => {
+            const now = new Date('2025-12-01T12:00:00.000Z');
+            const ban = rowToBan(createBanRow({ expires_at: '2025-12-01T13:00:00.000Z' }), now);
+
+            expect(ban.is_active).toBe(true);
+            expect(ban.remaining_seconds).toBe(3600);
+        });
+
+        it('should treat temporary bans past their expiry as inactive', () => {
+            const now = new Date('2025-12-02T12:00:00.000Z');
+            const ban = rowToBan(createBanRow({ expires_at: '2025-12-01T13:00:00.000Z' }), now);
+
+            expect(ban.is_active).toBe(false);
+            expect(ban.remaining_seconds).toBeNull();
+        });
+    });
+
+    // ============================================
+    // getBanExpiry
+    // ============================================
+
+    describe('getBanExpiry', () => {
+        const from = new Date('2025-12-01T00:00:00.000Z');
+
+        it('should return null for permanent bans', () => {
+            expect(getBanExpiry('permanent', from)).toBeNull();
+            expect(getBanExpiry(undefined, from)).toBeNull();
+        });
+
+        it('should add the duration to the ban time', () => {
+            expect(getBanExpiry('24h', from)).toBe('2025-12-02T00:00:00.000Z');
+            expect(getBanExpiry('7d', from)).toBe('2025-12-08T00:00:00.000Z');
+            expect(getBanExpiry('30d', from)).toBe('2025-12-31T00:00:00.000Z');
+        });
+    });
+
+    // ============================================
+    // getActiveBan
+    // ============================================
+
+    describe('getActiveBan', () => {
+        it('should return the active ban for a user', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createBanRow());
+
+            const ban = await getActiveBan(db, '111222333');
+
+            expect(ban?.id).toBe('ban-1');
+            expect(db._queries[0]).toContain('unbanned_at IS NULL');
+            expect(db._bindings[0]).toContain('111222333');
+        });
+
+        it('should return null when the user is not banned', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            const ban = await getActiveBan(db, '111222333');
+
+            expect(ban).toBeNull();
+        });
+    });
+
+    // ============================================
+    // getLatestAuthorName
+    // ============================================
+
+    describe('getLatestAuthorName', () => {
+        it('should return the most recent author name', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ author_name: 'Latest Name' }));
+
+            const name = await getLatestAuthorName(db, '111222333');
+
+            expect(name).toBe('Latest Name');
+        });
+
+        it('should return null when the user has no presets', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            const name = await getLatestAuthorName(db, '111222333');
+
+            expect(name).toBeNull();
+        });
+    });
+
+    // ============================================
+    // banUser
+    // ============================================
+
+    describe('banUser', () => {
+        it('should insert a ban record and hide the user presets', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 3 } }));
+
+            const result = await banUser(db, {
+                discordId: '111222333',
+                username: 'Spammer',
+                reason: 'Repeated spam submissions',
+                moderatorDiscordId: '123456789',
+            });
+
+            expect(result.ban.is_active).toBe(true);
+            expect(result.ban.discord_id).toBe('111222333');
+            expect(result.ban.moderator_discord_id).toBe('123456789');
+            expect(result.ban.expires_at).toBeNull();
+            expect(db._queries.some((q) => q.includes('INSERT INTO banned_users'))).toBe(true);
+            expect(db._queries.some((q) => q.includes("status = 'hidden'"))).toBe(true);
+        });
+
+        it('should remember each preset status before hiding it', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            await banUser(db, {
+                discordId: '111222333',
+                username: 'Spammer',
+                reason: 'Repeated spam submissions',
+                moderatorDiscordId: '123456789',
+            });
+
+            expect(db._queries.some((q) => q.includes('pre_ban_status = status'))).toBe(true);
+        });
+
+        it('should store an expiry for temporary bans', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const result = await banUser(db, {
+                discordId: '111222333',
+                username: 'Spammer',
+                reason: 'Repeated spam submissions',
+                moderatorDiscordId: '123456789',
+                duration: '7d',
+            });
+
+            expect(result.ban.expires_at).not.toBeNull();
+            expect(result.ban.remaining_seconds).toBe(7 * 24 * 60 * 60);
+            expect(db._bindings.some((b) => b.includes(result.ban.expires_at))).toBe(true);
+        });
+    });
+
+    // ============================================
+    // unbanUser
+    // ============================================
+
+    describe('unbanUser', () => {
+        it('should return null when the user has no active ban', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            const result = await unbanUser(db, '111222333', '123456789');
+
+            expect(result).toBeNull();
+            expect(db._queries.some((q) => q.includes('UPDATE banned_users'))).toBe(false);
+        });
+
+        it('should lift the ban and restore presets', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('SELECT * FROM banned_users')) {
+                    return createBanRow();
+                }
+                return { success: true, meta: { changes: 2 } };
+            });
+
+            const result = await unbanUser(db, '111222333', '987654321');
+
+            expect(result?.ban.is_active).toBe(false);
+            expect(result?.ban.unban_moderator_discord_id).toBe('987654321');
+            expect(result?.ban.unbanned_at).toBeTruthy();
+            expect(db._queries.some((q) => q.includes('SET status = pre_ban_status'))).toBe(true);
+        });
+
+        it('should leave presets hidden before the ban hidden', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('SELECT * FROM banned_users')) {
+                    return createBanRow();
+                }
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            await unbanUser(db, '111222333', '987654321');
+
+            const restore = db._queries.find((q) => q.includes('SET status = pre_ban_status'));
+            expect(restore).toContain('pre_ban_status IS NOT NULL');
+            expect(restore).not.toContain("'approved'");
+        });
+    });
+
+    // ============================================
+    // getBans
+    // ============================================
+
+    describe('getBans', () => {
+        it('should list only active bans by default', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ ...createBanRow(), _total: 1 }]);
+
+            const result = await getBans(db, {});
+
+            expect(result.total).toBe(1);
+            expect(result.page).toBe(1);
+            expect(result.limit).toBe(20);
+            expect(result.has_more).toBe(false);
+            expect(db._queries[0]).toContain('WHERE unbanned_at IS NULL');
+            expect(db._queries[0]).toContain('expires_at > ?');
+        });
+
+        it('should include lifted bans when status is all', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const result = await getBans(db, { status: 'all' });
+
+            expect(result.total).toBe(0);
+            expect(db._queries[0]).not.toContain('unbanned_at IS NULL');
+        });
+
+        it('should apply pagination offset', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getBans(db, { page: 3, limit: 10, status: 'all' });
+
+            expect(db._bindings[0]).toEqual([10, 20]);
+        });
+    });
+
+    // ============================================
+    // getUserBanHistory
+    // ============================================
+
+    describe('getUserBanHistory', () => {
+        it('should return all bans for a user', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                createBanRow({ id: 'ban-2' }),
+                createBanRow({ id: 'ban-1', unbanned_at: '2025-11-01T00:00:00.000Z' }),
+            ]);
+
+            const history = await getUserBanHistory(db, '111222333');
+
+            expect(history).toHaveLength(2);
+            expect(history[0].is_active).toBe(true);
+            expect(history[1].is_active).toBe(false);
+        });
+    });
+
+    // ============================================
+    // releaseExpiredBans
+    // ============================================
+
+    describe('releaseExpiredBans', () => {
+        it('should do nothing when no bans have expired', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const released = await releaseExpiredBans(db);
+
+            expect(released).toBe(0);
+            expect(db._queries.some((q) => q.includes('UPDATE banned_users'))).toBe(false);
+        });
+
+        it('should close expired bans and restore presets', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('SELECT * FROM banned_users')) {
+                    return [createBanRow({ expires_at: '2025-12-02T00:00:00.000Z' })];
+                }
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const released = await releaseExpiredBans(db);
+
+            expect(released).toBe(1);
+            expect(db._queries.some((q) => q.includes('SET unbanned_at = expires_at'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('SET status = pre_ban_status'))).toBe(true);
+        });
+
+        it('should scope the sweep to one user when given a Discord ID', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await releaseExpiredBans(db, '111222333');
+
+            expect(db._queries[0]).toContain('discord_id = ?');
+            expect(db._bindings[0]).toContain('111222333');
+        });
+
+        it('should release at most one sweep of bans per call', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await releaseExpiredBans(db);
+
+            expect(db._queries[0]).toContain('ORDER BY expires_at ASC LIMIT ?');
+            expect(db._bindings[0][db._bindings[0].length - 1]).toBe(RELEASE_SWEEP_LIMIT);
+        });
+    });
+});
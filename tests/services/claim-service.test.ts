@@ -0,0 +1,68 @@
+/**
+ * Claim Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CLAIM_DURATION_MINUTES, claimPreset, releaseClaim } from '../../src/services/claim-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('ClaimService', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('claimPreset', () => {
+        it('should claim a preset for CLAIM_DURATION_MINUTES', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await claimPreset(db, 'preset-1', 'mod-1', now);
+
+            expect(result.claimed).toBe(true);
+            expect(result.claim.moderator_discord_id).toBe('mod-1');
+            expect(new Date(result.claim.expires_at).getTime() - now.getTime()).toBe(CLAIM_DURATION_MINUTES * 60 * 1000);
+            expect(db._queries[0]).toContain('ON CONFLICT(preset_id) DO UPDATE');
+        });
+
+        it('should return the existing claim when another moderator holds it', async () => {
+            const existing = {
+                preset_id: 'preset-1',
+                moderator_discord_id: 'mod-2',
+                claimed_at: '2024-12-31T23:55:00Z',
+                expires_at: '2025-01-01T00:05:00Z',
+            };
+            const db = createMockD1Database();
+            db._setupMock((query) =>
+                query.includes('INSERT') ? { success: true, meta: { changes: 0 } } : existing
+            );
+
+            const result = await claimPreset(db, 'preset-1', 'mod-1', now);
+
+            expect(result).toEqual({ claimed: false, claim: existing });
+        });
+    });
+
+    describe('releaseClaim', () => {
+        it("should only release the given moderator's claim", async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const released = await releaseClaim(db, 'preset-1', 'mod-1');
+
+            expect(released).toBe(false);
+            expect(db._bindings[0]).toEqual(['preset-1', 'mod-1']);
+        });
+
+        it('should release any claim when no moderator is given', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const released = await releaseClaim(db, 'preset-1');
+
+            expect(released).toBe(true);
+            expect(db._bindings[0]).toEqual(['preset-1']);
+        });
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Collection Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    rowToCollection,
+    getCollectionsByOwner,
+    createCollection,
+    updateCollection,
+    reorderCollectionPresets,
+} from '../../src/services/collection-service';
+import { validateCollectionOrder, validateCollectionDescription } from '../../src/services/validation-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('CollectionService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('rowToCollection', () => {
+        it('should convert SQLite booleans and default the count', () => {
+            const collection = rowToCollection({
+                id: 'collection-1',
+                owner_discord_id: 'owner-1',
+                name: 'Glam',
+                description: null,
+                is_public: 0,
+                created_at: '2025-01-01T00:00:00Z',
+                updated_at: '2025-01-01T00:00:00Z',
+            });
+
+            expect(collection.is_public).toBe(false);
+            expect(collection.preset_count).toBe(0);
+        });
+    });
+
+    describe('getCollectionsByOwner', () => {
+        it('should count only visible presets', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getCollectionsByOwner(db, 'owner-1');
+
+            expect(db._queries[0]).toContain("p.status = 'approved' AND p.deleted_at IS NULL");
+            expect(db._queries[0]).toContain('ORDER BY c.updated_at DESC');
+        });
+    });
+
+    describe('createCollection', () => {
+        it('should insert a private collection by default', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const collection = await createCollection(db, 'owner-1', { name: 'Glam' });
+
+            expect(collection.is_public).toBe(false);
+            expect(collection.description).toBeNull();
+            expect(db._bindings[0].slice(1, 5)).toEqual(['owner-1', 'Glam', null, 0]);
+        });
+    });
+
+    describe('updateCollection', () => {
+        it('should only set provided fields', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            await updateCollection(db, 'collection-1', { description: null });
+
+            expect(db._queries[0]).toContain('description = ?');
+            expect(db._queries[0]).not.toContain('name = ?');
+            expect(db._bindings[0].slice(1)).toEqual([null, 'collection-1']);
+        });
+    });
+
+    describe('reorderCollectionPresets', () => {
+        it('should move other entries past the visible range before renumbering', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await reorderCollectionPresets(db, 'collection-1', ['b', 'a']);
+
+            expect(db._queries[0]).toContain('SET position = position + ?');
+            expect(db._bindings[0]).toEqual([2, 'collection-1']);
+            expect(db._bindings[1]).toEqual([0, 'collection-1', 'b']);
+            expect(db._bindings[2]).toEqual([1, 'collection-1', 'a']);
+        });
+    });
+
+    describe('validateCollectionOrder', () => {
+        it('should accept a permutation of the current presets', () => {
+            expect(validateCollectionOrder(['b', 'a'], ['a', 'b'])).toBeNull();
+        });
+
+        it('should reject duplicates, missing, or unknown presets', () => {
+            expect(validateCollectionOrder(['a', 'a'], ['a', 'b'])).not.toBeNull();
+            expect(validateCollectionOrder(['a'], ['a', 'b'])).not.toBeNull();
+            expect(validateCollectionOrder(['a', 'c'], ['a', 'b'])).not.toBeNull();
+            expect(validateCollectionOrder('a,b', ['a', 'b'])).not.toBeNull();
+        });
+    });
+
+    describe('validateCollectionDescription', () => {
+        it('should allow null and reject non-strings', () => {
+            expect(validateCollectionDescription(null)).toBeNull();
+            expect(validateCollectionDescription(42)).not.toBeNull();
+            expect(validateCollectionDescription('x'.repeat(201))).not.toBeNull();
+        });
+    });
+});
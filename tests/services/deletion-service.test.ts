@@ -0,0 +1,137 @@
+/**
+ * Deletion Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_RESTORE_WINDOW_DAYS,
+    getRestoreWindowDays,
+    getRestoreDeadline,
+    softDeletePreset,
+    getRestorablePresetsByUser,
+    purgePreset,
+    purgeExpiredDeletedPresets,
+    PURGE_SWEEP_LIMIT,
+} from '../../src/services/deletion-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('DeletionService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // Restore window
+    // ============================================
+
+    describe('getRestoreWindowDays', () => {
+        it('should use the configured window', () => {
+            expect(getRestoreWindowDays({ PRESET_RESTORE_WINDOW_DAYS: '7' })).toBe(7);
+        });
+
+        it('should fall back to the default when unset or invalid', () => {
+            expect(getRestoreWindowDays({})).toBe(DEFAULT_RESTORE_WINDOW_DAYS);
+            expect(getRestoreWindowDays({ PRESET_RESTORE_WINDOW_DAYS: '0' })).toBe(DEFAULT_RESTORE_WINDOW_DAYS);
+        });
+    });
+
+    describe('getRestoreDeadline', () => {
+        it('should add the window to the deletion time', () => {
+            expect(getRestoreDeadline('2025-01-01T00:00:00.000Z', 2)).toBe('2025-01-03T00:00:00.000Z');
+        });
+    });
+
+    // ============================================
+    // softDeletePreset
+    // ============================================
+
+    describe('softDeletePreset', () => {
+        it('should mark the preset deleted, free its signature, and drop index entries', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await softDeletePreset(db, 'preset-1');
+
+            expect(db._queries[0]).toContain('SET deleted_at = ?');
+            expect(db._queries[0]).toContain('dye_signature = NULL');
+            expect(db._queries[0]).toContain('deleted_at IS NULL');
+            expect(db._bindings[0][1]).toBe(0);
+            expect(db._queries.some((q) => q.includes('DELETE FROM presets_fts'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM preset_dyes'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM preset_tags'))).toBe(true);
+        });
+
+        it('should flag moderator deletions', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await softDeletePreset(db, 'preset-1', true);
+
+            expect(db._bindings[0][1]).toBe(1);
+        });
+    });
+
+    // ============================================
+    // getRestorablePresetsByUser
+    // ============================================
+
+    describe('getRestorablePresetsByUser', () => {
+        it('should only match deletions inside the window', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getRestorablePresetsByUser(db, 'user-1', undefined, 10, new Date('2025-01-11T00:00:00.000Z'));
+
+            expect(db._bindings[0]).toEqual(['user-1', null, '2025-01-01T00:00:00.000Z']);
+        });
+    });
+
+    // ============================================
+    // Purging
+    // ============================================
+
+    describe('purgePreset', () => {
+        it('should remove votes, revisions, and the preset but not the moderation log or appeals', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await purgePreset(db, 'preset-1');
+
+            expect(db._queries.some((q) => q.includes('DELETE FROM votes'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM bookmarks'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM preset_comments'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM preset_reports'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM moderation_claims'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('appeals'))).toBe(false);
+            expect(db._queries.some((q) => q.includes('DELETE FROM preset_revisions'))).toBe(true);
+            expect(db._queries[db._queries.length - 1]).toContain('DELETE FROM presets WHERE id = ?');
+            expect(db._queries.some((q) => q.includes('moderation_log'))).toBe(false);
+        });
+    });
+
+    describe('purgeExpiredDeletedPresets', () => {
+        it('should purge presets deleted before the window', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('SELECT id FROM presets')) return [{ id: 'old-1' }, { id: 'old-2' }];
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const purged = await purgeExpiredDeletedPresets(db, 30, new Date('2025-01-31T00:00:00.000Z'));
+
+            expect(purged).toBe(2);
+            expect(db._bindings[0]).toEqual(['2025-01-01T00:00:00.000Z', PURGE_SWEEP_LIMIT]);
+            expect(db._queries[0]).toContain('LIMIT ?');
+            const presetDeletes = db._queries.filter((q) => q.includes('DELETE FROM presets WHERE id = ?'));
+            expect(presetDeletes).toHaveLength(2);
+        });
+
+        it('should do nothing when no presets have expired', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            expect(await purgeExpiredDeletedPresets(db)).toBe(0);
+            expect(db._queries).toHaveLength(1);
+        });
+    });
+});
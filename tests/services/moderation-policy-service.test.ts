@@ -0,0 +1,116 @@
+/**
+ * Moderation Policy Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_MODERATION_POLICY,
+    evaluateModerationPolicy,
+    getModerationPolicy,
+    updateModerationPolicy,
+} from '../../src/services/moderation-policy-service';
+import type { ModerationPolicy } from '../../src/types';
+import { createMockD1Database } from '../test-utils';
+
+function policyWith(overrides: Partial<ModerationPolicy['attributes']>): ModerationPolicy {
+    return {
+        ...DEFAULT_MODERATION_POLICY,
+        attributes: { ...DEFAULT_MODERATION_POLICY.attributes, ...overrides },
+    };
+}
+
+describe('ModerationPolicyService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('evaluateModerationPolicy', () => {
+        it('should pass scores below every threshold', () => {
+            expect(evaluateModerationPolicy({ TOXICITY: 0.5, INSULT: 0.3 }, DEFAULT_MODERATION_POLICY)).toBeNull();
+        });
+
+        it('should send content to review at the default pending level', () => {
+            expect(evaluateModerationPolicy({ INSULT: 0.7 }, DEFAULT_MODERATION_POLICY)).toEqual({
+                action: 'pending',
+                attribute: 'INSULT',
+                score: 0.7,
+            });
+        });
+
+        it('should prefer a reject over an earlier pending violation', () => {
+            const policy = policyWith({ PROFANITY: { pending: 0.7, reject: 0.9 } });
+
+            expect(evaluateModerationPolicy({ TOXICITY: 0.8, PROFANITY: 0.95 }, policy)).toEqual({
+                action: 'reject',
+                attribute: 'PROFANITY',
+                score: 0.95,
+            });
+        });
+
+        it('should ignore levels set to null', () => {
+            const policy = policyWith({ TOXICITY: { pending: null, reject: null } });
+
+            expect(evaluateModerationPolicy({ TOXICITY: 0.99 }, policy)).toBeNull();
+        });
+    });
+
+    describe('getModerationPolicy', () => {
+        it('should return the defaults when no rows are stored', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const policy = await getModerationPolicy(db);
+
+            expect(policy).toEqual(DEFAULT_MODERATION_POLICY);
+        });
+
+        it('should merge stored rows over the defaults', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                {
+                    attribute: 'SEVERE_TOXICITY',
+                    pending_threshold: 0.5,
+                    reject_threshold: 0.8,
+                    updated_at: '2026-01-02T00:00:00.000Z',
+                    updated_by: '111111111111111111',
+                },
+                {
+                    attribute: 'UNKNOWN_ATTRIBUTE',
+                    pending_threshold: 0.1,
+                    reject_threshold: 0.1,
+                    updated_at: '2026-02-01T00:00:00.000Z',
+                    updated_by: '222222222222222222',
+                },
+            ]);
+
+            const policy = await getModerationPolicy(db);
+
+            expect(policy.attributes.SEVERE_TOXICITY).toEqual({ pending: 0.5, reject: 0.8 });
+            expect(policy.attributes.TOXICITY).toEqual({ pending: 0.7, reject: null });
+            expect(policy).not.toHaveProperty('attributes.UNKNOWN_ATTRIBUTE');
+            expect(policy.updated_by).toBe('111111111111111111');
+        });
+    });
+
+    describe('updateModerationPolicy', () => {
+        it('should upsert one row per attribute', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await updateModerationPolicy(
+                db,
+                {
+                    TOXICITY: { pending: 0.6, reject: 0.9 },
+                    INSULT: { pending: 0.8, reject: null },
+                },
+                '111111111111111111'
+            );
+
+            const upserts = db._queries.filter((q) => q.includes('INSERT INTO moderation_policy'));
+            expect(upserts).toHaveLength(2);
+            expect(db._bindings).toContainEqual(
+                expect.arrayContaining(['INSULT', 0.8, null, '111111111111111111'])
+            );
+        });
+    });
+});
@@ -11,8 +11,10 @@ import {
     compileProfanityPatterns,
     _resetPatternsForTesting,
     _setTestPatterns,
+    SUBSTRING_MATCH_LOCALES,
 } from '../../src/services/moderation-service';
-import { createMockEnv, resetCounters } from '../test-utils';
+import type { SupportedLocale } from '../../src/data/profanity/index';
+import { createMockEnv, createMockD1Database, resetCounters } from '../test-utils';
 import type { Env } from '../../src/types';
 
 // Mock fetch for external API calls
@@ -99,6 +101,67 @@ describe('ModerationService', () => {
         });
     });
 
+    // ============================================
+    // compileProfanityPatterns - Locale-aware matching
+    // ============================================
+
+    describe('compileProfanityPatterns - locale-aware matching', () => {
+        // Each locale's bundled term, embedded the way it appears in real text,
+        // and a text where it is only part of a longer word
+        const cases: Record<SupportedLocale, { term: string; match: string; partial: string | null }> = {
+            en: { term: 'ai slop', match: 'This is ai slop.', partial: 'aislopper' },
+            de: { term: 'ki-schrott', match: 'Das ist KI-Schrott!', partial: 'KI-Schrottplatz' },
+            fr: { term: 'brouillon ia', match: 'Un brouillon IA, vraiment', partial: 'brouillon iable' },
+            ja: { term: 'aiのゴミ', match: 'これはaiのゴミです', partial: null },
+            ko: { term: 'ai 쓰레기', match: '이건 ai 쓰레기네요', partial: null },
+            zh: { term: 'ai垃圾', match: '这是ai垃圾吧', partial: null },
+        };
+
+        it.each(Object.entries(cases))('should match %s terms in running text', (locale, { term, match }) => {
+            const compiled = compileProfanityPatterns({ [locale]: [term] });
+
+            expect(compiled.combinedPattern?.test(match)).toBe(true);
+        });
+
+        it.each(Object.entries(cases).filter(([, { partial }]) => partial !== null))(
+            'should keep word boundaries for %s',
+            (locale, { term, partial }) => {
+                const compiled = compileProfanityPatterns({ [locale]: [term] });
+
+                expect(compiled.combinedPattern?.test(partial!)).toBe(false);
+            }
+        );
+
+        it('should only match substrings for CJK locales', () => {
+            expect(SUBSTRING_MATCH_LOCALES).toEqual(['ja', 'ko', 'zh']);
+
+            // The same string in a space-delimited list still needs boundaries
+            const compiled = compileProfanityPatterns({ en: ['ai垃圾'] });
+            expect(compiled.combinedPattern?.test('这是ai垃圾吧')).toBe(false);
+        });
+
+        it('should treat accented letters as part of a word', () => {
+            const compiled = compileProfanityPatterns({ de: ['ki-füllmaterial'] });
+
+            expect(compiled.combinedPattern?.test('KI-Füllmaterial')).toBe(true);
+            expect(compiled.combinedPattern?.test('KI-Füllmaterialé')).toBe(false);
+        });
+
+        it('should apply normalization to CJK terms', () => {
+            _resetPatternsForTesting();
+            const compiled = compileProfanityPatterns({ ja: ['aiのゴミ'] });
+
+            const result = checkLocalFilter('これはＡＩのｺﾞﾐ', '', compiled);
+
+            expect(result?.normalization).toBe('unicode');
+        });
+
+        it('should flag the bundled CJK lists by default', () => {
+            expect(checkLocalFilter('Palette', '这是ai水文')).not.toBeNull();
+            expect(checkLocalFilter('Palette', 'これはaiのガラクタだ')).not.toBeNull();
+        });
+    });
+
     // ============================================
     // checkLocalFilter - Direct Testing
     // ============================================
@@ -163,6 +226,46 @@ describe('ModerationService', () => {
             expect(result).toBeNull();
         });
 
+        it('should report no normalization for a plain match', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            const result = checkLocalFilter('badword', 'Clean');
+
+            expect(result!.normalization).toBe('none');
+            expect(result!.flaggedReason).toBe('Contains prohibited content');
+        });
+
+        it('should report the normalization that produced the match', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            expect(checkLocalFilter('ＢＡＤＷＯＲＤ', 'Clean')!.normalization).toBe('unicode');
+            expect(checkLocalFilter('b4dw0rd', 'Clean')!.normalization).toBe('confusables');
+            expect(checkLocalFilter('Clean', 'b a d w o r d')!.normalization).toBe('separators');
+            expect(checkLocalFilter('Clean', 'baaadwooord')!.normalization).toBe('repeats');
+        });
+
+        it('should attribute normalized matches to the right field', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            const result = checkLocalFilter('Nice Palette', 'so b.a.d.w.o.r.d');
+
+            expect(result!.flaggedField).toBe('description');
+            expect(result!.flaggedReason).toContain('separators');
+        });
+
+        it('should not flag words that only match after over-normalizing', () => {
+            _setTestPatterns([/\bass\b/i]);
+
+            expect(checkLocalFilter('As I said', 'Classic colors')).toBeNull();
+        });
+
+        it('should not read a mixed i and l run as one letter', () => {
+            const profanity = compileProfanityPatterns({ en: ['ai slop'] });
+
+            expect(checkLocalFilter('Ail slop', 'Clean', profanity)).toBeNull();
+            expect(checkLocalFilter('Aiii sl0p', 'Clean', profanity)!.normalization).toBe('repeats');
+        });
+
         it('should handle case insensitivity correctly', () => {
             _setTestPatterns([/\bBADWORD\b/i]);
 
@@ -176,6 +279,44 @@ describe('ModerationService', () => {
         });
     });
 
+    // ============================================
+    // checkLocalFilter - Tags and Author Names
+    // ============================================
+
+    describe('checkLocalFilter - tags and author names', () => {
+        it('should flag prohibited tags', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            const result = checkLocalFilter('Nice Palette', 'Clean', undefined, { tags: ['warm', 'badword'] });
+
+            expect(result!.flaggedField).toBe('tags');
+        });
+
+        it('should flag prohibited author names', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            const result = checkLocalFilter('Nice Palette', 'Clean', undefined, {
+                tags: ['warm'],
+                authorName: 'b4dw0rd',
+            });
+
+            expect(result!.flaggedField).toBe('author_name');
+            expect(result!.normalization).toBe('confusables');
+        });
+
+        it('should not join the end of one field with the start of the next', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            expect(checkLocalFilter('Nice b', 'a d w o r d')).toBeNull();
+        });
+
+        it('should not join neighbouring tags into one word', () => {
+            _setTestPatterns([/\bbadword\b/i]);
+
+            expect(checkLocalFilter('Nice Palette', 'Clean', undefined, { tags: ['bad', 'word'] })).toBeNull();
+        });
+    });
+
     // ============================================
     // moderateContent - Local Filter
     // ============================================
@@ -337,6 +478,72 @@ describe('ModerationService', () => {
         });
     });
 
+    // ============================================
+    // moderateContent - Stored Profanity Terms
+    // ============================================
+
+    describe('moderateContent - Stored Profanity Terms', () => {
+        const termRow = (term: string, locale = 'en') => ({
+            id: `term-${term}`,
+            locale,
+            term,
+            added_by: '123456789',
+            created_at: '2026-01-01T00:00:00.000Z',
+        });
+
+        it('should flag terms stored in D1', async () => {
+            const mockDb = createMockD1Database();
+            mockDb._setupMock((query) => (query.includes('profanity_terms') ? [termRow('gilslop')] : null));
+            const env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+            const result = await moderateContent('Gilslop Palette', 'Nice colors', env);
+
+            expect(result.passed).toBe(false);
+            expect(result.flaggedField).toBe('name');
+            expect(result.method).toBe('local');
+        });
+
+        it('should still apply the bundled lists', async () => {
+            const mockDb = createMockD1Database();
+            mockDb._setupMock((query) => (query.includes('profanity_terms') ? [termRow('gilslop')] : null));
+            const env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+            const result = await moderateContent('Palette', 'Pure ai slop', env);
+
+            expect(result.passed).toBe(false);
+            expect(result.flaggedField).toBe('description');
+        });
+
+        it('should recompile when a term is removed', async () => {
+            const mockDb = createMockD1Database();
+            let rows = [termRow('gilslop')];
+            mockDb._setupMock((query) => (query.includes('profanity_terms') ? rows : null));
+            const env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+            expect((await moderateContent('Gilslop', 'Nice colors', env)).passed).toBe(false);
+
+            rows = [];
+            expect((await moderateContent('Gilslop', 'Nice colors', env)).passed).toBe(true);
+        });
+
+        it('should keep the last compiled terms if D1 cannot be read', async () => {
+            const mockDb = createMockD1Database();
+            let failing = false;
+            mockDb._setupMock((query) => {
+                if (failing) throw new Error('D1 unavailable');
+                return query.includes('profanity_terms') ? [termRow('gilslop')] : null;
+            });
+            const env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+            await moderateContent('Palette', 'Nice colors', env);
+            failing = true;
+
+            const result = await moderateContent('Gilslop', 'Nice colors', env);
+
+            expect(result.passed).toBe(false);
+        });
+    });
+
     // ============================================
     // moderateContent - Perspective API
     // ============================================
@@ -402,11 +609,83 @@ describe('ModerationService', () => {
 
             expect(result.passed).toBe(false);
             expect(result.method).toBe('perspective');
-            expect(result.flaggedField).toBe('content');
             expect(result.flaggedReason).toContain('toxicity');
             expect(result.scores?.toxicity).toBe(0.85);
         });
 
+        it('should score each field on its own to find the flagged one', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+            fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+                const { text } = JSON.parse(init.body as string).comment;
+                const insult = text.includes('Someone') ? 0.9 : 0.1;
+                return { ok: true, json: async () => ({ attributeScores: { INSULT: { summaryScore: { value: insult } } } }) };
+            });
+
+            const result = await moderateContent('Palette', 'Nice', env, { tags: ['warm'], authorName: 'Someone' });
+
+            expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).comment.text).toBe('Palette Nice warm Someone');
+            expect(fetchMock).toHaveBeenCalledTimes(5);
+            expect(result.flaggedField).toBe('author_name');
+        });
+
+        it('should stop scoring fields at the first flagged one', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+            fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+                const { text } = JSON.parse(init.body as string).comment;
+                const insult = text.includes('Rude') ? 0.9 : 0.1;
+                return { ok: true, json: async () => ({ attributeScores: { INSULT: { summaryScore: { value: insult } } } }) };
+            });
+
+            const result = await moderateContent('Rude Palette', 'Nice', env, { tags: ['warm'], authorName: 'Someone' });
+
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            expect(result.flaggedField).toBe('name');
+        });
+
+        it('should still flag the content when scoring a field fails', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+            fetchMock
+                .mockResolvedValueOnce({
+                    ok: true,
+                    json: async () => ({ attributeScores: { INSULT: { summaryScore: { value: 0.9 } } } }),
+                })
+                .mockResolvedValue({ ok: false, status: 429, text: async () => 'Quota exceeded' });
+
+            const result = await moderateContent('Palette', 'Nice', env, { tags: ['warm'], authorName: 'Someone' });
+
+            expect(result.passed).toBe(false);
+            expect(result.flaggedField).toBe('content');
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('should report content when no field is flagged on its own', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+            fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+                const { text } = JSON.parse(init.body as string).comment;
+                const insult = text === 'Palette Nice' ? 0.9 : 0.1;
+                return { ok: true, json: async () => ({ attributeScores: { INSULT: { summaryScore: { value: insult } } } }) };
+            });
+
+            const result = await moderateContent('Palette', 'Nice', env);
+
+            expect(result.passed).toBe(false);
+            expect(result.flaggedField).toBe('content');
+        });
+
+        it('should not score a single field twice', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+            fetchMock.mockResolvedValue({
+                ok: true,
+                json: async () => ({ attributeScores: { INSULT: { summaryScore: { value: 0.9 } } } }),
+            });
+
+            // Comments are moderated with an empty name
+            const result = await moderateContent('', 'Some comment', env);
+
+            expect(fetchMock).toHaveBeenCalledOnce();
+            expect(result.flaggedField).toBe('description');
+        });
+
         it('should flag any score above threshold', async () => {
             const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
 
@@ -433,6 +712,99 @@ describe('ModerationService', () => {
             expect(result.flaggedReason).toContain('identityAttack');
         });
 
+        it('should not set an action when content passes', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    attributeScores: {
+                        TOXICITY: { summaryScore: { value: 0.1 } },
+                    },
+                }),
+            });
+
+            const result = await moderateContent('Test', 'Test', env);
+
+            expect(result.passed).toBe(true);
+            expect(result.action).toBeUndefined();
+        });
+
+        it('should hold content for review under the default policy', async () => {
+            const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
+
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    attributeScores: {
+                        TOXICITY: { summaryScore: { value: 0.99 } },
+                    },
+                }),
+            });
+
+            const result = await moderateContent('Test', 'Test', env);
+
+            expect(result.passed).toBe(false);
+            expect(result.action).toBe('pending');
+        });
+
+        it('should reject content at the stored reject threshold', async () => {
+            const mockDb = createMockD1Database();
+            mockDb._setupMock((query) =>
+                query.includes('moderation_policy')
+                    ? [
+                          {
+                              attribute: 'INSULT',
+                              pending_threshold: 0.5,
+                              reject_threshold: 0.8,
+                              updated_at: '2026-01-01T00:00:00.000Z',
+                              updated_by: '123456789',
+                          },
+                      ]
+                    : null
+            );
+            const env = createMockEnv({ DB: mockDb as unknown as D1Database, PERSPECTIVE_API_KEY: 'test-api-key' });
+
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    attributeScores: {
+                        TOXICITY: { summaryScore: { value: 0.75 } },
+                        INSULT: { summaryScore: { value: 0.85 } },
+                    },
+                }),
+            });
+
+            const result = await moderateContent('Test', 'Test', env);
+
+            expect(result.passed).toBe(false);
+            expect(result.action).toBe('reject');
+            expect(result.flaggedReason).toContain('insult');
+        });
+
+        it('should fall back to the default policy if it cannot be loaded', async () => {
+            const mockDb = createMockD1Database();
+            mockDb._setupMock(() => {
+                throw new Error('D1 unavailable');
+            });
+            const env = createMockEnv({ DB: mockDb as unknown as D1Database, PERSPECTIVE_API_KEY: 'test-api-key' });
+
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    attributeScores: {
+                        PROFANITY: { summaryScore: { value: 0.72 } },
+                    },
+                }),
+            });
+
+            const result = await moderateContent('Test', 'Test', env);
+
+            expect(fetchMock).toHaveBeenCalled();
+            expect(result.passed).toBe(false);
+            expect(result.action).toBe('pending');
+        });
+
         it('should gracefully handle Perspective API errors', async () => {
             const env = createMockEnv({ PERSPECTIVE_API_KEY: 'test-api-key' });
 
@@ -491,7 +863,7 @@ describe('ModerationService', () => {
             );
 
             // Since local lists are empty, Perspective API is always called when configured
-            expect(fetchMock).toHaveBeenCalledOnce();
+            expect(fetchMock).toHaveBeenCalled();
             // If Perspective flags it, it should fail
             expect(result.passed).toBe(false);
         });
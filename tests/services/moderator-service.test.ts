@@ -0,0 +1,45 @@
+/**
+ * Moderator Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ROLE_PERMISSIONS, roleHasPermission, getModeratorRole } from '../../src/services/moderator-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('ModeratorService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('roleHasPermission', () => {
+        it('should limit reviewers to approving and rejecting', () => {
+            expect(roleHasPermission('reviewer', 'approve')).toBe(true);
+            expect(roleHasPermission('reviewer', 'reject')).toBe(true);
+            expect(roleHasPermission('reviewer', 'ban')).toBe(false);
+        });
+
+        it('should give admins every permission', () => {
+            for (const permission of new Set(Object.values(ROLE_PERMISSIONS).flat())) {
+                expect(roleHasPermission('admin', permission)).toBe(true);
+            }
+        });
+    });
+
+    describe('getModeratorRole', () => {
+        it('should return the stored role', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ role: 'moderator' }));
+
+            expect(await getModeratorRole(db, '111111111111111111')).toBe('moderator');
+        });
+
+        it('should ignore unknown roles and missing rows', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ role: 'owner' }));
+            expect(await getModeratorRole(db, '111111111111111111')).toBeNull();
+
+            db._setupMock(() => null);
+            expect(await getModeratorRole(db, '111111111111111111')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Normalization Service Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    normalizeUnicode,
+    mapConfusables,
+    joinSeparatedLetters,
+    normalizeForStage,
+    termPatternSources,
+} from '../../src/services/normalization-service';
+
+describe('NormalizationService', () => {
+    describe('normalizeUnicode', () => {
+        it('should fold full-width Latin to ASCII', () => {
+            expect(normalizeUnicode('ＳＬＯＰ')).toBe('slop');
+        });
+
+        it('should strip zero-width characters', () => {
+            expect(normalizeUnicode('s\u200Bl\u200Do\uFEFFp')).toBe('slop');
+        });
+    });
+
+    describe('mapConfusables', () => {
+        it('should map leetspeak digits', () => {
+            expect(mapConfusables('5l0p')).toBe('slop');
+        });
+
+        it('should map Cyrillic and Greek homoglyphs', () => {
+            expect(mapConfusables('ѕlор')).toBe('slop');
+            expect(mapConfusables('ѕιορ')).toBe('siop');
+        });
+
+        it('should only map symbols used inside a word', () => {
+            expect(mapConfusables('$lop')).toBe('slop');
+            expect(mapConfusables('nice!')).toBe('nice!');
+        });
+    });
+
+    describe('joinSeparatedLetters', () => {
+        it('should join spaced-out and dotted letters', () => {
+            expect(joinSeparatedLetters('s l o p palette')).toBe('slop palette');
+            expect(joinSeparatedLetters('s.l.o.p')).toBe('slop');
+        });
+
+        it('should leave ordinary words alone', () => {
+            expect(joinSeparatedLetters('a warm palette')).toBe('a warm palette');
+        });
+    });
+
+    describe('normalizeForStage', () => {
+        it('should apply stages cumulatively', () => {
+            const text = 'Ｓ 1 o p';
+
+            expect(normalizeForStage(text, 'none')).toBe('ｓ 1 o p');
+            expect(normalizeForStage(text, 'unicode')).toBe('s 1 o p');
+            expect(normalizeForStage(text, 'confusables')).toBe('s i o p');
+            expect(normalizeForStage(text, 'separators')).toBe('siop');
+        });
+    });
+
+    describe('termPatternSources', () => {
+        it('should let i and l stand in for each other from the confusables stage', () => {
+            expect(termPatternSources('slop', 'unicode')).toEqual(['slop']);
+            expect(termPatternSources('slop', 'confusables')).toEqual(['s[il]op']);
+        });
+
+        it('should add a variant without spaces for separated letters', () => {
+            expect(termPatternSources('ai slop', 'separators')).toEqual(['a[il] s[il]op', 'a[il]s[il]op']);
+        });
+
+        it('should match longer runs of each letter at the repeats stage', () => {
+            const pattern = new RegExp(`^(${termPatternSources('ass', 'repeats').join('|')})$`, 'u');
+
+            expect(pattern.test('assss')).toBe(true);
+            expect(pattern.test('aass')).toBe(true);
+            expect(pattern.test('as')).toBe(false);
+        });
+
+        it('should not merge i and l into one run at the repeats stage', () => {
+            const pattern = new RegExp(`^(${termPatternSources('ai slop', 'repeats').join('|')})$`, 'u');
+
+            expect(pattern.test('aii sloop')).toBe(true);
+            expect(pattern.test('ai siop')).toBe(true);
+            expect(pattern.test('ail slop')).toBe(false);
+        });
+
+        it('should skip terms that normalize to nothing', () => {
+            expect(termPatternSources('\u200B\u200B', 'unicode')).toEqual([]);
+        });
+    });
+});
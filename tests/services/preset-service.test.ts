@@ -15,10 +15,17 @@ import {
     getPendingPresets,
     getPresetsByUser,
     findDuplicatePresetExcluding,
+    getSimilarPresets,
     updatePreset,
     revertPreset,
+    restorePresetRevision,
+    withPresetLineage,
+    buildFtsQuery,
+    formatHighlight,
+    encodePresetCursor,
+    decodePresetCursor,
 } from '../../src/services/preset-service';
-import type { PresetRow, CommunityPreset } from '../../src/types';
+import type { PresetRow, CommunityPreset, PresetRevision } from '../../src/types';
 import {
     createMockD1Database,
     createMockPresetRow,
@@ -180,8 +187,108 @@ describe('PresetService', () => {
 
             await getPresets(db, { search: 'red' });
 
-            expect(db._queries.some((q) => q.includes('LIKE ?'))).toBe(true);
-            expect(db._bindings.some((b) => b.some((v) => v === '%red%'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('presets_fts MATCH ?'))).toBe(true);
+            expect(db._bindings.some((b) => b.some((v) => v === '"red"*'))).toBe(true);
+        });
+
+        it('should filter by presets containing all listed dyes', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { dyes: [5738, 13115, 5738] });
+
+            expect(db._queries[0]).toContain('FROM preset_dyes WHERE dye_id IN (?, ?) GROUP BY preset_id HAVING COUNT(*) = ?');
+            expect(db._bindings[0]).toEqual(['approved', 5738, 13115, 2, 20, 0]);
+        });
+
+        it('should filter by presets containing any listed dye', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { dyes: [5738, 13115], dye_match: 'any' });
+
+            expect(db._queries[0]).toContain('FROM preset_dyes WHERE dye_id IN (?, ?))');
+            expect(db._queries[0]).not.toContain('HAVING');
+            expect(db._bindings[0]).toEqual(['approved', 5738, 13115, 20, 0]);
+        });
+
+        it('should filter by tag, resolving aliases', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { tag: 'goth' });
+
+            expect(db._queries[0]).toContain('FROM preset_tags WHERE tag = COALESCE(');
+            expect(db._bindings[0]).toEqual(['approved', 'goth', 'goth', 20, 0]);
+        });
+
+        it('should sort by trending score', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { sort: 'trending' });
+
+            expect(db._queries[0]).toContain('ORDER BY trending_score DESC, vote_count DESC');
+        });
+
+        it('should order search results by relevance by default', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { search: 'red' });
+
+            expect(db._queries[0]).toContain('ORDER BY _rank ASC');
+        });
+
+        it('should respect an explicit sort when searching', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { search: 'red', sort: 'recent' });
+
+            expect(db._queries[0]).toContain('ORDER BY created_at DESC');
+        });
+
+        it('should ignore search input without searchable terms', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { search: '%%' });
+
+            expect(db._queries[0]).not.toContain('presets_fts');
+            expect(db._queries[0]).toContain('ORDER BY vote_count DESC');
+        });
+
+        it('should return HTML-escaped highlights when requested', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                {
+                    ...createMockPresetRow(),
+                    _total: 1,
+                    _highlight_name: '\u0002Red\u0003 <Mage>',
+                    _highlight_description: 'A \u0002red\u0003 palette…',
+                },
+            ]);
+
+            const result = await getPresets(db, { search: 'red', highlight: true });
+
+            expect(db._queries[0]).toContain('snippet(presets_fts');
+            expect(result.presets[0]).toMatchObject({
+                search_highlight: {
+                    name: '<mark>Red</mark> &lt;Mage&gt;',
+                    description: 'A <mark>red</mark> palette…',
+                },
+            });
+        });
+
+        it('should not include highlights unless requested', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ ...createMockPresetRow(), _total: 1 }]);
+
+            const result = await getPresets(db, { search: 'red' });
+
+            expect(db._queries[0]).not.toContain('snippet(');
+            expect(result.presets[0]).not.toHaveProperty('search_highlight');
         });
 
         it('should filter by is_curated', async () => {
@@ -278,15 +385,13 @@ describe('PresetService', () => {
             expect(result.has_more).toBe(false);
         });
 
-        it('should escape LIKE pattern special characters in search', async () => {
+        it('should strip FTS syntax from search input', async () => {
             const db = createMockD1Database();
             db._setupMock(() => []);
 
-            await getPresets(db, { search: 'test%_\\string' });
+            await getPresets(db, { search: 'test" OR name:*' });
 
-            // The search pattern should be escaped
-            const query = db._queries.find((q) => q.includes('LIKE'));
-            expect(query).toBeDefined();
+            expect(db._bindings[0]).toContain('"test"* "or"* "name"*');
         });
 
         it('should filter by is_curated false', async () => {
@@ -334,6 +439,15 @@ describe('PresetService', () => {
 
             expect(db._queries[0]).toContain('vote_count DESC');
         });
+
+        it('should order by trending score when requested', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getFeaturedPresets(db, 'trending');
+
+            expect(db._queries[0]).toContain('ORDER BY trending_score DESC');
+        });
     });
 
     // ============================================
@@ -421,6 +535,36 @@ describe('PresetService', () => {
             expect(result.is_curated).toBe(false);
         });
 
+        it('should add the new preset to the search index', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await createPreset(db, createMockSubmission(), 'user-123', 'TestUser');
+
+            const indexQuery = db._queries.find((q) => q.includes('INSERT INTO presets_fts'));
+            expect(indexQuery).toBeDefined();
+            expect(db._bindings[db._queries.indexOf(indexQuery!)]).toEqual([result.id]);
+        });
+
+        it('should add the new preset to the tag index', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await createPreset(db, createMockSubmission(), 'user-123', 'TestUser');
+
+            expect(db._queries.some((q) => q.includes('INSERT OR IGNORE INTO preset_tags'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('LEFT JOIN tag_aliases'))).toBe(true);
+        });
+
+        it('should add the new preset to the dye index', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await createPreset(db, createMockSubmission(), 'user-123', 'TestUser');
+
+            expect(db._queries.some((q) => q.includes('INSERT OR IGNORE INTO preset_dyes'))).toBe(true);
+        });
+
         it('should generate UUID for new preset', async () => {
             const db = createMockD1Database();
             const submission = createMockSubmission();
@@ -556,6 +700,16 @@ describe('PresetService', () => {
             expect(db._bindings.some((b) => b.includes('New Name'))).toBe(true);
         });
 
+        it('should rebuild the search index entry', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockPresetRow());
+
+            await updatePreset(db, 'preset-1', { name: 'New Name' });
+
+            expect(db._queries.some((q) => q.includes('DELETE FROM presets_fts'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('INSERT INTO presets_fts'))).toBe(true);
+        });
+
         it('should update description field', async () => {
             const db = createMockD1Database();
             db._setupMock(() => createMockPresetRow());
@@ -722,4 +876,368 @@ describe('PresetService', () => {
             expect(updateQuery).toBeDefined();
         });
     });
+
+    // ============================================
+    // Search helpers
+    // ============================================
+
+    describe('buildFtsQuery', () => {
+        it('should quote each term as a prefix match', () => {
+            expect(buildFtsQuery('Sun War')).toBe('"sun"* "war"*');
+        });
+
+        it('should drop punctuation and FTS operators', () => {
+            expect(buildFtsQuery('"red" -(blue) NEAR/2')).toBe('"red"* "blue"* "near"* "2"*');
+        });
+
+        it('should keep non-Latin letters', () => {
+            expect(buildFtsQuery('赤 Eorzéa')).toBe('"赤"* "eorzéa"*');
+        });
+
+        it('should return null when there are no terms', () => {
+            expect(buildFtsQuery('%_*')).toBeNull();
+        });
+
+        it('should cap the number of terms', () => {
+            const query = buildFtsQuery('a b c d e f g h i j k l');
+            expect(query?.split(' ')).toHaveLength(10);
+        });
+    });
+
+    describe('formatHighlight', () => {
+        it('should escape HTML and mark matches', () => {
+            expect(formatHighlight('\u0002Dark\u0003 & <b>"Knight"</b>')).toBe(
+                '<mark>Dark</mark> &amp; &lt;b&gt;&quot;Knight&quot;&lt;/b&gt;'
+            );
+        });
+    });
+
+    // ============================================
+    // Cursor pagination
+    // ============================================
+
+    describe('cursor pagination', () => {
+        it('should round-trip cursors through encode and decode', () => {
+            const cursor = { sort: 'name' as const, values: ['Ärger', 'preset-1'] };
+
+            const encoded = encodePresetCursor(cursor);
+
+            expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+            expect(decodePresetCursor(encoded)).toEqual(cursor);
+        });
+
+        it('should reject malformed cursors', () => {
+            expect(decodePresetCursor('not a cursor')).toBeNull();
+            expect(decodePresetCursor(encodePresetCursor({ sort: 'recent', values: ['2025-01-01'] }))).toBeNull();
+            expect(decodePresetCursor(btoa(JSON.stringify({ s: 'relevance', v: [1, 'a'] })))).toBeNull();
+        });
+
+        it('should return next_cursor from the last row of an offset page', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                { ...createMockPresetRow({ id: 'a', vote_count: 9, created_at: '2025-01-02T00:00:00Z' }), _total: 5 },
+                { ...createMockPresetRow({ id: 'b', vote_count: 7, created_at: '2025-01-01T00:00:00Z' }), _total: 5 },
+            ]);
+
+            const result = await getPresets(db, { limit: 2 });
+
+            expect(result.has_more).toBe(true);
+            expect(decodePresetCursor(result.next_cursor!)).toEqual({
+                sort: 'popular',
+                values: [7, '2025-01-01T00:00:00Z', 'b'],
+            });
+        });
+
+        it('should return no next_cursor on the last page', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [{ ...createMockPresetRow(), _total: 1 }]);
+
+            const result = await getPresets(db, {});
+
+            expect(result.next_cursor).toBeNull();
+        });
+
+        it('should query after the cursor key without counting', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const result = await getPresets(db, {
+                limit: 10,
+                cursor: { sort: 'popular', values: [7, '2025-01-01T00:00:00Z', 'b'] },
+            });
+
+            expect(db._queries[0]).toContain('(vote_count, created_at, id) < (?, ?, ?)');
+            expect(db._queries[0]).not.toContain('COUNT(*) OVER()');
+            expect(db._queries[0]).not.toContain('OFFSET');
+            expect(db._bindings[0]).toEqual(['approved', 7, '2025-01-01T00:00:00Z', 'b', 11]);
+            expect(result.total).toBeNull();
+        });
+
+        it('should continue trending pages after the score key', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, {
+                cursor: { sort: 'trending', values: [1.25, 4, '2025-01-01T00:00:00Z', 'b'] },
+            });
+
+            expect(db._queries[0]).toContain('(trending_score, vote_count, created_at, id) < (?, ?, ?, ?)');
+        });
+
+        it('should page forwards for ascending sorts', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getPresets(db, { cursor: { sort: 'name', values: ['Midnight', 'preset-1'] } });
+
+            expect(db._queries[0]).toContain('(name, id) > (?, ?)');
+            expect(db._queries[0]).toContain('ORDER BY name ASC, id ASC');
+        });
+
+        it('should detect further pages from the extra row', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                createMockPresetRow({ id: 'c', created_at: '2025-01-03T00:00:00Z' }),
+                createMockPresetRow({ id: 'd', created_at: '2025-01-02T00:00:00Z' }),
+            ]);
+
+            const result = await getPresets(db, {
+                limit: 1,
+                cursor: { sort: 'recent', values: ['2025-01-04T00:00:00Z', 'b'] },
+            });
+
+            expect(result.presets).toHaveLength(1);
+            expect(result.has_more).toBe(true);
+            expect(decodePresetCursor(result.next_cursor!)).toEqual({
+                sort: 'recent',
+                values: ['2025-01-03T00:00:00Z', 'c'],
+            });
+        });
+
+        it('should not issue cursors for relevance-ranked searches', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                { ...createMockPresetRow({ id: 'a' }), _total: 3 },
+            ]);
+
+            const result = await getPresets(db, { search: 'red', limit: 1 });
+
+            expect(result.has_more).toBe(true);
+            expect(result.next_cursor).toBeNull();
+        });
+    });
+
+    // ============================================
+    // getSimilarPresets
+    // ============================================
+
+    describe('getSimilarPresets', () => {
+        it('should rank by dye overlap and exclude the preset itself', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [
+                { ...createMockPresetRow({ id: 'preset-2' }), shared_dyes: 3, similarity: 0.75 },
+            ]);
+
+            const result = await getSimilarPresets(db, 'preset-1');
+
+            expect(result[0]).toMatchObject({ id: 'preset-2', shared_dyes: 3, similarity: 0.75 });
+            expect(db._queries[0]).toContain('candidate.preset_id != ?');
+            expect(db._queries[0]).toContain('ORDER BY similarity DESC, presets.vote_count DESC');
+            expect(db._bindings[0]).toEqual(['preset-1', 'preset-1', 6]);
+        });
+
+        it('should only return approved presets', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getSimilarPresets(db, 'preset-1', 10);
+
+            expect(db._queries[0]).toContain("presets.status = 'approved' AND presets.status != 'hidden'");
+        });
+    });
+
+    // ============================================
+    // Revisions
+    // ============================================
+
+    describe('revision recording', () => {
+        const findRevisionInsert = (db: ReturnType<typeof createMockD1Database>) => {
+            const index = db._queries.findIndex((q) => q.includes('INSERT INTO preset_revisions'));
+            return index === -1 ? null : { query: db._queries[index], bindings: db._bindings[index] };
+        };
+
+        it('should record a create revision with every field changed', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await createPreset(db, createMockSubmission(), 'user-123', 'TestUser');
+
+            const revision = findRevisionInsert(db);
+            expect(revision).not.toBeNull();
+            expect(revision!.bindings).toContain('create');
+            expect(revision!.bindings).toContain('["name","description","dyes","tags"]');
+            expect(revision!.bindings).toContain('user-123');
+            expect(revision!.bindings[revision!.bindings.length - 1]).toBe(result.id);
+        });
+
+        it('should record an edit revision with the changed fields and editor', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockPresetRow({ name: 'Old Name', tags: JSON.stringify(['old']) }));
+
+            await updatePreset(db, 'preset-1', { name: 'New Name', tags: ['new'] }, undefined, 'approved', {
+                discordId: 'user-123',
+            });
+
+            const revision = findRevisionInsert(db);
+            expect(revision).not.toBeNull();
+            expect(revision!.bindings).toContain('edit');
+            expect(revision!.bindings).toContain('["name","tags"]');
+            expect(revision!.bindings).toContain('user-123');
+        });
+
+        it('should leave submitted fields that did not change out of the revision', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() =>
+                createMockPresetRow({
+                    name: 'Same Name',
+                    description: 'Same description',
+                    dyes: JSON.stringify([1, 2, 3]),
+                    tags: JSON.stringify(['old']),
+                })
+            );
+
+            await updatePreset(db, 'preset-1', {
+                name: 'Same Name',
+                description: 'Same description',
+                dyes: [1, 2, 3],
+                tags: ['new'],
+            });
+
+            const revision = findRevisionInsert(db);
+            expect(revision!.bindings).toContain('["tags"]');
+        });
+
+        it('should return null without writing when the preset does not exist', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            const result = await updatePreset(db, 'missing', { name: 'New Name' });
+
+            expect(result).toBeNull();
+            expect(db._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+        });
+
+        it('should snapshot after the index statements so tags are canonical', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => createMockPresetRow());
+
+            await updatePreset(db, 'preset-1', { tags: ['new'] });
+
+            const tagIndex = db._queries.findIndex((q) => q.includes('INSERT OR IGNORE INTO preset_tags'));
+            const revisionIndex = db._queries.findIndex((q) => q.includes('INSERT INTO preset_revisions'));
+            expect(revisionIndex).toBeGreaterThan(tagIndex);
+        });
+
+        it('should record a revert revision with the fields that changed back', async () => {
+            const db = createMockD1Database();
+            const mockRow = createMockPresetRow({
+                name: 'Flagged Name',
+                previous_values: JSON.stringify({
+                    name: 'Original Name',
+                    description: 'A test preset description',
+                    tags: ['test', 'sample'],
+                    dyes: [1, 2, 3],
+                }),
+            });
+            db._setupMock(() => mockRow);
+
+            await revertPreset(db, 'preset-1', 'mod-1');
+
+            const revision = findRevisionInsert(db);
+            expect(revision).not.toBeNull();
+            expect(revision!.bindings).toContain('revert');
+            expect(revision!.bindings).toContain('mod-1');
+        });
+    });
+
+    describe('restorePresetRevision', () => {
+        const revision: PresetRevision = {
+            id: 'rev-1',
+            preset_id: 'preset-1',
+            revision_number: 2,
+            action: 'edit',
+            name: 'Older Name',
+            description: 'An older description',
+            dyes: [7, 8, 9],
+            tags: ['older'],
+            changed_fields: ['name'],
+            editor_discord_id: 'user-123',
+            editor_xivauth_id: null,
+            moderation_status: 'approved',
+            created_at: '2025-01-01T00:00:00Z',
+        };
+
+        it('should write the revision content, approve, and clear previous_values', async () => {
+            const db = createMockD1Database();
+            const current = rowToPreset(createMockPresetRow({ id: 'preset-1' }));
+            db._setupMock(() => createMockPresetRow({ id: 'preset-1' }));
+
+            await restorePresetRevision(db, current, revision, 'mod-1');
+
+            const updateIndex = db._queries.findIndex(
+                (q) => q.includes('UPDATE presets') && q.includes('previous_values = NULL')
+            );
+            expect(updateIndex).not.toBe(-1);
+            expect(db._queries[updateIndex]).toContain("status = 'approved'");
+            expect(db._bindings[updateIndex]).toContain('Older Name');
+            expect(db._bindings[updateIndex]).toContain('[7,8,9]');
+            expect(db._bindings[updateIndex]).toContain(generateDyeSignature([7, 8, 9]));
+        });
+
+        it('should rebuild the index entries and record a restore revision', async () => {
+            const db = createMockD1Database();
+            const current = rowToPreset(createMockPresetRow({ id: 'preset-1' }));
+            db._setupMock(() => createMockPresetRow({ id: 'preset-1' }));
+
+            await restorePresetRevision(db, current, revision, 'mod-1');
+
+            expect(db._queries.some((q) => q.includes('INSERT INTO presets_fts'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('INTO preset_dyes'))).toBe(true);
+            const revisionIndex = db._queries.findIndex((q) => q.includes('INSERT INTO preset_revisions'));
+            expect(db._bindings[revisionIndex]).toContain('restore');
+            expect(db._bindings[revisionIndex]).toContain('mod-1');
+        });
+    });
+
+    // ============================================
+    // Remix lineage
+    // ============================================
+
+    describe('withPresetLineage', () => {
+        it('should look up approved remixes and a visible parent', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ remix_count: 2, parent_id: null, parent_name: null, parent_author_name: null }));
+            const preset = rowToPreset({ ...createMockPresetRow({ id: 'preset-1' }), parent_id: 'parent-1' });
+
+            const result = await withPresetLineage(db, preset);
+
+            expect(result.remix_count).toBe(2);
+            expect(result.parent).toBeNull();
+            expect(db._bindings[0]).toEqual(['preset-1', 'parent-1']);
+            expect(db._queries[0]).toContain("parent.status = 'approved' AND parent.deleted_at IS NULL");
+        });
+    });
+
+    describe('createPreset remix', () => {
+        it('should store the parent_id', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const result = await createPreset(db, { ...createMockSubmission(), parent_id: 'parent-1' }, 'user-123', 'TestUser');
+
+            expect(result.parent_id).toBe('parent-1');
+            const insertIndex = db._queries.findIndex((q) => q.includes('INSERT INTO presets ('));
+            expect(db._bindings[insertIndex][db._bindings[insertIndex].length - 1]).toBe('parent-1');
+        });
+    });
 });
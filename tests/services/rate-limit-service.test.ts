@@ -6,6 +6,8 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import {
     checkSubmissionRateLimit,
     getRemainingSubmissions,
+    checkCommentRateLimit,
+    recordCommentActivity,
     checkPublicRateLimit,
     getClientIp,
 } from '../../src/services/rate-limit-service';
@@ -195,6 +197,47 @@ describe('RateLimitService', () => {
         });
     });
 
+    // ============================================
+    // checkCommentRateLimit
+    // ============================================
+
+    describe('checkCommentRateLimit', () => {
+        it('should count comments separately from submissions', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ count: 12 }));
+
+            const result = await checkCommentRateLimit(db, 'user-123', 'xiv-456');
+
+            expect(result.allowed).toBe(true);
+            expect(result.remaining).toBe(18);
+            expect(db._queries[0]).toContain('FROM comment_activity');
+            expect(db._bindings[0].slice(0, 2)).toEqual(['user-123', 'xiv-456']);
+        });
+
+        it('should deny at the daily comment limit', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ count: 30 }));
+
+            const result = await checkCommentRateLimit(db, 'user-123');
+
+            expect(result.allowed).toBe(false);
+            expect(result.remaining).toBe(0);
+            expect(result.resetAt.toISOString()).toBe('2025-06-16T00:00:00.000Z');
+        });
+    });
+
+    describe('recordCommentActivity', () => {
+        it('should append an activity row for the author', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true }));
+
+            await recordCommentActivity(db, 'user-123', undefined, 'edit');
+
+            expect(db._queries[0]).toContain('INSERT INTO comment_activity');
+            expect(db._bindings[0].slice(1, 4)).toEqual(['user-123', null, 'edit']);
+        });
+    });
+
     // ============================================
     // Edge Cases and Time Zones
     // ============================================
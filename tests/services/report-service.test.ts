@@ -0,0 +1,120 @@
+/**
+ * Report Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_REPORT_FLAG_THRESHOLD,
+    getReportFlagThreshold,
+    createReport,
+    flagIfReportThresholdReached,
+    getReports,
+} from '../../src/services/report-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('ReportService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('getReportFlagThreshold', () => {
+        it('should read a configured threshold', () => {
+            expect(getReportFlagThreshold({ REPORT_FLAG_THRESHOLD: '5' })).toBe(5);
+        });
+
+        it('should fall back to the default for missing or invalid values', () => {
+            expect(getReportFlagThreshold({})).toBe(DEFAULT_REPORT_FLAG_THRESHOLD);
+            expect(getReportFlagThreshold({ REPORT_FLAG_THRESHOLD: '0' })).toBe(DEFAULT_REPORT_FLAG_THRESHOLD);
+            expect(getReportFlagThreshold({ REPORT_FLAG_THRESHOLD: '1.5' })).toBe(DEFAULT_REPORT_FLAG_THRESHOLD);
+        });
+    });
+
+    describe('createReport', () => {
+        it('should return null when the user already reported the preset', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            const report = await createReport(db, 'preset-1', 'user-1', 'spam', null);
+
+            expect(report).toBeNull();
+            expect(db._queries[0]).toContain('ON CONFLICT(preset_id, reporter_key) DO NOTHING');
+        });
+
+        it('should return the new open report', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            const report = await createReport(db, 'preset-1', 'user-1', 'stolen', 'Copied from my palette');
+
+            expect(report).toMatchObject({ preset_id: 'preset-1', category: 'stolen', status: 'open' });
+        });
+    });
+
+    describe('flagIfReportThresholdReached', () => {
+        it('should flag an approved preset at the threshold and log a system flag', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => (query.includes('COUNT(*)') ? { count: 3 } : { success: true, meta: { changes: 1 } }));
+
+            const flagged = await flagIfReportThresholdReached(db, { id: 'preset-1', status: 'approved' }, 3);
+
+            expect(flagged).toBe(true);
+            expect(db._queries.some((q) => q.includes("SET status = 'flagged'"))).toBe(true);
+            const logIndex = db._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(db._bindings[logIndex].slice(1, 4)).toEqual(['preset-1', 'system', 'flag']);
+        });
+
+        it('should not report or log a flag another report already applied', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => (query.includes('COUNT(*)') ? { count: 3 } : { success: true, meta: { changes: 0 } }));
+
+            const flagged = await flagIfReportThresholdReached(db, { id: 'preset-1', status: 'approved' }, 3);
+
+            expect(flagged).toBe(false);
+            const logIndex = db._queries.findIndex((q) => q.includes('INSERT INTO moderation_log'));
+            expect(db._queries[logIndex]).toContain("WHERE EXISTS (SELECT 1 FROM presets WHERE id = ? AND status = 'flagged' AND updated_at = ?)");
+        });
+
+        it('should not flag below the threshold', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ count: 2 }));
+
+            const flagged = await flagIfReportThresholdReached(db, { id: 'preset-1', status: 'approved' }, 3);
+
+            expect(flagged).toBe(false);
+            expect(db._queries.some((q) => q.includes('UPDATE presets'))).toBe(false);
+        });
+
+        it('should leave presets that are not approved alone', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ count: 10 }));
+
+            const flagged = await flagIfReportThresholdReached(db, { id: 'preset-1', status: 'flagged' }, 3);
+
+            expect(flagged).toBe(false);
+            expect(db._queries).toHaveLength(0);
+        });
+    });
+
+    describe('getReports', () => {
+        it('should list open reports by default', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            const response = await getReports(db, {});
+
+            expect(response).toMatchObject({ reports: [], total: 0, page: 1, limit: 20, has_more: false });
+            expect(db._queries[0]).toContain('WHERE r.status = ?');
+            expect(db._bindings[0]).toEqual(['open', 20, 0]);
+        });
+
+        it('should not filter when listing all reports', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => []);
+
+            await getReports(db, { status: 'all', page: 2, limit: 10 });
+
+            expect(db._queries[0]).not.toContain('WHERE r.status');
+            expect(db._bindings[0]).toEqual([10, 10]);
+        });
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Revision Service Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    diffPresetContent,
+    recordRevisionStatement,
+    getPresetRevisions,
+    getPresetRevision,
+} from '../../src/services/revision-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('RevisionService', () => {
+    const content = {
+        name: 'Sunset',
+        description: 'Warm tones',
+        dyes: [1, 2, 3],
+        tags: ['warm'],
+    };
+
+    const revisionRow = {
+        id: 'rev-2',
+        preset_id: 'preset-1',
+        revision_number: 2,
+        action: 'edit',
+        name: 'Sunset',
+        description: 'Warm tones',
+        dyes: '[1,2,3]',
+        tags: '["warm"]',
+        changed_fields: '["name"]',
+        editor_discord_id: 'user-1',
+        editor_xivauth_id: null,
+        moderation_status: 'pending',
+        created_at: '2025-01-02T00:00:00Z',
+    };
+
+    describe('diffPresetContent', () => {
+        it('should return no fields for identical content', () => {
+            expect(diffPresetContent(content, { ...content, dyes: [1, 2, 3] })).toEqual([]);
+        });
+
+        it('should list changed fields in display order', () => {
+            expect(diffPresetContent(content, { ...content, tags: ['cool'], name: 'Dusk' })).toEqual([
+                'name',
+                'tags',
+            ]);
+        });
+
+        it('should treat reordered dyes as a change', () => {
+            expect(diffPresetContent(content, { ...content, dyes: [3, 2, 1] })).toEqual(['dyes']);
+        });
+    });
+
+    describe('recordRevisionStatement', () => {
+        it('should snapshot the preset row with the next revision number', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 1 } }));
+
+            await recordRevisionStatement(
+                db,
+                'preset-1',
+                { action: 'edit', changedFields: ['name'], editor: { discordId: 'user-1' } },
+                '2025-01-02T00:00:00Z'
+            ).run();
+
+            expect(db._queries[0]).toContain('INSERT INTO preset_revisions');
+            expect(db._queries[0]).toContain('COALESCE(MAX(revision_number), 0) + 1');
+            expect(db._bindings[0].slice(1)).toEqual([
+                'edit',
+                '["name"]',
+                'user-1',
+                null,
+                '2025-01-02T00:00:00Z',
+                'preset-1',
+            ]);
+        });
+    });
+
+    describe('getPresetRevisions', () => {
+        it('should return parsed revisions newest first', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => [revisionRow]);
+
+            const revisions = await getPresetRevisions(db, 'preset-1');
+
+            expect(db._queries[0]).toContain('ORDER BY revision_number DESC');
+            expect(revisions[0]).toMatchObject({
+                revision_number: 2,
+                dyes: [1, 2, 3],
+                tags: ['warm'],
+                changed_fields: ['name'],
+                moderation_status: 'pending',
+            });
+        });
+    });
+
+    describe('getPresetRevision', () => {
+        it('should return null when the revision does not exist', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            expect(await getPresetRevision(db, 'preset-1', 5)).toBeNull();
+            expect(db._bindings[0]).toEqual(['preset-1', 5]);
+        });
+    });
+});
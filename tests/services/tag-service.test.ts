@@ -0,0 +1,124 @@
+/**
+ * Tag Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { normalizeTag, normalizeTags, resolveTag, mergeTagAlias } from '../../src/services/tag-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('TagService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // normalizeTag / normalizeTags
+    // ============================================
+
+    describe('normalizeTag', () => {
+        it('should trim, lowercase, and collapse whitespace', () => {
+            expect(normalizeTag('  Gothic   Knight ')).toBe('gothic knight');
+        });
+
+        it('should fold full-width characters', () => {
+            expect(normalizeTag('ＧＯＴＨＩＣ')).toBe('gothic');
+        });
+    });
+
+    describe('normalizeTags', () => {
+        it('should merge tags that normalize to the same value', () => {
+            expect(normalizeTags(['Gothic', 'gothic ', 'Dark'])).toEqual(['gothic', 'dark']);
+        });
+
+        it('should drop empty tags', () => {
+            expect(normalizeTags(['  ', 'pastel'])).toEqual(['pastel']);
+        });
+    });
+
+    // ============================================
+    // resolveTag
+    // ============================================
+
+    describe('resolveTag', () => {
+        it('should return the canonical tag for an alias', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ tag: 'gothic' }));
+
+            expect(await resolveTag(db, 'goth')).toBe('gothic');
+        });
+
+        it('should return the tag itself when it is not an alias', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => null);
+
+            expect(await resolveTag(db, 'gothic')).toBe('gothic');
+        });
+    });
+
+    // ============================================
+    // mergeTagAlias
+    // ============================================
+
+    describe('mergeTagAlias', () => {
+        it('should record the alias and rebuild affected presets', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('FROM tag_aliases WHERE alias = ?')) return null;
+                if (query.includes('UPDATE presets SET tags')) return { success: true, meta: { changes: 2 } };
+                return { success: true, meta: { changes: 1 } };
+            });
+
+            const result = await mergeTagAlias(db, 'goth', 'gothic');
+
+            expect(result).toEqual({ tag: 'gothic', presetsUpdated: 2 });
+            expect(db._queries.some((q) => q.includes('INSERT INTO tag_aliases'))).toBe(true);
+            const updateIndex = db._queries.findIndex((q) => q.includes('UPDATE presets SET tags'));
+            expect(db._queries[updateIndex]).toContain('WHERE id IN (SELECT preset_id FROM preset_tags WHERE tag = ?)');
+            expect(db._bindings[updateIndex]).toEqual(['goth']);
+            expect(db._queries.some((q) => q.includes('INSERT INTO presets_fts'))).toBe(true);
+            expect(db._queries.some((q) => q.includes('DELETE FROM tags WHERE name = ?'))).toBe(true);
+        });
+
+        it('should merge a popular tag in a fixed number of statements', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('FROM tag_aliases WHERE alias = ?')) return null;
+                return { success: true, meta: { changes: 5000 } };
+            });
+
+            const result = await mergeTagAlias(db, 'goth', 'gothic');
+
+            expect(result).toEqual({ tag: 'gothic', presetsUpdated: 5000 });
+            expect(db._queries.filter((q) => q.includes('UPDATE presets SET tags'))).toHaveLength(1);
+            expect(db._queries.length).toBeLessThan(15);
+        });
+
+        it('should point the alias at the canonical tag of an alias target', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('FROM tag_aliases WHERE alias = ?')) return { tag: 'gothic' };
+                if (query.includes('SELECT preset_id FROM preset_tags')) return [];
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            const result = await mergeTagAlias(db, 'gothy', 'goth');
+
+            expect(result?.tag).toBe('gothic');
+            const aliasIndex = db._queries.findIndex((q) => q.includes('INSERT INTO tag_aliases'));
+            expect(db._bindings[aliasIndex]).toEqual(['gothy', 'gothic', expect.any(String)]);
+        });
+
+        it('should refuse to alias a tag to itself', async () => {
+            const db = createMockD1Database();
+            db._setupMock((query) => {
+                if (query.includes('FROM tag_aliases WHERE alias = ?')) return { tag: 'goth' };
+                return { success: true, meta: { changes: 0 } };
+            });
+
+            const result = await mergeTagAlias(db, 'goth', 'gothic');
+
+            expect(result).toBeNull();
+            expect(db._queries.some((q) => q.includes('INSERT INTO tag_aliases'))).toBe(false);
+        });
+    });
+});
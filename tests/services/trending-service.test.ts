@@ -0,0 +1,90 @@
+/**
+ * Trending Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    DEFAULT_TRENDING_HALF_LIFE_HOURS,
+    TRENDING_WINDOW_HALF_LIVES,
+    getTrendingHalfLifeHours,
+    refreshTrendingScores,
+} from '../../src/services/trending-service';
+import { createMockD1Database } from '../test-utils';
+
+describe('TrendingService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    // ============================================
+    // getTrendingHalfLifeHours
+    // ============================================
+
+    describe('getTrendingHalfLifeHours', () => {
+        it('should use the configured half-life', () => {
+            expect(getTrendingHalfLifeHours({ TRENDING_HALF_LIFE_HOURS: '24' })).toBe(24);
+        });
+
+        it('should fall back to the default when unset', () => {
+            expect(getTrendingHalfLifeHours({})).toBe(DEFAULT_TRENDING_HALF_LIFE_HOURS);
+        });
+
+        it('should fall back to the default for invalid values', () => {
+            expect(getTrendingHalfLifeHours({ TRENDING_HALF_LIFE_HOURS: 'soon' })).toBe(DEFAULT_TRENDING_HALF_LIFE_HOURS);
+            expect(getTrendingHalfLifeHours({ TRENDING_HALF_LIFE_HOURS: '-5' })).toBe(DEFAULT_TRENDING_HALF_LIFE_HOURS);
+        });
+    });
+
+    // ============================================
+    // refreshTrendingScores
+    // ============================================
+
+    describe('refreshTrendingScores', () => {
+        it('should recompute scores from vote timestamps', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 4 } }));
+            const now = new Date('2025-12-01T00:00:00.000Z');
+
+            const updated = await refreshTrendingScores(db, 24, now);
+
+            expect(updated).toBe(4);
+            expect(db._queries[0]).toContain('SET trending_score');
+            expect(db._queries[0]).toContain('julianday(votes.created_at)');
+            expect(db._bindings[0][1]).toBe('2025-12-01T00:00:00.000Z');
+        });
+
+        it('should halve a vote weight once per half-life', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            await refreshTrendingScores(db, 48);
+
+            // exp(decay * days) for two days (one 48h half-life) should be 0.5
+            const decayPerDay = db._bindings[0][0] as number;
+            expect(Math.exp(decayPerDay * 2)).toBeCloseTo(0.5);
+        });
+
+        it('should reset presets whose votes were all removed', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+
+            await refreshTrendingScores(db);
+
+            expect(db._queries[0]).toContain('trending_score != 0 OR id IN');
+            expect(db._queries[0]).toContain('COALESCE(');
+        });
+
+        it('should only count votes inside the trending window', async () => {
+            const db = createMockD1Database();
+            db._setupMock(() => ({ success: true, meta: { changes: 0 } }));
+            const now = new Date('2025-12-01T00:00:00.000Z');
+
+            await refreshTrendingScores(db, 24, now);
+
+            const windowStart = new Date(now.getTime() - TRENDING_WINDOW_HALF_LIVES * 24 * 60 * 60 * 1000).toISOString();
+            expect(db._queries[0]).toContain('votes.created_at >= ?');
+            expect(db._queries[0]).toContain('SELECT preset_id FROM votes WHERE created_at >= ?');
+            expect(db._bindings[0].slice(2)).toEqual([windowStart, windowStart]);
+        });
+    });
+});
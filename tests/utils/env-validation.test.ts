@@ -270,6 +270,49 @@ describe('Environment Validation', () => {
             });
         });
 
+        describe('TRENDING_HALF_LIFE_HOURS validation', () => {
+            it('should pass with a positive number of hours', () => {
+                const env = createValidEnv({ TRENDING_HALF_LIFE_HOURS: '48' });
+                const result = validateEnv(env);
+
+                expect(result.valid).toBe(true);
+            });
+
+            it('should fail with a non-positive or non-numeric value', () => {
+                expect(validateEnv(createValidEnv({ TRENDING_HALF_LIFE_HOURS: '0' })).errors).toContain(
+                    'Invalid TRENDING_HALF_LIFE_HOURS: 0'
+                );
+                expect(validateEnv(createValidEnv({ TRENDING_HALF_LIFE_HOURS: 'week' })).valid).toBe(false);
+            });
+        });
+
+        describe('PRESET_RESTORE_WINDOW_DAYS validation', () => {
+            it('should pass with a positive number of days', () => {
+                expect(validateEnv(createValidEnv({ PRESET_RESTORE_WINDOW_DAYS: '14' })).valid).toBe(true);
+            });
+
+            it('should fail with a non-positive or non-numeric value', () => {
+                expect(validateEnv(createValidEnv({ PRESET_RESTORE_WINDOW_DAYS: '-1' })).errors).toContain(
+                    'Invalid PRESET_RESTORE_WINDOW_DAYS: -1'
+                );
+                expect(validateEnv(createValidEnv({ PRESET_RESTORE_WINDOW_DAYS: 'month' })).valid).toBe(false);
+            });
+        });
+
+        describe('REPORT_FLAG_THRESHOLD validation', () => {
+            it('should pass with a positive whole number', () => {
+                expect(validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: '5' })).valid).toBe(true);
+            });
+
+            it('should fail with zero, fractions, or non-numeric values', () => {
+                expect(validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: '0' })).errors).toContain(
+                    'Invalid REPORT_FLAG_THRESHOLD: 0'
+                );
+                expect(validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: '2.5' })).valid).toBe(false);
+                expect(validateEnv(createValidEnv({ REPORT_FLAG_THRESHOLD: 'many' })).valid).toBe(false);
+            });
+        });
+
         describe('DB binding validation', () => {
             it('should pass when DB is provided', () => {
                 const env = createValidEnv();